@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server"
+import { processPendingJobs } from "@/lib/jobs"
+
+// Drain for most of the function's lifetime; the next run resumes where this one stopped
+export const maxDuration = 300
+
+const WORKER_TIME_BUDGET_MS = 240 * 1000
+
+/**
+ * Job worker, run every minute by Vercel Cron (see vercel.json)
+ * Vercel sends the CRON_SECRET as a bearer token.
+ */
+export async function GET(req: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET
+
+  if (!cronSecret || req.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const processedJobIds = await processPendingJobs(Date.now() + WORKER_TIME_BUDGET_MS)
+
+    return NextResponse.json({
+      processedJobs: processedJobIds.length,
+      jobIds: processedJobIds
+    })
+  } catch (error) {
+    console.error("Error in job worker:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server"
+import { processSchedules } from "@/lib/schedules"
+
+export const maxDuration = 300
+
+const WORKER_TIME_BUDGET_MS = 240 * 1000
+
+/**
+ * Scheduler, run every 5 minutes by Vercel Cron (see vercel.json)
+ * Starts due schedule runs and reports finished ones; the job worker does the work.
+ * Vercel sends the CRON_SECRET as a bearer token.
+ */
+export async function GET(req: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET
+
+  if (!cronSecret || req.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const { started, finalized } = await processSchedules(Date.now() + WORKER_TIME_BUDGET_MS)
+
+    return NextResponse.json({ startedRuns: started, finalizedRuns: finalized })
+  } catch (error) {
+    console.error("Error in scheduler:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
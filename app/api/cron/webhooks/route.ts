@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server"
+import { deliverDueWebhooks } from "@/lib/webhooks"
+
+export const maxDuration = 300
+
+const WORKER_TIME_BUDGET_MS = 240 * 1000
+
+/**
+ * Webhook delivery worker, run every minute by Vercel Cron (see vercel.json)
+ * Makes every delivery attempt: first attempts as well as retries.
+ * Vercel sends the CRON_SECRET as a bearer token.
+ */
+export async function GET(req: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET
+
+  if (!cronSecret || req.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const attempted = await deliverDueWebhooks(Date.now() + WORKER_TIME_BUDGET_MS)
+
+    return NextResponse.json({ attemptedDeliveries: attempted })
+  } catch (error) {
+    console.error("Error in webhook delivery worker:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { validateWritePolicies, validateModelTier } from "@/lib/validation"
+
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error } = await supabase.auth.getUser()
+
+    if (error || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    const { data: settings, error: fetchError } = await supabase
+      .from('account_settings')
+      .select('write_policies, default_model_tier, updated_at')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (fetchError) {
+      console.error("Error fetching account settings:", fetchError)
+      return NextResponse.json(
+        { error: "Failed to fetch account settings" },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      settings: {
+        writePolicies: settings?.write_policies || {},
+        defaultModelTier: settings?.default_model_tier || null,
+        updatedAt: settings?.updated_at || null
+      }
+    })
+  } catch (error) {
+    console.error("Error fetching account settings:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error } = await supabase.auth.getUser()
+
+    if (error || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    const { writePolicies, defaultModelTier } = await req.json()
+
+    // Validate input
+    const writePoliciesValidation = validateWritePolicies(writePolicies)
+    if (!writePoliciesValidation.valid) {
+      return NextResponse.json(
+        { error: writePoliciesValidation.error },
+        { status: 400 }
+      )
+    }
+
+    const modelTierValidation = validateModelTier(defaultModelTier)
+    if (!modelTierValidation.valid) {
+      return NextResponse.json(
+        { error: modelTierValidation.error },
+        { status: 400 }
+      )
+    }
+
+    // Upsert settings (RLS policy ensures user can only write their own row)
+    const { data: settings, error: upsertError } = await supabase
+      .from('account_settings')
+      .upsert({
+        user_id: user.id,
+        write_policies: writePolicies || {},
+        default_model_tier: defaultModelTier || null
+      })
+      .select('write_policies, default_model_tier, updated_at')
+      .single()
+
+    if (upsertError) {
+      console.error("Error updating account settings:", upsertError)
+      return NextResponse.json(
+        { error: "Failed to update account settings" },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      settings: {
+        writePolicies: settings.write_policies,
+        defaultModelTier: settings.default_model_tier,
+        updatedAt: settings.updated_at
+      }
+    })
+  } catch (error) {
+    console.error("Error updating account settings:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
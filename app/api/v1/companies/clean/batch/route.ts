@@ -0,0 +1,334 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createServiceClient } from "@/lib/supabase/service"
+import { checkRateLimit } from "@/lib/ratelimit"
+import { checkFeatureAccess, trackFeatureUsage, notifyIfCreditsLow } from "@/lib/autumn"
+import { detectCRMFromHeaders } from "@/lib/crm"
+import { mapWithConcurrency } from "@/lib/batch"
+import {
+  validateBatchItems,
+  validateCompanyObject,
+  validateConcurrency,
+  validateContentType,
+  sanitizeErrorMessage
+} from "@/lib/validation"
+import { getAccountSettings } from "@/lib/account-settings"
+import { cleanCompany, parseCleanOptions, plansWrite, CleanOptions, CleanResult } from "@/lib/clean"
+import { OperationError } from "@/lib/operations"
+import { recordAICost } from "@/lib/cost-records"
+import { sumUsage, tierCreditCost, totalCostUSD, AIOutputInvalidError, AIUsage } from "@/lib/llm"
+
+// A full batch can take several minutes of AI calls
+export const maxDuration = 300
+
+const DEFAULT_CONCURRENCY = 5
+
+interface BatchItem {
+  recordId?: string
+  company: Record<string, unknown>
+}
+
+type BatchItemResult = {
+  index: number
+  recordId: string | null
+} & (
+  | { status: "success"; result: Omit<CleanResult, "tokenUsage" | "model" | "modelTier" | "creditCost" | "jsonSchema"> }
+  | { status: "error"; statusCode: number; error: string; code?: string; conflict?: unknown }
+)
+
+export async function POST(req: NextRequest) {
+  try {
+    // Validate Content-Type
+    const contentTypeValidation = validateContentType(req.headers.get('content-type'))
+    if (!contentTypeValidation.valid) {
+      return NextResponse.json(
+        { error: contentTypeValidation.error },
+        { status: 400 }
+      )
+    }
+
+    // Get API key from header
+    const apiKey = req.headers.get("x-api-key")
+
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: "API key required" },
+        { status: 401 }
+      )
+    }
+
+    // Parse request body
+    let body: Record<string, unknown> & { items: BatchItem[]; concurrency?: number }
+    try {
+      body = await req.json()
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid JSON in request body" },
+        { status: 400 }
+      )
+    }
+
+    const itemsValidation = validateBatchItems(body.items)
+    if (!itemsValidation.valid) {
+      return NextResponse.json(
+        { error: itemsValidation.error },
+        { status: 400 }
+      )
+    }
+
+    const concurrencyValidation = validateConcurrency(body.concurrency)
+    if (!concurrencyValidation.valid) {
+      return NextResponse.json(
+        { error: concurrencyValidation.error },
+        { status: 400 }
+      )
+    }
+
+    // cleanRules, mapping, mode, policies etc. apply to every item
+    const parsedOptions = parseCleanOptions(body)
+    if (!parsedOptions.options) {
+      return NextResponse.json(
+        { error: parsedOptions.error },
+        { status: 400 }
+      )
+    }
+
+    const options: CleanOptions = parsedOptions.options
+    const planWrite = plansWrite(options)
+    const concurrency = body.concurrency ?? DEFAULT_CONCURRENCY
+
+    // Detect CRM credentials (optional unless updateRecord is true)
+    const crmCredentials = detectCRMFromHeaders(req.headers)
+
+    // Record IDs are checked per item; the credentials are shared by every item
+    if (planWrite && !crmCredentials) {
+      return NextResponse.json(
+        { error: "CRM API key required when updateRecord is true or mode is preview. Please provide an x-{provider}-api-key header (e.g. x-hubspot-api-key)." },
+        { status: 400 }
+      )
+    }
+
+    // Validate API key and get user ID using service role client (bypasses RLS)
+    const supabase = createServiceClient()
+
+    const { data: apiKeyData, error: apiKeyError } = await supabase
+      .from("api_keys")
+      .select("id, user_id")
+      .eq("key", apiKey)
+      .single()
+
+    if (apiKeyError || !apiKeyData) {
+      return NextResponse.json(
+        { error: "Invalid API key" },
+        { status: 401 }
+      )
+    }
+
+    const userId: string = apiKeyData.user_id
+
+    // Check rate limits BEFORE doing anything else
+    const rateLimitResult = await checkRateLimit(userId, "clean-batch-endpoint")
+
+    if (!rateLimitResult.allowed) {
+      const resetDate = new Date(rateLimitResult.reset!)
+      return NextResponse.json(
+        {
+          error: `Rate limit exceeded (${rateLimitResult.limitType})`,
+          limit: rateLimitResult.limit,
+          remaining: rateLimitResult.remaining,
+          reset: resetDate.toISOString()
+        },
+        {
+          status: 429,
+          headers: {
+            'X-RateLimit-Limit': rateLimitResult.limit!.toString(),
+            'X-RateLimit-Remaining': rateLimitResult.remaining!.toString(),
+            'X-RateLimit-Reset': resetDate.toISOString()
+          }
+        }
+      )
+    }
+
+    // Check feature access with Autumn
+    const featureAccess = await checkFeatureAccess(userId, "api_credits")
+
+    if (!featureAccess.allowed) {
+      return NextResponse.json(
+        {
+          error: "Insufficient credits. Please purchase more credits to continue using the API.",
+          remaining: featureAccess.remaining || 0,
+          limit: featureAccess.limit
+        },
+        { status: 402 }
+      )
+    }
+
+    // Per-request settings override the account defaults (write policies field by field)
+    const accountSettings = await getAccountSettings(userId)
+    options.modelTier = options.modelTier ?? accountSettings.modelTier
+    if (planWrite) {
+      options.writePolicies = { ...accountSettings.writePolicies, ...options.writePolicies }
+    }
+
+    // Each in-flight item reserves its credits; failures release theirs, so the
+    // batch never cleans more companies than the balance covers
+    const itemCredits = tierCreditCost(options.modelTier, 1)
+    const creditBudget = featureAccess.remaining
+    let reservedCredits = 0
+
+    const usages: AIUsage[] = []
+    // AI calls of items that failed afterwards: not charged, but recorded
+    const failedUsages: AIUsage[] = []
+    let model: string | null = null
+
+    const results = await mapWithConcurrency(body.items, concurrency, async (item, index): Promise<BatchItemResult> => {
+      const recordId = typeof item.recordId === "string" ? item.recordId : null
+
+      if (!item.company || typeof item.company !== "object") {
+        return { index, recordId, status: "error", statusCode: 400, error: "Item must include a 'company' object" }
+      }
+
+      const companyValidation = validateCompanyObject(item.company)
+      if (!companyValidation.valid) {
+        return { index, recordId, status: "error", statusCode: 400, error: companyValidation.error! }
+      }
+
+      if (creditBudget !== undefined && reservedCredits + itemCredits > creditBudget) {
+        return { index, recordId, status: "error", statusCode: 402, error: "Insufficient credits" }
+      }
+      reservedCredits += itemCredits
+
+      try {
+        const cleaned = await cleanCompany({
+          company: item.company,
+          recordId: item.recordId,
+          options,
+          userId,
+          crmCredentials
+        })
+
+        usages.push({ model: cleaned.model, cached: cleaned.cached, ...cleaned.tokenUsage })
+        model = cleaned.model
+
+        // Cached results are free, so they give their reservation back
+        if (cleaned.cached) {
+          reservedCredits -= itemCredits
+        }
+
+        // Usage and model are reported once for the whole batch and the schema is the same for every item
+        return {
+          index,
+          recordId,
+          status: "success",
+          result: {
+            cleanedData: cleaned.cleanedData,
+            recordUpdated: cleaned.recordUpdated,
+            noteAdded: cleaned.noteAdded,
+            noteError: cleaned.noteError,
+            operationId: cleaned.operationId,
+            writePlan: cleaned.writePlan,
+            skippedLowConfidence: cleaned.skippedLowConfidence,
+            skippedByPolicy: cleaned.skippedByPolicy,
+            cached: cleaned.cached
+          }
+        }
+      } catch (cleanError) {
+        reservedCredits -= itemCredits
+
+        if (cleanError instanceof OperationError) {
+          failedUsages.push(...cleanError.aiUsages)
+          return {
+            index,
+            recordId,
+            status: "error",
+            statusCode: cleanError.status,
+            error: cleanError.message,
+            ...(cleanError instanceof AIOutputInvalidError ? { code: cleanError.code } : {}),
+            ...(cleanError.body?.conflict ? { conflict: cleanError.body.conflict } : {})
+          }
+        }
+
+        return {
+          index,
+          recordId,
+          status: "error",
+          statusCode: 500,
+          error: sanitizeErrorMessage(cleanError, 'clean-batch-item')
+        }
+      }
+    })
+
+    const succeeded = results.filter(result => result.status === "success").length
+    const creditCost = usages.filter(usage => !usage.cached).length * itemCredits
+
+    // Charge only for the companies that were cleaned (cached results are free)
+    if (succeeded > 0) {
+      try {
+        await trackFeatureUsage(userId, "api_credits", creditCost)
+      } catch (trackError) {
+        console.error("Failed to track usage with Autumn:", trackError)
+        return NextResponse.json(
+          { error: "Failed to track credit usage" },
+          { status: 500 }
+        )
+      }
+
+      await notifyIfCreditsLow(userId, featureAccess.remaining, creditCost)
+      await recordAICost({
+        userId,
+        operation: "clean-batch",
+        modelTier: options.modelTier,
+        usages,
+        creditsCharged: creditCost
+      })
+    }
+
+    if (failedUsages.length > 0) {
+      await recordAICost({
+        userId,
+        operation: "clean-batch",
+        modelTier: options.modelTier,
+        usages: failedUsages,
+        creditsCharged: 0
+      })
+    }
+
+    // Update last_used timestamp for API key
+    await supabase
+      .from("api_keys")
+      .update({ last_used: new Date().toISOString() })
+      .eq("id", apiKeyData.id)
+
+    return NextResponse.json({
+      results,
+      summary: {
+        total: results.length,
+        succeeded,
+        failed: results.length - succeeded,
+        // Succeeded items answered from the AI cache (not charged)
+        cached: usages.filter(usage => usage.cached).length
+      },
+      cleanRules: options.cleanRules || null,
+      cleanPropertyRules: options.cleanPropertyRules || null,
+      customFields: options.customFields || null,
+      propertyMapping: options.propertyMapping || null,
+      mode: options.mode,
+      minConfidence: options.minConfidence || null,
+      writePolicies: planWrite ? options.writePolicies : null,
+      concurrency,
+      modelTier: options.modelTier,
+      creditCost,
+      creditsRemaining: featureAccess.remaining ? Math.max(featureAccess.remaining - creditCost, 0) : 0,
+      aiUsage: {
+        model,
+        ...sumUsage(usages),
+        costUSD: totalCostUSD(usages)
+      }
+    })
+  } catch (error) {
+    console.error("Error in batch clean:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -1,221 +1,17 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createClient } from "@supabase/supabase-js"
 import { checkRateLimit } from "@/lib/ratelimit"
-import { callOpenAIWithStructuredOutput } from "@/lib/openai"
-import { checkFeatureAccess, trackFeatureUsage } from "@/lib/autumn"
-import { detectCRMFromHeaders, createCRMClient } from "@/lib/crm"
+import { checkFeatureAccess, trackFeatureUsage, notifyIfCreditsLow } from "@/lib/autumn"
+import { detectCRMFromHeaders } from "@/lib/crm"
 import {
   validateCompanyObject,
-  validateRecordId,
-  sanitizeRule,
-  sanitizePropertyRules,
-  validateContentType,
-  sanitizeErrorMessage
+  validateContentType
 } from "@/lib/validation"
-
-// Base JSON schema template for company data cleaning
-const BASE_SCHEMA = {
-  "type": "object",
-  "description": "CRM company data cleaning schema. RULES: (1) Valid data → unchanged. (2) Invalid/poor format + high confidence → correct it. (3) Invalid/test/placeholder + unknown → null. (4) Empty + no info → null. (5) Empty + high confidence → populate. Only provide values with high certainty.",
-  "properties": {
-    "cleanedCompany": {
-      "type": "object",
-      "properties": {
-        "name": {
-          "type": ["string", "null"],
-          "description": "Common/trade name. Proper case, no excess whitespace, standardized abbreviations. Test/fake names → null."
-        },
-        "legalName": {
-          "type": ["string", "null"],
-          "description": "Official registered name with corporate suffix (Inc., LLC, Ltd., AB, GmbH)."
-        },
-        "description": {
-          "type": ["string", "null"],
-          "description": "Brief business description. Proper grammar, professional tone, concise."
-        },
-        "industry": {
-          "type": ["string", "null"],
-          "description": "Primary industry/sector. Standard naming conventions (NAICS, SIC)."
-        },
-        "website": {
-          "type": ["string", "null"],
-          "description": "Primary URL. Format: https://www.company.com. Add protocol if missing."
-        },
-        "domain": {
-          "type": ["string", "null"],
-          "description": "Primary URL but trimmed to just the domain (no wwww. or https://). Format: company.com. Add protocol if missing."
-        },
-        "city": {
-          "type": ["string", "null"],
-          "description": "HQ city. Proper case, full names, no abbreviations."
-        },
-        "state": {
-          "type": ["string", "null"],
-          "description": "State/province/region. US: 2-letter codes (CA, NY). Others: full names."
-        },
-        "country": {
-          "type": ["string", "null"],
-          "description": "Country name (United States) or ISO code (US)."
-        },
-        "postalCode": {
-          "type": ["string", "null"],
-          "description": "Postal/ZIP code. Country-appropriate format. Invalid → null."
-        },
-        "phone": {
-          "type": ["string", "null"],
-          "description": "Primary phone. International format with country code (+1-555-123-4567)."
-        },
-        "street": {
-          "type": ["string", "null"],
-          "description": "Street address. Proper case, standardized abbreviations (St., Ave.)."
-        },
-        "linkedIn": {
-          "type": ["string", "null"],
-          "description": "LinkedIn company page URL. Format: https://www.linkedin.com/company/name"
-        },
-        "facebook": {
-          "type": ["string", "null"],
-          "description": "Facebook page URL. Format: https://www.facebook.com/name"
-        },
-        "instagram": {
-          "type": ["string", "null"],
-          "description": "Instagram account URL. Format: https://www.instagram.com/name"
-        },
-        "twitter": {
-          "type": ["string", "null"],
-          "description": "Twitter/X account URL. Format: https://twitter.com/name or https://x.com/name"
-        }
-      },
-      "required": ["name", "legalName", "description", "industry", "website", "domain", "city", "state", "country", "postalCode", "phone", "street", "linkedIn", "facebook", "instagram", "twitter"],
-      "additionalProperties": false
-    },
-    "reasoning": {
-      "type": "object",
-      "description": "1 sentence per field explaining the key factor for the cleaned value and confidence level.",
-      "properties": {
-        "name": { "type": "string" },
-        "legalName": { "type": "string" },
-        "description": { "type": "string" },
-        "industry": { "type": "string" },
-        "website": { "type": "string" },
-        "domain": { "type": "string" },
-        "city": { "type": "string" },
-        "state": { "type": "string" },
-        "country": { "type": "string" },
-        "postalCode": { "type": "string" },
-        "phone": { "type": "string" },
-        "street": { "type": "string" },
-        "linkedIn": { "type": "string" },
-        "facebook": { "type": "string" },
-        "instagram": { "type": "string" },
-        "twitter": { "type": "string" }
-      },
-      "required": ["name", "legalName", "description", "industry", "website", "domain", "city", "state", "country", "postalCode", "phone", "street", "linkedIn", "facebook", "instagram", "twitter"],
-      "additionalProperties": false
-    },
-    "confidence": {
-      "type": "object",
-      "description": "Confidence per field. HIGH=strong evidence, MEDIUM=reasonable certainty, LOW=limited confidence/assumptions.",
-      "properties": {
-        "name": { "type": "string", "enum": ["LOW", "MEDIUM", "HIGH"] },
-        "legalName": { "type": "string", "enum": ["LOW", "MEDIUM", "HIGH"] },
-        "description": { "type": "string", "enum": ["LOW", "MEDIUM", "HIGH"] },
-        "industry": { "type": "string", "enum": ["LOW", "MEDIUM", "HIGH"] },
-        "website": { "type": "string", "enum": ["LOW", "MEDIUM", "HIGH"] },
-        "domain": { "type": "string", "enum": ["LOW", "MEDIUM", "HIGH"] },
-        "city": { "type": "string", "enum": ["LOW", "MEDIUM", "HIGH"] },
-        "state": { "type": "string", "enum": ["LOW", "MEDIUM", "HIGH"] },
-        "country": { "type": "string", "enum": ["LOW", "MEDIUM", "HIGH"] },
-        "postalCode": { "type": "string", "enum": ["LOW", "MEDIUM", "HIGH"] },
-        "phone": { "type": "string", "enum": ["LOW", "MEDIUM", "HIGH"] },
-        "street": { "type": "string", "enum": ["LOW", "MEDIUM", "HIGH"] },
-        "linkedIn": { "type": "string", "enum": ["LOW", "MEDIUM", "HIGH"] },
-        "facebook": { "type": "string", "enum": ["LOW", "MEDIUM", "HIGH"] },
-        "instagram": { "type": "string", "enum": ["LOW", "MEDIUM", "HIGH"] },
-        "twitter": { "type": "string", "enum": ["LOW", "MEDIUM", "HIGH"] }
-      },
-      "required": ["name", "legalName", "description", "industry", "website", "domain", "city", "state", "country", "postalCode", "phone", "street", "linkedIn", "facebook", "instagram", "twitter"],
-      "additionalProperties": false
-    }
-  },
-  "required": ["cleanedCompany", "reasoning", "confidence"],
-  "additionalProperties": false
-}
-
-interface CompanyInput {
-  company: Record<string, unknown>
-  cleanRules?: string
-  cleanPropertyRules?: Record<string, string>
-  updateRecord?: boolean
-  recordId?: string
-}
-
-function buildDynamicSchema(input: CompanyInput) {
-  // Deep clone the base schema
-  const schema = JSON.parse(JSON.stringify(BASE_SCHEMA))
-
-  // Get the list of properties that were actually provided in the input
-  const providedProperties = Object.keys(input.company)
-
-  // Filter cleanedCompany properties to only include provided ones
-  const filteredCleanedProperties: Record<string, unknown> = {}
-  for (const key of providedProperties) {
-    if (schema.properties.cleanedCompany.properties[key]) {
-      filteredCleanedProperties[key] = schema.properties.cleanedCompany.properties[key]
-    }
-  }
-  schema.properties.cleanedCompany.properties = filteredCleanedProperties
-  schema.properties.cleanedCompany.required = providedProperties.filter(
-    key => schema.properties.cleanedCompany.properties[key]
-  )
-
-  // Filter reasoning properties to only include provided ones
-  const filteredReasoningProperties: Record<string, unknown> = {}
-  const reasoningProps = BASE_SCHEMA.properties.reasoning.properties as Record<string, unknown>
-  for (const key of providedProperties) {
-    if (reasoningProps[key]) {
-      filteredReasoningProperties[key] = reasoningProps[key]
-    }
-  }
-  schema.properties.reasoning.properties = filteredReasoningProperties
-  schema.properties.reasoning.required = providedProperties.filter(
-    key => reasoningProps[key]
-  )
-
-  // Filter confidence properties to only include provided ones
-  const filteredConfidenceProperties: Record<string, unknown> = {}
-  const confidenceProps = BASE_SCHEMA.properties.confidence.properties as Record<string, unknown>
-  for (const key of providedProperties) {
-    if (confidenceProps[key]) {
-      filteredConfidenceProperties[key] = confidenceProps[key]
-    }
-  }
-  schema.properties.confidence.properties = filteredConfidenceProperties
-  schema.properties.confidence.required = providedProperties.filter(
-    key => confidenceProps[key]
-  )
-
-  // Update top-level description with cleanRules if provided
-  if (input.cleanRules) {
-    schema.description = `${schema.description} User rules: ${input.cleanRules}`
-  }
-
-  // Add user-specific property rules if provided
-  if (input.cleanPropertyRules) {
-    for (const [key, userRule] of Object.entries(input.cleanPropertyRules)) {
-      // Only add rules for properties that exist in the cleanedCompany properties
-      if (schema.properties.cleanedCompany?.properties[key]) {
-        const currentDescription = schema.properties.cleanedCompany.properties[key].description
-        schema.properties.cleanedCompany.properties[key].description = `${currentDescription} User rules: ${userRule}`
-      }
-    }
-  }
-
-  // For OpenAI strict mode, all properties must be in the required array
-  schema.required = Object.keys(schema.properties)
-
-  return schema
-}
+import { getAccountSettings } from "@/lib/account-settings"
+import { cleanCompany, parseCleanOptions, plansWrite, validateCleanWriteTarget, CleanOptions } from "@/lib/clean"
+import { OperationError } from "@/lib/operations"
+import { recordAICost, recordFailedAICost } from "@/lib/cost-records"
+import { aiStepUsage, AIUsage } from "@/lib/llm"
 
 export async function POST(req: NextRequest) {
   let userId: string | undefined
@@ -241,9 +37,9 @@ export async function POST(req: NextRequest) {
     }
 
     // Parse request body
-    let body: CompanyInput
+    let body: Record<string, unknown> & { company: Record<string, unknown>; recordId?: string }
     try {
-      body = await req.json() as CompanyInput
+      body = await req.json()
     } catch {
       return NextResponse.json(
         { error: "Invalid JSON in request body" },
@@ -268,50 +64,29 @@ export async function POST(req: NextRequest) {
       )
     }
 
-    // Sanitize user rules
-    body.cleanRules = sanitizeRule(body.cleanRules)
-    body.cleanPropertyRules = sanitizePropertyRules(body.cleanPropertyRules)
+    // Validate and sanitize the shared clean options
+    const parsedOptions = parseCleanOptions(body)
+    if (!parsedOptions.options) {
+      return NextResponse.json(
+        { error: parsedOptions.error },
+        { status: 400 }
+      )
+    }
 
-    // Set defaults for optional fields
-    const updateRecord = body.updateRecord ?? false
+    const options: CleanOptions = parsedOptions.options
     const recordId = body.recordId
+    const planWrite = plansWrite(options)
 
-    // Validate CRM integration requirements BEFORE calling AI
-    if (updateRecord) {
-      const recordIdValidation = validateRecordId(recordId)
-      if (!recordIdValidation.valid || !recordId) {
-        return NextResponse.json(
-          { error: `Invalid recordId: ${recordIdValidation.error}` },
-          { status: 400 }
-        )
-      }
-
-      const crmCredentials = detectCRMFromHeaders(req.headers)
-      if (!crmCredentials) {
-        return NextResponse.json(
-          { error: "CRM API key required when updateRecord is true. Please provide x-hubspot-api-key header." },
-          { status: 400 }
-        )
-      }
-
-      // Verify the record exists in the CRM before calling AI
-      try {
-        const crmClient = createCRMClient(crmCredentials)
-        const exists = await crmClient.companyExists(recordId)
+    // Detect CRM credentials (optional unless updateRecord is true)
+    const crmCredentials = detectCRMFromHeaders(req.headers)
 
-        if (!exists) {
-          return NextResponse.json(
-            { error: `Company record with ID '${recordId}' not found in CRM` },
-            { status: 404 }
-          )
-        }
-      } catch (verifyError) {
-        const errorMsg = sanitizeErrorMessage(verifyError, 'clean-verify-record')
-        return NextResponse.json(
-          { error: errorMsg },
-          { status: 500 }
-        )
-      }
+    // Validate CRM integration requirements BEFORE the API key and rate limit checks
+    const writeTarget = validateCleanWriteTarget(recordId, options, crmCredentials)
+    if (!writeTarget.valid) {
+      return NextResponse.json(
+        { error: writeTarget.error },
+        { status: 400 }
+      )
     }
 
     // Validate API key and get user using service role (bypasses RLS)
@@ -386,87 +161,46 @@ export async function POST(req: NextRequest) {
       )
     }
 
-    // Build the dynamic schema based on input
-    const dynamicSchema = buildDynamicSchema(body)
-
-    // Call OpenAI with structured output
-    let cleanedData
-    let tokenUsage
-    try {
-      const result = await callOpenAIWithStructuredOutput(body.company, dynamicSchema)
-      cleanedData = result.data
-      tokenUsage = result.usage
-    } catch (openaiError) {
-      const errorMsg = sanitizeErrorMessage(openaiError, 'clean-openai')
-      return NextResponse.json(
-        { error: errorMsg },
-        { status: 500 }
-      )
+    // Per-request settings override the account defaults (write policies field by field)
+    const accountSettings = await getAccountSettings(userId)
+    options.modelTier = options.modelTier ?? accountSettings.modelTier
+    if (planWrite) {
+      options.writePolicies = { ...accountSettings.writePolicies, ...options.writePolicies }
     }
 
-    // CRM Integration - Update record if requested
-    let recordUpdated = false
-    if (updateRecord && recordId) {
-      const crmCredentials = detectCRMFromHeaders(req.headers)
-
-      if (crmCredentials) {
-        try {
-          const crmClient = createCRMClient(crmCredentials)
-
-          // First, fetch the existing company record to see what properties exist
-          const existingCompany = await crmClient.getCompany(recordId)
-          const existingProperties = new Set(Object.keys(existingCompany.properties))
-
-          // Extract cleaned properties from OpenAI response and compare with original
-          const properties: Record<string, unknown> = {}
-          if (cleanedData.cleanedCompany && typeof cleanedData.cleanedCompany === 'object') {
-            for (const [key, cleanedValue] of Object.entries(cleanedData.cleanedCompany)) {
-              // Get the original value from the input company object
-              const originalValue = body.company[key]
-
-              // Normalize values for comparison
-              const normalizedOriginal = originalValue === undefined || originalValue === null ? null : String(originalValue).trim()
-              const normalizedCleaned = cleanedValue === null ? null : String(cleanedValue).trim()
-
-              // Convert property name to lowercase for HubSpot (e.g., legalName -> legalname)
-              const hubspotPropertyName = key.toLowerCase()
-
-              // Only include properties that:
-              // 1. Have a non-null cleaned value
-              // 2. Are different from the original value
-              // 3. Exist in the HubSpot company record
-              if (
-                normalizedCleaned !== null &&
-                normalizedOriginal !== normalizedCleaned &&
-                existingProperties.has(hubspotPropertyName)
-              ) {
-                properties[hubspotPropertyName] = cleanedValue
-              }
-            }
-          }
-
-          // Only make the API call if there are properties to update
-          if (Object.keys(properties).length > 0) {
-            await crmClient.updateCompany({
-              recordId: recordId,
-              properties
-            })
-
-            recordUpdated = true
-          }
-        } catch (crmError) {
-          const errorMsg = sanitizeErrorMessage(crmError, 'clean-crm-update')
-          return NextResponse.json(
-            { error: errorMsg },
-            { status: 500 }
-          )
-        }
+    let result
+    try {
+      result = await cleanCompany({
+        company: body.company,
+        recordId,
+        options,
+        userId,
+        crmCredentials
+      })
+    } catch (cleanError) {
+      // Not charged, but any AI calls it made before failing still cost us
+      await recordFailedAICost({
+        userId,
+        operation: "clean",
+        modelTier: options.modelTier,
+        error: cleanError
+      })
+
+      if (cleanError instanceof OperationError) {
+        return NextResponse.json(
+          cleanError.body ?? { error: cleanError.message },
+          { status: cleanError.status }
+        )
       }
+      throw cleanError
     }
 
+    const { cleanedData } = result
+    const usage: AIUsage = { model: result.model, cached: result.cached, ...result.tokenUsage }
+
     // Success! Track usage with Autumn
     try {
-      await trackFeatureUsage(userId, "api_credits", 1)
+      await trackFeatureUsage(userId, "api_credits", result.creditCost)
     } catch (trackError) {
       console.error("Failed to track usage with Autumn:", trackError)
       return NextResponse.json(
@@ -475,36 +209,45 @@ export async function POST(req: NextRequest) {
       )
     }
 
+    await notifyIfCreditsLow(userId, featureAccess.remaining, result.creditCost)
+    await recordAICost({
+      userId,
+      operation: "clean",
+      modelTier: result.modelTier,
+      usages: [usage],
+      creditsCharged: result.creditCost
+    })
+
     // Update API key last used
     await supabase
       .from('api_keys')
       .update({ last_used: new Date().toISOString() })
       .eq('id', keyRecord.id)
 
-    // Calculate OpenAI costs for gpt-5-nano-2025-08-07
-    // Pricing: $0.30 per 1M input tokens, $1.20 per 1M output tokens
-    const inputCost = (tokenUsage.inputTokens / 1_000_000) * 0.30
-    const outputCost = (tokenUsage.outputTokens / 1_000_000) * 1.20
-    const totalCost = inputCost + outputCost
-
     return NextResponse.json({
       company: body.company,
       ...cleanedData,
-      cleanRules: body.cleanRules || null,
-      cleanPropertyRules: body.cleanPropertyRules || null,
+      cleanRules: options.cleanRules || null,
+      cleanPropertyRules: options.cleanPropertyRules || null,
+      customFields: options.customFields || null,
+      propertyMapping: options.propertyMapping || null,
       recordId: recordId || null,
-      creditCost: 1,
-      creditsRemaining: featureAccess.remaining ? featureAccess.remaining - 1 : 0,
-      recordUpdated,
-      aiUsage: {
-        model: "gpt-5-nano-2025-08-07",
-        inputTokens: tokenUsage.inputTokens,
-        outputTokens: tokenUsage.outputTokens,
-        reasoningTokens: tokenUsage.reasoningTokens,
-        totalTokens: tokenUsage.totalTokens,
-        costUSD: parseFloat(totalCost.toFixed(6))
-      },
-      jsonSchema: dynamicSchema
+      mode: options.mode,
+      minConfidence: options.minConfidence || null,
+      writePolicies: planWrite ? options.writePolicies : null,
+      modelTier: result.modelTier,
+      cached: result.cached,
+      creditCost: result.creditCost,
+      creditsRemaining: featureAccess.remaining ? Math.max(featureAccess.remaining - result.creditCost, 0) : 0,
+      recordUpdated: result.recordUpdated,
+      noteAdded: result.noteAdded,
+      noteError: result.noteError,
+      operationId: result.operationId,
+      writePlan: result.writePlan,
+      skippedLowConfidence: result.skippedLowConfidence,
+      skippedByPolicy: result.skippedByPolicy,
+      aiUsage: aiStepUsage(usage),
+      jsonSchema: result.jsonSchema
     })
 
   } catch (error) {
@@ -0,0 +1,289 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createServiceClient } from "@/lib/supabase/service"
+import { checkRateLimit } from "@/lib/ratelimit"
+import { checkFeatureAccess, trackFeatureUsage, notifyIfCreditsLow } from "@/lib/autumn"
+import { detectCRMFromHeaders } from "@/lib/crm"
+import { clusterCompanies, loadPortalCompanies, ClusterInputItem, ClusterResult } from "@/lib/cluster"
+import { OperationError } from "@/lib/operations"
+import { getAccountSettings } from "@/lib/account-settings"
+import { recordAICost, recordFailedAICost } from "@/lib/cost-records"
+import { billableCalls, tierCreditCost } from "@/lib/llm"
+import {
+  validateBatchItems,
+  validateCompanyObject,
+  validateContentType,
+  validateJobSource,
+  validateMaxRecords,
+  validateModelTier,
+  sanitizeErrorMessage,
+  sanitizeRule,
+  JobSource,
+  ModelTier,
+  VALIDATION_LIMITS
+} from "@/lib/validation"
+
+// Paging through a portal and adjudicating pairs can take a few minutes
+export const maxDuration = 300
+
+export async function POST(req: NextRequest) {
+  try {
+    // Validate Content-Type
+    const contentTypeValidation = validateContentType(req.headers.get('content-type'))
+    if (!contentTypeValidation.valid) {
+      return NextResponse.json(
+        { error: contentTypeValidation.error },
+        { status: 400 }
+      )
+    }
+
+    // Get API key from header
+    const apiKey = req.headers.get("x-api-key")
+
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: "API key required" },
+        { status: 401 }
+      )
+    }
+
+    // Parse request body
+    let body: {
+      items?: ClusterInputItem[]
+      source?: JobSource
+      maxRecords?: number
+      duplicateRules?: string
+      aiAdjudication?: boolean
+      model?: ModelTier
+    }
+    try {
+      body = await req.json()
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid JSON in request body" },
+        { status: 400 }
+      )
+    }
+
+    const source: JobSource = body.source ?? "items"
+    const sourceValidation = validateJobSource(source)
+    if (!sourceValidation.valid) {
+      return NextResponse.json(
+        { error: sourceValidation.error },
+        { status: 400 }
+      )
+    }
+
+    if (body.aiAdjudication !== undefined && typeof body.aiAdjudication !== "boolean") {
+      return NextResponse.json(
+        { error: "aiAdjudication must be a boolean" },
+        { status: 400 }
+      )
+    }
+
+    const modelTierValidation = validateModelTier(body.model)
+    if (!modelTierValidation.valid) {
+      return NextResponse.json(
+        { error: modelTierValidation.error },
+        { status: 400 }
+      )
+    }
+
+    const crmCredentials = detectCRMFromHeaders(req.headers)
+    const maxRecords = body.maxRecords ?? VALIDATION_LIMITS.MAX_CLUSTER_RECORDS
+
+    if (source === "scan") {
+      // The portal itself is the dataset
+      if (body.items !== undefined) {
+        return NextResponse.json(
+          { error: "items must not be provided when source is 'scan'" },
+          { status: 400 }
+        )
+      }
+
+      const maxRecordsValidation = validateMaxRecords(maxRecords, VALIDATION_LIMITS.MAX_CLUSTER_RECORDS)
+      if (!maxRecordsValidation.valid) {
+        return NextResponse.json(
+          { error: maxRecordsValidation.error },
+          { status: 400 }
+        )
+      }
+
+      if (!crmCredentials) {
+        return NextResponse.json(
+          { error: "CRM API key required to scan the portal. Please provide an x-{provider}-api-key header (e.g. x-hubspot-api-key)." },
+          { status: 400 }
+        )
+      }
+    } else {
+      const itemsValidation = validateBatchItems(body.items, VALIDATION_LIMITS.MAX_CLUSTER_RECORDS)
+      if (!itemsValidation.valid) {
+        return NextResponse.json(
+          { error: itemsValidation.error },
+          { status: 400 }
+        )
+      }
+
+      for (const [index, item] of body.items!.entries()) {
+        if (!item || typeof item !== "object" || !item.company || typeof item.company !== "object") {
+          return NextResponse.json(
+            { error: `Item ${index} must include a 'company' object` },
+            { status: 400 }
+          )
+        }
+
+        const companyValidation = validateCompanyObject(item.company)
+        if (!companyValidation.valid) {
+          return NextResponse.json(
+            { error: `Item ${index}: ${companyValidation.error}` },
+            { status: 400 }
+          )
+        }
+      }
+    }
+
+    // Validate API key and get user ID using service role client (bypasses RLS)
+    const supabase = createServiceClient()
+
+    const { data: apiKeyData, error: apiKeyError } = await supabase
+      .from("api_keys")
+      .select("id, user_id")
+      .eq("key", apiKey)
+      .single()
+
+    if (apiKeyError || !apiKeyData) {
+      return NextResponse.json(
+        { error: "Invalid API key" },
+        { status: 401 }
+      )
+    }
+
+    const userId: string = apiKeyData.user_id
+
+    // Check rate limits BEFORE doing anything else
+    const rateLimitResult = await checkRateLimit(userId, "cluster-endpoint")
+
+    if (!rateLimitResult.allowed) {
+      const resetDate = new Date(rateLimitResult.reset!)
+      return NextResponse.json(
+        {
+          error: `Rate limit exceeded (${rateLimitResult.limitType})`,
+          limit: rateLimitResult.limit,
+          remaining: rateLimitResult.remaining,
+          reset: resetDate.toISOString()
+        },
+        {
+          status: 429,
+          headers: {
+            'X-RateLimit-Limit': rateLimitResult.limit!.toString(),
+            'X-RateLimit-Remaining': rateLimitResult.remaining!.toString(),
+            'X-RateLimit-Reset': resetDate.toISOString()
+          }
+        }
+      )
+    }
+
+    // Check feature access with Autumn
+    const featureAccess = await checkFeatureAccess(userId, "api_credits")
+
+    if (!featureAccess.allowed) {
+      return NextResponse.json(
+        {
+          error: "Insufficient credits. Please purchase more credits to continue using the API.",
+          remaining: featureAccess.remaining || 0,
+          limit: featureAccess.limit
+        },
+        { status: 402 }
+      )
+    }
+
+    // Requests without a model tier use the account default
+    const modelTier = body.model ?? (await getAccountSettings(userId)).modelTier
+
+    let items: ClusterInputItem[]
+    if (source === "scan") {
+      try {
+        items = await loadPortalCompanies(crmCredentials!, maxRecords)
+      } catch (scanError) {
+        const errorMsg = sanitizeErrorMessage(scanError, 'cluster-scan')
+        return NextResponse.json(
+          { error: `Failed to read companies from CRM: ${errorMsg}` },
+          { status: 502 }
+        )
+      }
+    } else {
+      items = body.items!
+    }
+
+    let clustered: ClusterResult
+    try {
+      clustered = await clusterCompanies(items, {
+        duplicateRules: sanitizeRule(body.duplicateRules),
+        aiAdjudication: body.aiAdjudication ?? true,
+        modelTier
+      })
+    } catch (clusterError) {
+      // Not charged, but any AI calls it made before failing still cost us
+      await recordFailedAICost({
+        userId,
+        operation: "cluster",
+        modelTier,
+        error: clusterError
+      })
+
+      if (clusterError instanceof OperationError) {
+        return NextResponse.json(
+          clusterError.body ?? { error: clusterError.message },
+          { status: clusterError.status }
+        )
+      }
+      throw clusterError
+    }
+
+    // One credit for the run plus one per AI adjudication call, scaled by the model tier (cached calls are free)
+    const creditCost = 1 + tierCreditCost(modelTier, billableCalls(clustered.usages))
+
+    try {
+      await trackFeatureUsage(userId, "api_credits", creditCost)
+    } catch (trackError) {
+      console.error("Failed to track usage with Autumn:", trackError)
+      return NextResponse.json(
+        { error: "Failed to track credit usage" },
+        { status: 500 }
+      )
+    }
+
+    await notifyIfCreditsLow(userId, featureAccess.remaining, creditCost)
+    await recordAICost({
+      userId,
+      operation: "cluster",
+      modelTier,
+      usages: clustered.usages,
+      creditsCharged: creditCost
+    })
+
+    // Update last_used timestamp for API key
+    await supabase
+      .from("api_keys")
+      .update({ last_used: new Date().toISOString() })
+      .eq("id", apiKeyData.id)
+
+    return NextResponse.json({
+      source,
+      clusters: clustered.clusters,
+      stats: clustered.stats,
+      duplicateRules: body.duplicateRules || null,
+      aiAdjudication: body.aiAdjudication ?? true,
+      modelTier,
+      cached: clustered.usages.length > 0 && billableCalls(clustered.usages) === 0,
+      creditCost,
+      creditsRemaining: featureAccess.remaining ? Math.max(featureAccess.remaining - creditCost, 0) : 0,
+      aiUsage: clustered.aiUsage
+    })
+  } catch (error) {
+    console.error("Error in cluster:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,190 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createServiceClient } from "@/lib/supabase/service"
+import { checkFeatureAccess, trackFeatureUsage, notifyIfCreditsLow } from "@/lib/autumn"
+import { detectCRMFromHeaders } from "@/lib/crm"
+import { checkRateLimit } from "@/lib/ratelimit"
+import { OperationError } from "@/lib/operations"
+import { getAccountSettings } from "@/lib/account-settings"
+import { mergeCluster, parseMergeOptions, MergeOptions } from "@/lib/merge"
+import { recordAICost, recordFailedAICost } from "@/lib/cost-records"
+import { validateContentType } from "@/lib/validation"
+
+// Merging a large cluster is one CRM call per member, run sequentially
+export const maxDuration = 300
+
+export async function POST(req: NextRequest) {
+  try {
+    // Validate Content-Type
+    const contentTypeValidation = validateContentType(req.headers.get('content-type'))
+    if (!contentTypeValidation.valid) {
+      return NextResponse.json(
+        { error: contentTypeValidation.error },
+        { status: 400 }
+      )
+    }
+
+    // Get API key from header
+    const apiKey = req.headers.get("x-api-key")
+
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: "API key required" },
+        { status: 401 }
+      )
+    }
+
+    // Validate API key and get user ID
+    const supabase = createServiceClient()
+
+    const { data: apiKeyData, error: apiKeyError } = await supabase
+      .from("api_keys")
+      .select("id, user_id")
+      .eq("key", apiKey)
+      .single()
+
+    if (apiKeyError || !apiKeyData) {
+      return NextResponse.json(
+        { error: "Invalid API key" },
+        { status: 401 }
+      )
+    }
+
+    const userId = apiKeyData.user_id
+
+    // Check rate limits BEFORE doing anything else
+    const rateLimitResult = await checkRateLimit(userId, "merge-endpoint")
+
+    if (!rateLimitResult.allowed) {
+      const resetDate = new Date(rateLimitResult.reset!)
+      return NextResponse.json(
+        {
+          error: `Rate limit exceeded (${rateLimitResult.limitType})`,
+          limit: rateLimitResult.limit,
+          remaining: rateLimitResult.remaining,
+          reset: resetDate.toISOString()
+        },
+        {
+          status: 429,
+          headers: {
+            'X-RateLimit-Limit': rateLimitResult.limit!.toString(),
+            'X-RateLimit-Remaining': rateLimitResult.remaining!.toString(),
+            'X-RateLimit-Reset': resetDate.toISOString()
+          }
+        }
+      )
+    }
+
+    // Check feature access and credit balance
+    const access = await checkFeatureAccess(userId, "api_credits")
+
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: "Insufficient credits" },
+        { status: 403 }
+      )
+    }
+
+    // Parse request body
+    let body
+    try {
+      body = await req.json()
+    } catch (parseError) {
+      console.error("Failed to parse request body:", parseError)
+      return NextResponse.json(
+        { error: "Invalid JSON in request body" },
+        { status: 400 }
+      )
+    }
+
+    const { recordIds, primaryRecordId } = body
+
+    // Validate operation mode and sanitize user rules
+    const parsedOptions = parseMergeOptions(body)
+    if (!parsedOptions.options) {
+      return NextResponse.json(
+        { error: parsedOptions.error },
+        { status: 400 }
+      )
+    }
+
+    const options: MergeOptions = parsedOptions.options
+
+    // Requests without a model tier use the account default
+    options.modelTier = options.modelTier ?? (await getAccountSettings(userId)).modelTier
+
+    let result
+    try {
+      result = await mergeCluster({
+        recordIds,
+        primaryRecordId,
+        options,
+        userId,
+        crmCredentials: detectCRMFromHeaders(req.headers)
+      })
+    } catch (mergeError) {
+      // Not charged, but any AI calls it made before failing still cost us
+      await recordFailedAICost({
+        userId,
+        operation: "merge-cluster",
+        modelTier: options.modelTier,
+        error: mergeError
+      })
+
+      if (mergeError instanceof OperationError) {
+        return NextResponse.json(
+          mergeError.body ?? { error: mergeError.message },
+          { status: mergeError.status }
+        )
+      }
+      throw mergeError
+    }
+
+    // Track usage (1 credit per AI step that ran, scaled by the model tier) and update API key
+    await trackFeatureUsage(userId, "api_credits", result.creditCost)
+    await notifyIfCreditsLow(userId, access.remaining, result.creditCost)
+    await recordAICost({
+      userId,
+      operation: "merge-cluster",
+      modelTier: result.modelTier,
+      usages: result.usages,
+      creditsCharged: result.creditCost
+    })
+
+    await supabase
+      .from("api_keys")
+      .update({ last_used: new Date().toISOString() })
+      .eq("id", apiKeyData.id)
+
+    const updatedAccess = await checkFeatureAccess(userId, "api_credits")
+
+    return NextResponse.json({
+      recordIds,
+      primaryRecordId: result.primaryRecordId,
+      primarySelection: result.primarySelection,
+      survivorship: result.survivorship,
+      primaryRules: options.primaryRules || null,
+      mergeRules: options.mergeRules || null,
+      mergePropertyRules: options.mergePropertyRules || null,
+      mergeRecord: options.mergeRecord,
+      mode: options.mode,
+      modelTier: result.modelTier,
+      recordUpdated: result.recordUpdated,
+      members: result.members,
+      summary: result.summary,
+      operationId: result.operationId,
+      writePlan: result.writePlan,
+      cached: result.cached,
+      creditCost: result.creditCost,
+      creditsRemaining: updatedAccess.remaining || 0,
+      aiUsage: result.aiUsage,
+      jsonSchemas: result.jsonSchemas
+    })
+
+  } catch (error) {
+    console.error("Error in cluster merge:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
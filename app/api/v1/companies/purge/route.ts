@@ -1,70 +1,18 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createServiceClient } from "@/lib/supabase/service"
-import { checkFeatureAccess, trackFeatureUsage } from "@/lib/autumn"
-import { getOpenAIClient } from "@/lib/openai"
-import { detectCRMFromHeaders, createCRMClient } from "@/lib/crm"
+import { checkFeatureAccess, trackFeatureUsage, notifyIfCreditsLow } from "@/lib/autumn"
+import { detectCRMFromHeaders } from "@/lib/crm"
 import { checkRateLimit } from "@/lib/ratelimit"
+import { OperationError } from "@/lib/operations"
+import { getAccountSettings } from "@/lib/account-settings"
+import { purgeCompany, parsePurgeOptions, PurgeOptions } from "@/lib/purge"
+import { recordAICost, recordFailedAICost } from "@/lib/cost-records"
+import { aiStepUsage, AIUsage } from "@/lib/llm"
 import {
   validateCompanyObject,
-  validateRecordId,
-  sanitizeRule,
-  sanitizePropertyRules,
-  validateContentType,
-  sanitizeErrorMessage
+  validateContentType
 } from "@/lib/validation"
 
-// Base JSON schema for purge analysis
-const BASE_PURGE_SCHEMA = {
-  "type": "object",
-  "description": "Evaluate company for CRM purge. BE CONSERVATIVE: only REMOVE obvious test/fake data. KEEP legitimate records even if incomplete.",
-  "properties": {
-    "recommendedAction": {
-      "type": "string",
-      "enum": ["REMOVE", "KEEP"],
-      "description": "REMOVE if: (1) test names (test/demo/example/sample/dummy/asdf) OR test domains (test.com/example.com/localhost), (2) fake (empty name, numbers-only name, 'Fake Company'), (3) no name AND no domain, (4) custom rule match (if provided). KEEP otherwise. When uncertain, KEEP."
-    },
-    "reasoning": {
-      "type": "string",
-      "description": "1 sentence: key factor + confidence justification."
-    },
-    "confidence": {
-      "type": "string",
-      "enum": ["LOW", "MEDIUM", "HIGH"],
-      "description": "HIGH=clear match, MEDIUM=some ambiguity, LOW=uncertain."
-    }
-  },
-  "required": ["recommendedAction", "reasoning", "confidence"],
-  "additionalProperties": false
-}
-
-interface PurgeInput {
-  purgeRules?: string
-  purgePropertyRules?: Record<string, string>
-}
-
-function buildPurgeSchema(input: PurgeInput) {
-  const schema = JSON.parse(JSON.stringify(BASE_PURGE_SCHEMA))
-
-  // Add purgeRules to root description
-  if (input.purgeRules && typeof input.purgeRules === "string" && input.purgeRules.trim()) {
-    schema.description = `${schema.description} User rules: ${input.purgeRules}`
-  }
-
-  // Add purgePropertyRules to recommendedAction description
-  if (input.purgePropertyRules && typeof input.purgePropertyRules === "object") {
-    const propertyRules = Object.entries(input.purgePropertyRules)
-      .filter(([, rule]) => typeof rule === "string" && rule.trim())
-      .map(([property, rule]) => `${property}: ${rule}`)
-      .join(", ")
-
-    if (propertyRules) {
-      schema.properties.recommendedAction.description = `${schema.properties.recommendedAction.description} User property rules: ${propertyRules}`
-    }
-  }
-
-  return schema
-}
-
 export async function POST(req: NextRequest) {
   try {
     // Validate Content-Type
@@ -149,14 +97,7 @@ export async function POST(req: NextRequest) {
       )
     }
 
-    const {
-      company,
-      deleteRecord = false,
-      recordId
-    } = body
-
-    let purgeRules = body.purgeRules
-    let purgePropertyRules = body.purgePropertyRules
+    const { company, recordId } = body
 
     if (!company || typeof company !== "object") {
       return NextResponse.json(
@@ -174,120 +115,60 @@ export async function POST(req: NextRequest) {
       )
     }
 
-    // Sanitize user rules
-    purgeRules = sanitizeRule(purgeRules)
-    purgePropertyRules = sanitizePropertyRules(purgePropertyRules)
-
-    // Validate CRM integration requirements BEFORE calling AI
-    if (deleteRecord) {
-      const recordIdValidation = validateRecordId(recordId)
-      if (!recordIdValidation.valid) {
-        return NextResponse.json(
-          { error: `Invalid recordId: ${recordIdValidation.error}` },
-          { status: 400 }
-        )
-      }
-
-      const crmCredentials = detectCRMFromHeaders(req.headers)
-      if (!crmCredentials) {
-        return NextResponse.json(
-          { error: "CRM API key required when deleteRecord is true. Please provide x-hubspot-api-key header." },
-          { status: 400 }
-        )
-      }
-
-      // Verify the record exists in the CRM before calling AI
-      try {
-        const crmClient = createCRMClient(crmCredentials)
-        const exists = await crmClient.companyExists(recordId)
-
-        if (!exists) {
-          return NextResponse.json(
-            { error: `Company record with ID '${recordId}' not found in CRM` },
-            { status: 404 }
-          )
-        }
-      } catch (verifyError) {
-        const errorMsg = sanitizeErrorMessage(verifyError, 'purge-verify-record')
-        return NextResponse.json(
-          { error: errorMsg },
-          { status: 500 }
-        )
-      }
-    }
-
-    // Build dynamic schema with user rules
-    const dynamicSchema = buildPurgeSchema({ purgeRules, purgePropertyRules })
-
-    // Call OpenAI with structured output
-    const openai = getOpenAIClient()
-    const completion = await openai.chat.completions.create({
-      model: "gpt-5-nano-2025-08-07",
-      reasoning_effort: "low",
-      messages: [
-        {
-          role: "user",
-          content: JSON.stringify(company, null, 2),
-        },
-      ],
-      response_format: {
-        type: "json_schema",
-        json_schema: {
-          name: "purge_analysis",
-          schema: dynamicSchema,
-          strict: true
-        }
-      },
-      max_completion_tokens: 16000
-    })
-
-    const responseContent = completion.choices[0]?.message?.content
-    if (!responseContent) {
+    // Validate operation mode and sanitize user rules
+    const parsedOptions = parsePurgeOptions(body)
+    if (!parsedOptions.options) {
       return NextResponse.json(
-        { error: "Failed to generate purge analysis" },
-        { status: 500 }
+        { error: parsedOptions.error },
+        { status: 400 }
       )
     }
 
-    const analysis = JSON.parse(responseContent) as {
-      recommendedAction: "REMOVE" | "KEEP"
-    }
-
-    // Extract token usage information
-    const tokenUsage = {
-      inputTokens: completion.usage?.prompt_tokens || 0,
-      outputTokens: completion.usage?.completion_tokens || 0,
-      reasoningTokens: completion.usage?.completion_tokens_details?.reasoning_tokens || 0,
-      totalTokens: completion.usage?.total_tokens || 0
-    }
+    const options: PurgeOptions = parsedOptions.options
 
-    // CRM Integration - Delete record if requested and recommended
-    let recordDeleted = false
-    if (deleteRecord && recordId && analysis.recommendedAction === "REMOVE") {
-      const crmCredentials = detectCRMFromHeaders(req.headers)
+    // Requests without a model tier use the account default
+    options.modelTier = options.modelTier ?? (await getAccountSettings(userId)).modelTier
 
-      if (crmCredentials) {
-        try {
-          const crmClient = createCRMClient(crmCredentials)
-
-          // Delete CRM record
-          await crmClient.deleteCompany({
-            recordId: recordId
-          })
-
-          recordDeleted = true
-        } catch (crmError) {
-          const errorMsg = sanitizeErrorMessage(crmError, 'purge-crm-delete')
-          return NextResponse.json(
-            { error: errorMsg },
-            { status: 500 }
-          )
-        }
+    let result
+    try {
+      result = await purgeCompany({
+        company,
+        recordId,
+        options,
+        userId,
+        crmCredentials: detectCRMFromHeaders(req.headers)
+      })
+    } catch (purgeError) {
+      // Not charged, but any AI calls it made before failing still cost us
+      await recordFailedAICost({
+        userId,
+        operation: "purge",
+        modelTier: options.modelTier,
+        error: purgeError
+      })
+
+      if (purgeError instanceof OperationError) {
+        return NextResponse.json(
+          purgeError.body ?? { error: purgeError.message },
+          { status: purgeError.status }
+        )
       }
+      throw purgeError
     }
 
-    // Track usage (deduct 1 credit)
-    await trackFeatureUsage(userId, "api_credits", 1)
+    const { analysis } = result
+    const usage: AIUsage = { model: result.model, cached: result.cached, ...result.tokenUsage }
+
+    // Track usage (1 credit, scaled by the model tier)
+    await trackFeatureUsage(userId, "api_credits", result.creditCost)
+    await notifyIfCreditsLow(userId, access.remaining, result.creditCost)
+    await recordAICost({
+      userId,
+      operation: "purge",
+      modelTier: result.modelTier,
+      usages: [usage],
+      creditsCharged: result.creditCost
+    })
 
     // Update last_used timestamp for API key
     await supabase
@@ -298,30 +179,22 @@ export async function POST(req: NextRequest) {
     // Get updated credit balance
     const updatedAccess = await checkFeatureAccess(userId, "api_credits")
 
-    // Calculate OpenAI costs for gpt-5-nano-2025-08-07
-    // Pricing: $0.30 per 1M input tokens, $1.20 per 1M output tokens
-    const inputCost = (tokenUsage.inputTokens / 1_000_000) * 0.30
-    const outputCost = (tokenUsage.outputTokens / 1_000_000) * 1.20
-    const totalCost = inputCost + outputCost
-
     return NextResponse.json({
       company,
       ...analysis,
-      purgeRules: purgeRules || null,
-      purgePropertyRules: purgePropertyRules || null,
+      purgeRules: options.purgeRules || null,
+      purgePropertyRules: options.purgePropertyRules || null,
       recordId: recordId || null,
-      creditCost: 1,
+      mode: options.mode,
+      modelTier: result.modelTier,
+      cached: result.cached,
+      creditCost: result.creditCost,
       creditsRemaining: updatedAccess.remaining || 0,
-      recordDeleted,
-      aiUsage: {
-        model: "gpt-5-nano-2025-08-07",
-        inputTokens: tokenUsage.inputTokens,
-        outputTokens: tokenUsage.outputTokens,
-        reasoningTokens: tokenUsage.reasoningTokens,
-        totalTokens: tokenUsage.totalTokens,
-        costUSD: parseFloat(totalCost.toFixed(6))
-      },
-      jsonSchema: dynamicSchema
+      recordDeleted: result.recordDeleted,
+      operationId: result.operationId,
+      deletePlan: result.deletePlan,
+      aiUsage: aiStepUsage(usage),
+      jsonSchema: result.jsonSchema
     })
   } catch (error) {
     console.error("Error in purge analysis:", error)
@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createServiceClient } from "@/lib/supabase/service"
+import { checkRateLimit } from "@/lib/ratelimit"
+import { getJob, listJobItems, JobItemStatus, JOB_ITEM_STATUSES } from "@/lib/jobs"
+import { isValidUUID, sanitizeErrorMessage } from "@/lib/validation"
+
+const DEFAULT_PAGE_SIZE = 50
+const MAX_PAGE_SIZE = 200
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Get API key from header
+    const apiKey = req.headers.get("x-api-key")
+
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: "API key required" },
+        { status: 401 }
+      )
+    }
+
+    // Validate API key and get user ID using service role client (bypasses RLS)
+    const supabase = createServiceClient()
+
+    const { data: apiKeyData, error: apiKeyError } = await supabase
+      .from("api_keys")
+      .select("id, user_id")
+      .eq("key", apiKey)
+      .single()
+
+    if (apiKeyError || !apiKeyData) {
+      return NextResponse.json(
+        { error: "Invalid API key" },
+        { status: 401 }
+      )
+    }
+
+    const userId = apiKeyData.user_id
+
+    // Check rate limits BEFORE doing anything else
+    const rateLimitResult = await checkRateLimit(userId, "jobs-endpoint")
+
+    if (!rateLimitResult.allowed) {
+      const resetDate = new Date(rateLimitResult.reset!)
+      return NextResponse.json(
+        {
+          error: `Rate limit exceeded (${rateLimitResult.limitType})`,
+          limit: rateLimitResult.limit,
+          remaining: rateLimitResult.remaining,
+          reset: resetDate.toISOString()
+        },
+        {
+          status: 429,
+          headers: {
+            'X-RateLimit-Limit': rateLimitResult.limit!.toString(),
+            'X-RateLimit-Remaining': rateLimitResult.remaining!.toString(),
+            'X-RateLimit-Reset': resetDate.toISOString()
+          }
+        }
+      )
+    }
+
+    const { id: jobId } = await params
+
+    if (!isValidUUID(jobId)) {
+      return NextResponse.json(
+        { error: "Invalid job ID format" },
+        { status: 400 }
+      )
+    }
+
+    // Pagination: ?limit=50&after=<nextCursor from the previous page>&status=failed
+    const searchParams = req.nextUrl.searchParams
+
+    const limitParam = searchParams.get("limit")
+    const limit = limitParam === null ? DEFAULT_PAGE_SIZE : Number(limitParam)
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return NextResponse.json(
+        { error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}` },
+        { status: 400 }
+      )
+    }
+
+    const afterParam = searchParams.get("after")
+    const after = afterParam === null ? undefined : Number(afterParam)
+    if (after !== undefined && (!Number.isInteger(after) || after < 0)) {
+      return NextResponse.json(
+        { error: "after must be a non-negative integer cursor" },
+        { status: 400 }
+      )
+    }
+
+    const statusParam = searchParams.get("status")
+    if (statusParam !== null && !(JOB_ITEM_STATUSES as string[]).includes(statusParam)) {
+      return NextResponse.json(
+        { error: `Invalid status. Must be one of: ${JOB_ITEM_STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    try {
+      const job = await getJob(jobId, userId)
+      if (!job) {
+        return NextResponse.json(
+          { error: `Job '${jobId}' not found` },
+          { status: 404 }
+        )
+      }
+
+      const items = await listJobItems(jobId, {
+        after,
+        limit,
+        status: (statusParam as JobItemStatus | null) ?? undefined
+      })
+
+      return NextResponse.json({
+        jobId,
+        status: job.status,
+        results: items.map(item => ({
+          index: item.index,
+          recordId: item.recordId,
+          status: item.status,
+          result: item.result,
+          error: item.error,
+          statusCode: item.statusCode,
+          creditsUsed: item.creditsUsed,
+          attempts: item.attempts,
+          updatedAt: item.updatedAt
+        })),
+        // A full page may have more behind it
+        nextCursor: items.length === limit ? items[items.length - 1].index : null
+      })
+    } catch (loadError) {
+      const errorMsg = sanitizeErrorMessage(loadError, 'jobs-results')
+      return NextResponse.json(
+        { error: errorMsg },
+        { status: 500 }
+      )
+    }
+  } catch (error) {
+    console.error("Error in job results:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
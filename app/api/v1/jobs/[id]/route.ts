@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createServiceClient } from "@/lib/supabase/service"
+import { checkRateLimit } from "@/lib/ratelimit"
+import { getJob, getJobProgress, jobResponseBody } from "@/lib/jobs"
+import { isValidUUID, sanitizeErrorMessage } from "@/lib/validation"
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Get API key from header
+    const apiKey = req.headers.get("x-api-key")
+
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: "API key required" },
+        { status: 401 }
+      )
+    }
+
+    // Validate API key and get user ID using service role client (bypasses RLS)
+    const supabase = createServiceClient()
+
+    const { data: apiKeyData, error: apiKeyError } = await supabase
+      .from("api_keys")
+      .select("id, user_id")
+      .eq("key", apiKey)
+      .single()
+
+    if (apiKeyError || !apiKeyData) {
+      return NextResponse.json(
+        { error: "Invalid API key" },
+        { status: 401 }
+      )
+    }
+
+    const userId = apiKeyData.user_id
+
+    // Check rate limits BEFORE doing anything else
+    const rateLimitResult = await checkRateLimit(userId, "jobs-endpoint")
+
+    if (!rateLimitResult.allowed) {
+      const resetDate = new Date(rateLimitResult.reset!)
+      return NextResponse.json(
+        {
+          error: `Rate limit exceeded (${rateLimitResult.limitType})`,
+          limit: rateLimitResult.limit,
+          remaining: rateLimitResult.remaining,
+          reset: resetDate.toISOString()
+        },
+        {
+          status: 429,
+          headers: {
+            'X-RateLimit-Limit': rateLimitResult.limit!.toString(),
+            'X-RateLimit-Remaining': rateLimitResult.remaining!.toString(),
+            'X-RateLimit-Reset': resetDate.toISOString()
+          }
+        }
+      )
+    }
+
+    const { id: jobId } = await params
+
+    if (!isValidUUID(jobId)) {
+      return NextResponse.json(
+        { error: "Invalid job ID format" },
+        { status: 400 }
+      )
+    }
+
+    try {
+      const job = await getJob(jobId, userId)
+      if (!job) {
+        return NextResponse.json(
+          { error: `Job '${jobId}' not found` },
+          { status: 404 }
+        )
+      }
+
+      const progress = await getJobProgress(jobId)
+      return NextResponse.json(jobResponseBody(job, progress))
+    } catch (loadError) {
+      const errorMsg = sanitizeErrorMessage(loadError, 'jobs-get')
+      return NextResponse.json(
+        { error: errorMsg },
+        { status: 500 }
+      )
+    }
+  } catch (error) {
+    console.error("Error in job status:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
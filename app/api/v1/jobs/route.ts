@@ -0,0 +1,275 @@
+import { NextRequest, NextResponse, after } from "next/server"
+import { createServiceClient } from "@/lib/supabase/service"
+import { checkRateLimit } from "@/lib/ratelimit"
+import { checkFeatureAccess } from "@/lib/autumn"
+import { detectCRMFromHeaders } from "@/lib/crm"
+import { getAccountSettings } from "@/lib/account-settings"
+import { plansWrite, CleanOptions } from "@/lib/clean"
+import { createJob, parseJobOptions, processJob, Job } from "@/lib/jobs"
+import {
+  validateBatchItems,
+  validateCompanyObject,
+  validateContentType,
+  validateJobType,
+  validateJobSource,
+  validateMaxRecords,
+  sanitizeErrorMessage,
+  JobSource,
+  JobType,
+  VALIDATION_LIMITS
+} from "@/lib/validation"
+
+// The worker keeps draining the job after the response has been sent
+export const maxDuration = 300
+
+// Leave the worker headroom to record its last items before the function is stopped
+const WORKER_TIME_BUDGET_MS = 240 * 1000
+
+export async function POST(req: NextRequest) {
+  try {
+    // Validate Content-Type
+    const contentTypeValidation = validateContentType(req.headers.get('content-type'))
+    if (!contentTypeValidation.valid) {
+      return NextResponse.json(
+        { error: contentTypeValidation.error },
+        { status: 400 }
+      )
+    }
+
+    // Get API key from header
+    const apiKey = req.headers.get("x-api-key")
+
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: "API key required" },
+        { status: 401 }
+      )
+    }
+
+    // Parse request body
+    let body: Record<string, unknown> & {
+      type: JobType
+      source?: JobSource
+      items: Array<{ recordId?: string; company: Record<string, unknown> }>
+      maxRecords?: number
+      modifiedSince?: string
+    }
+    try {
+      body = await req.json()
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid JSON in request body" },
+        { status: 400 }
+      )
+    }
+
+    const typeValidation = validateJobType(body.type)
+    if (!typeValidation.valid) {
+      return NextResponse.json(
+        { error: typeValidation.error },
+        { status: 400 }
+      )
+    }
+
+    const source: JobSource = body.source ?? "items"
+    const sourceValidation = validateJobSource(source)
+    if (!sourceValidation.valid) {
+      return NextResponse.json(
+        { error: sourceValidation.error },
+        { status: 400 }
+      )
+    }
+
+    // Scans page through the CRM themselves instead of taking items
+    if (source === "scan") {
+      if (body.items !== undefined) {
+        return NextResponse.json(
+          { error: "Scan jobs read companies from the CRM and don't take items" },
+          { status: 400 }
+        )
+      }
+
+      if (body.modifiedSince !== undefined && (typeof body.modifiedSince !== "string" || Number.isNaN(Date.parse(body.modifiedSince)))) {
+        return NextResponse.json(
+          { error: "modifiedSince must be an ISO timestamp" },
+          { status: 400 }
+        )
+      }
+
+      if (body.maxRecords !== undefined) {
+        const maxRecordsValidation = validateMaxRecords(body.maxRecords)
+        if (!maxRecordsValidation.valid) {
+          return NextResponse.json(
+            { error: maxRecordsValidation.error },
+            { status: 400 }
+          )
+        }
+      }
+    } else {
+      const itemsValidation = validateBatchItems(body.items, VALIDATION_LIMITS.MAX_JOB_ITEMS)
+      if (!itemsValidation.valid) {
+        return NextResponse.json(
+          { error: itemsValidation.error },
+          { status: 400 }
+        )
+      }
+    }
+
+    // Reject the whole job up front rather than failing items hours later
+    for (const [index, item] of (body.items || []).entries()) {
+      if (!item.company || typeof item.company !== "object") {
+        return NextResponse.json(
+          { error: `Item ${index} must include a 'company' object` },
+          { status: 400 }
+        )
+      }
+
+      const companyValidation = validateCompanyObject(item.company)
+      if (!companyValidation.valid) {
+        return NextResponse.json(
+          { error: `Item ${index}: ${companyValidation.error}` },
+          { status: 400 }
+        )
+      }
+    }
+
+    // Shared options for the job type (cleanRules, purgeRules, mergeRecord, mode, ...)
+    const parsedOptions = parseJobOptions(body.type, body)
+    if (!parsedOptions.options) {
+      return NextResponse.json(
+        { error: parsedOptions.error },
+        { status: 400 }
+      )
+    }
+
+    const options = parsedOptions.options
+
+    // Detect CRM credentials (stored with the job until it finishes)
+    const crmCredentials = detectCRMFromHeaders(req.headers)
+
+    if (source === "scan" && !crmCredentials) {
+      return NextResponse.json(
+        { error: "CRM API key required for scan jobs. Please provide an x-{provider}-api-key header (e.g. x-hubspot-api-key)." },
+        { status: 400 }
+      )
+    }
+
+    // Validate API key and get user ID using service role client (bypasses RLS)
+    const supabase = createServiceClient()
+
+    const { data: apiKeyData, error: apiKeyError } = await supabase
+      .from("api_keys")
+      .select("id, user_id")
+      .eq("key", apiKey)
+      .single()
+
+    if (apiKeyError || !apiKeyData) {
+      return NextResponse.json(
+        { error: "Invalid API key" },
+        { status: 401 }
+      )
+    }
+
+    const userId: string = apiKeyData.user_id
+
+    // Check rate limits BEFORE doing anything else
+    const rateLimitResult = await checkRateLimit(userId, "jobs-endpoint")
+
+    if (!rateLimitResult.allowed) {
+      const resetDate = new Date(rateLimitResult.reset!)
+      return NextResponse.json(
+        {
+          error: `Rate limit exceeded (${rateLimitResult.limitType})`,
+          limit: rateLimitResult.limit,
+          remaining: rateLimitResult.remaining,
+          reset: resetDate.toISOString()
+        },
+        {
+          status: 429,
+          headers: {
+            'X-RateLimit-Limit': rateLimitResult.limit!.toString(),
+            'X-RateLimit-Remaining': rateLimitResult.remaining!.toString(),
+            'X-RateLimit-Reset': resetDate.toISOString()
+          }
+        }
+      )
+    }
+
+    // Check feature access with Autumn (the worker re-checks before every item)
+    const featureAccess = await checkFeatureAccess(userId, "api_credits")
+
+    if (!featureAccess.allowed) {
+      return NextResponse.json(
+        {
+          error: "Insufficient credits. Please purchase more credits to continue using the API.",
+          remaining: featureAccess.remaining || 0,
+          limit: featureAccess.limit
+        },
+        { status: 402 }
+      )
+    }
+
+    // Per-request settings override the account defaults (write policies field by field)
+    const accountSettings = await getAccountSettings(userId)
+    options.modelTier = options.modelTier ?? accountSettings.modelTier
+    if (body.type === "clean" && plansWrite(options as CleanOptions)) {
+      const cleanOptions = options as CleanOptions
+      cleanOptions.writePolicies = { ...accountSettings.writePolicies, ...cleanOptions.writePolicies }
+    }
+
+    let job: Job
+    try {
+      job = await createJob({
+        userId,
+        apiKeyId: apiKeyData.id,
+        type: body.type,
+        source,
+        options,
+        crmCredentials,
+        items: source === "scan" ? [] : body.items,
+        maxItems: source === "scan" ? body.maxRecords ?? VALIDATION_LIMITS.MAX_SCAN_RECORDS : undefined,
+        modifiedSince: source === "scan" ? body.modifiedSince : undefined
+      })
+    } catch (createError) {
+      const errorMsg = sanitizeErrorMessage(createError, 'jobs-create')
+      return NextResponse.json(
+        { error: errorMsg },
+        { status: 500 }
+      )
+    }
+
+    // Start draining right away; the cron worker picks up whatever is left
+    const deadline = Date.now() + WORKER_TIME_BUDGET_MS
+    after(async () => {
+      try {
+        await processJob(job.id, deadline)
+      } catch (workerError) {
+        console.error(`Failed to process job ${job.id}:`, workerError)
+      }
+    })
+
+    // Update last_used timestamp for API key
+    await supabase
+      .from("api_keys")
+      .update({ last_used: new Date().toISOString() })
+      .eq("id", apiKeyData.id)
+
+    return NextResponse.json(
+      {
+        id: job.id,
+        type: job.type,
+        source: job.source,
+        status: job.status,
+        totalItems: job.totalItems,
+        createdAt: job.createdAt
+      },
+      { status: 202 }
+    )
+  } catch (error) {
+    console.error("Error in job submission:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
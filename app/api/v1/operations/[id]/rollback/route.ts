@@ -0,0 +1,236 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createServiceClient } from "@/lib/supabase/service"
+import { detectCRMFromHeaders, createCRMClient, CRMClient } from "@/lib/crm"
+import { checkRateLimit } from "@/lib/ratelimit"
+import { claimSnapshotRollback, getOperationSnapshots, markSnapshotRolledBack, releaseSnapshotRollback, OperationSnapshot } from "@/lib/operations"
+import { isValidUUID, sanitizeErrorMessage } from "@/lib/validation"
+
+interface RollbackResult {
+  recordId: string
+  action: OperationSnapshot["action"]
+  status: "restored" | "already_rolled_back" | "failed"
+  // Differs from recordId when the CRM had to recreate a deleted record
+  restoredRecordId: string | null
+  error?: string
+  // Set when the record was restored but the snapshot couldn't be updated to say where
+  warning?: string
+}
+
+/**
+ * Undo one snapshot: put overwritten values back, or bring back a removed record
+ */
+async function rollbackSnapshot(crmClient: CRMClient, snapshot: OperationSnapshot): Promise<string> {
+  if (snapshot.action === "update") {
+    await crmClient.updateCompany({
+      recordId: snapshot.recordId,
+      properties: snapshot.changedProperties
+    })
+    return snapshot.recordId
+  }
+
+  return crmClient.restoreCompany({
+    recordId: snapshot.recordId,
+    properties: snapshot.properties
+  })
+}
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Get API key from header
+    const apiKey = req.headers.get("x-api-key")
+
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: "API key required" },
+        { status: 401 }
+      )
+    }
+
+    // Validate API key and get user ID using service role client (bypasses RLS)
+    const supabase = createServiceClient()
+
+    const { data: apiKeyData, error: apiKeyError } = await supabase
+      .from("api_keys")
+      .select("id, user_id")
+      .eq("key", apiKey)
+      .single()
+
+    if (apiKeyError || !apiKeyData) {
+      return NextResponse.json(
+        { error: "Invalid API key" },
+        { status: 401 }
+      )
+    }
+
+    const userId = apiKeyData.user_id
+
+    // Check rate limits BEFORE doing anything else
+    const rateLimitResult = await checkRateLimit(userId, "rollback-endpoint")
+
+    if (!rateLimitResult.allowed) {
+      const resetDate = new Date(rateLimitResult.reset!)
+      return NextResponse.json(
+        {
+          error: `Rate limit exceeded (${rateLimitResult.limitType})`,
+          limit: rateLimitResult.limit,
+          remaining: rateLimitResult.remaining,
+          reset: resetDate.toISOString()
+        },
+        {
+          status: 429,
+          headers: {
+            'X-RateLimit-Limit': rateLimitResult.limit!.toString(),
+            'X-RateLimit-Remaining': rateLimitResult.remaining!.toString(),
+            'X-RateLimit-Reset': resetDate.toISOString()
+          }
+        }
+      )
+    }
+
+    const { id: operationId } = await params
+
+    if (!isValidUUID(operationId)) {
+      return NextResponse.json(
+        { error: "Invalid operation ID format" },
+        { status: 400 }
+      )
+    }
+
+    const crmCredentials = detectCRMFromHeaders(req.headers)
+    if (!crmCredentials) {
+      return NextResponse.json(
+        { error: "CRM API key required. Please provide an x-{provider}-api-key header (e.g. x-hubspot-api-key)." },
+        { status: 400 }
+      )
+    }
+
+    // Load the operation's snapshots (scoped to this user)
+    let snapshots: OperationSnapshot[]
+    try {
+      snapshots = await getOperationSnapshots(operationId, userId)
+    } catch (loadError) {
+      const errorMsg = sanitizeErrorMessage(loadError, 'rollback-load-snapshots')
+      return NextResponse.json(
+        { error: errorMsg },
+        { status: 500 }
+      )
+    }
+
+    if (snapshots.length === 0) {
+      return NextResponse.json(
+        { error: `Operation '${operationId}' not found` },
+        { status: 404 }
+      )
+    }
+
+    const crmProvider = snapshots[0].crmProvider
+    if (crmCredentials.provider !== crmProvider) {
+      return NextResponse.json(
+        { error: `Operation was made against ${crmProvider}. Please provide the x-${crmProvider}-api-key header.` },
+        { status: 400 }
+      )
+    }
+
+    if (snapshots.every(snapshot => snapshot.rolledBackAt)) {
+      return NextResponse.json(
+        { error: `Operation '${operationId}' has already been rolled back` },
+        { status: 409 }
+      )
+    }
+
+    let crmClient: CRMClient
+    try {
+      crmClient = createCRMClient(crmCredentials)
+    } catch (crmError) {
+      const errorMsg = sanitizeErrorMessage(crmError, 'rollback-crm-client')
+      return NextResponse.json(
+        { error: errorMsg },
+        { status: 400 }
+      )
+    }
+
+    // Undo newest first (e.g. restore a merged-away record before reverting the primary's fields)
+    const results: RollbackResult[] = []
+    for (const snapshot of [...snapshots].reverse()) {
+      if (snapshot.rolledBackAt) {
+        results.push({
+          recordId: snapshot.recordId,
+          action: snapshot.action,
+          status: "already_rolled_back",
+          restoredRecordId: snapshot.restoredRecordId
+        })
+        continue
+      }
+
+      let restoredRecordId: string
+      try {
+        // A concurrent rollback of the same operation may have claimed it since it was loaded
+        if (!(await claimSnapshotRollback(snapshot.id))) {
+          results.push({
+            recordId: snapshot.recordId,
+            action: snapshot.action,
+            status: "already_rolled_back",
+            restoredRecordId: null
+          })
+          continue
+        }
+
+        try {
+          restoredRecordId = await rollbackSnapshot(crmClient, snapshot)
+        } catch (restoreError) {
+          await releaseSnapshotRollback(snapshot.id)
+          throw restoreError
+        }
+      } catch (rollbackError) {
+        results.push({
+          recordId: snapshot.recordId,
+          action: snapshot.action,
+          status: "failed",
+          restoredRecordId: null,
+          error: sanitizeErrorMessage(rollbackError, 'rollback-crm-restore')
+        })
+        continue
+      }
+
+      // The CRM change is done; failing to record it must not invite a second restore
+      let warning: string | undefined
+      try {
+        await markSnapshotRolledBack(snapshot.id, restoredRecordId)
+      } catch (markError) {
+        console.error("Failed to record rollback:", markError)
+        warning = "The record was restored, but the rollback could not be fully recorded"
+      }
+
+      results.push({
+        recordId: snapshot.recordId,
+        action: snapshot.action,
+        status: "restored",
+        restoredRecordId,
+        ...(warning ? { warning } : {})
+      })
+    }
+
+    // Update last_used timestamp for API key
+    await supabase
+      .from("api_keys")
+      .update({ last_used: new Date().toISOString() })
+      .eq("id", apiKeyData.id)
+
+    return NextResponse.json({
+      operationId,
+      operation: snapshots[0].operation,
+      crmProvider,
+      rolledBack: results.every(result => result.status !== "failed"),
+      results
+    })
+  } catch (error) {
+    console.error("Error in operation rollback:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
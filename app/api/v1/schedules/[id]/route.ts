@@ -0,0 +1,355 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createServiceClient } from "@/lib/supabase/service"
+import { checkRateLimit } from "@/lib/ratelimit"
+import { deleteSchedule, getSchedule, scheduleResponseBody, updateSchedule } from "@/lib/schedules"
+import {
+  isValidUUID,
+  validateContentType,
+  validateEmail,
+  sanitizeErrorMessage,
+  VALIDATION_LIMITS
+} from "@/lib/validation"
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Get API key from header
+    const apiKey = req.headers.get("x-api-key")
+
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: "API key required" },
+        { status: 401 }
+      )
+    }
+
+    // Validate API key and get user ID using service role client (bypasses RLS)
+    const supabase = createServiceClient()
+
+    const { data: apiKeyData, error: apiKeyError } = await supabase
+      .from("api_keys")
+      .select("id, user_id")
+      .eq("key", apiKey)
+      .single()
+
+    if (apiKeyError || !apiKeyData) {
+      return NextResponse.json(
+        { error: "Invalid API key" },
+        { status: 401 }
+      )
+    }
+
+    const userId = apiKeyData.user_id
+
+    // Check rate limits BEFORE doing anything else
+    const rateLimitResult = await checkRateLimit(userId, "jobs-endpoint")
+
+    if (!rateLimitResult.allowed) {
+      const resetDate = new Date(rateLimitResult.reset!)
+      return NextResponse.json(
+        {
+          error: `Rate limit exceeded (${rateLimitResult.limitType})`,
+          limit: rateLimitResult.limit,
+          remaining: rateLimitResult.remaining,
+          reset: resetDate.toISOString()
+        },
+        {
+          status: 429,
+          headers: {
+            'X-RateLimit-Limit': rateLimitResult.limit!.toString(),
+            'X-RateLimit-Remaining': rateLimitResult.remaining!.toString(),
+            'X-RateLimit-Reset': resetDate.toISOString()
+          }
+        }
+      )
+    }
+
+    const { id: scheduleId } = await params
+
+    if (!isValidUUID(scheduleId)) {
+      return NextResponse.json(
+        { error: "Invalid schedule ID format" },
+        { status: 400 }
+      )
+    }
+
+    try {
+      const schedule = await getSchedule(scheduleId, userId)
+      if (!schedule) {
+        return NextResponse.json(
+          { error: `Schedule '${scheduleId}' not found` },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json(scheduleResponseBody(schedule))
+    } catch (loadError) {
+      const errorMsg = sanitizeErrorMessage(loadError, 'schedules-get')
+      return NextResponse.json(
+        { error: errorMsg },
+        { status: 500 }
+      )
+    }
+  } catch (error) {
+    console.error("Error fetching schedule:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Rename a schedule, change where results are emailed, or pause/resume it
+ * The CRM key, options and timing are fixed: delete and recreate to change them.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Validate Content-Type
+    const contentTypeValidation = validateContentType(req.headers.get('content-type'))
+    if (!contentTypeValidation.valid) {
+      return NextResponse.json(
+        { error: contentTypeValidation.error },
+        { status: 400 }
+      )
+    }
+
+    // Get API key from header
+    const apiKey = req.headers.get("x-api-key")
+
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: "API key required" },
+        { status: 401 }
+      )
+    }
+
+    // Validate API key and get user ID using service role client (bypasses RLS)
+    const supabase = createServiceClient()
+
+    const { data: apiKeyData, error: apiKeyError } = await supabase
+      .from("api_keys")
+      .select("id, user_id")
+      .eq("key", apiKey)
+      .single()
+
+    if (apiKeyError || !apiKeyData) {
+      return NextResponse.json(
+        { error: "Invalid API key" },
+        { status: 401 }
+      )
+    }
+
+    const userId = apiKeyData.user_id
+
+    // Check rate limits BEFORE doing anything else
+    const rateLimitResult = await checkRateLimit(userId, "jobs-endpoint")
+
+    if (!rateLimitResult.allowed) {
+      const resetDate = new Date(rateLimitResult.reset!)
+      return NextResponse.json(
+        {
+          error: `Rate limit exceeded (${rateLimitResult.limitType})`,
+          limit: rateLimitResult.limit,
+          remaining: rateLimitResult.remaining,
+          reset: resetDate.toISOString()
+        },
+        {
+          status: 429,
+          headers: {
+            'X-RateLimit-Limit': rateLimitResult.limit!.toString(),
+            'X-RateLimit-Remaining': rateLimitResult.remaining!.toString(),
+            'X-RateLimit-Reset': resetDate.toISOString()
+          }
+        }
+      )
+    }
+
+    const { id: scheduleId } = await params
+
+    if (!isValidUUID(scheduleId)) {
+      return NextResponse.json(
+        { error: "Invalid schedule ID format" },
+        { status: 400 }
+      )
+    }
+
+    // Parse request body
+    let body: { name?: unknown; notifyEmail?: unknown; enabled?: unknown }
+    try {
+      body = await req.json()
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid JSON in request body" },
+        { status: 400 }
+      )
+    }
+
+    const update: { name?: string; notifyEmail?: string | null; enabled?: boolean } = {}
+
+    if (body.name !== undefined) {
+      if (typeof body.name !== "string" || !body.name.trim() || body.name.length > VALIDATION_LIMITS.MAX_SCHEDULE_NAME_LENGTH) {
+        return NextResponse.json(
+          { error: `name must be a non-empty string of at most ${VALIDATION_LIMITS.MAX_SCHEDULE_NAME_LENGTH} characters` },
+          { status: 400 }
+        )
+      }
+      update.name = body.name.trim()
+    }
+
+    if (body.notifyEmail !== undefined) {
+      // null stops email notifications
+      if (body.notifyEmail !== null) {
+        const emailValidation = validateEmail(body.notifyEmail)
+        if (!emailValidation.valid) {
+          return NextResponse.json(
+            { error: emailValidation.error },
+            { status: 400 }
+          )
+        }
+      }
+      update.notifyEmail = body.notifyEmail as string | null
+    }
+
+    if (body.enabled !== undefined) {
+      if (typeof body.enabled !== "boolean") {
+        return NextResponse.json(
+          { error: "enabled must be a boolean" },
+          { status: 400 }
+        )
+      }
+      update.enabled = body.enabled
+    }
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json(
+        { error: "Nothing to update" },
+        { status: 400 }
+      )
+    }
+
+    try {
+      const schedule = await getSchedule(scheduleId, userId)
+      if (!schedule) {
+        return NextResponse.json(
+          { error: `Schedule '${scheduleId}' not found` },
+          { status: 404 }
+        )
+      }
+
+      const updated = await updateSchedule(schedule, update)
+      return NextResponse.json(scheduleResponseBody(updated))
+    } catch (updateError) {
+      const errorMsg = sanitizeErrorMessage(updateError, 'schedules-update')
+      return NextResponse.json(
+        { error: errorMsg },
+        { status: 500 }
+      )
+    }
+  } catch (error) {
+    console.error("Error updating schedule:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Get API key from header
+    const apiKey = req.headers.get("x-api-key")
+
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: "API key required" },
+        { status: 401 }
+      )
+    }
+
+    // Validate API key and get user ID using service role client (bypasses RLS)
+    const supabase = createServiceClient()
+
+    const { data: apiKeyData, error: apiKeyError } = await supabase
+      .from("api_keys")
+      .select("id, user_id")
+      .eq("key", apiKey)
+      .single()
+
+    if (apiKeyError || !apiKeyData) {
+      return NextResponse.json(
+        { error: "Invalid API key" },
+        { status: 401 }
+      )
+    }
+
+    const userId = apiKeyData.user_id
+
+    // Check rate limits BEFORE doing anything else
+    const rateLimitResult = await checkRateLimit(userId, "jobs-endpoint")
+
+    if (!rateLimitResult.allowed) {
+      const resetDate = new Date(rateLimitResult.reset!)
+      return NextResponse.json(
+        {
+          error: `Rate limit exceeded (${rateLimitResult.limitType})`,
+          limit: rateLimitResult.limit,
+          remaining: rateLimitResult.remaining,
+          reset: resetDate.toISOString()
+        },
+        {
+          status: 429,
+          headers: {
+            'X-RateLimit-Limit': rateLimitResult.limit!.toString(),
+            'X-RateLimit-Remaining': rateLimitResult.remaining!.toString(),
+            'X-RateLimit-Reset': resetDate.toISOString()
+          }
+        }
+      )
+    }
+
+    const { id: scheduleId } = await params
+
+    if (!isValidUUID(scheduleId)) {
+      return NextResponse.json(
+        { error: "Invalid schedule ID format" },
+        { status: 400 }
+      )
+    }
+
+    try {
+      const deleted = await deleteSchedule(scheduleId, userId)
+      if (!deleted) {
+        return NextResponse.json(
+          { error: `Schedule '${scheduleId}' not found` },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json({
+        message: "Schedule deleted successfully",
+        id: scheduleId
+      })
+    } catch (deleteError) {
+      const errorMsg = sanitizeErrorMessage(deleteError, 'schedules-delete')
+      return NextResponse.json(
+        { error: errorMsg },
+        { status: 500 }
+      )
+    }
+  } catch (error) {
+    console.error("Error deleting schedule:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
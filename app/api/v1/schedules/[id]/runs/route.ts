@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createServiceClient } from "@/lib/supabase/service"
+import { checkRateLimit } from "@/lib/ratelimit"
+import { getSchedule, listScheduleRuns } from "@/lib/schedules"
+import { isValidUUID, sanitizeErrorMessage } from "@/lib/validation"
+
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 100
+
+/**
+ * A schedule's run history, newest first
+ * Pagination: ?limit=20&before=<startedAt of the last run of the previous page>
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Get API key from header
+    const apiKey = req.headers.get("x-api-key")
+
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: "API key required" },
+        { status: 401 }
+      )
+    }
+
+    // Validate API key and get user ID using service role client (bypasses RLS)
+    const supabase = createServiceClient()
+
+    const { data: apiKeyData, error: apiKeyError } = await supabase
+      .from("api_keys")
+      .select("id, user_id")
+      .eq("key", apiKey)
+      .single()
+
+    if (apiKeyError || !apiKeyData) {
+      return NextResponse.json(
+        { error: "Invalid API key" },
+        { status: 401 }
+      )
+    }
+
+    const userId = apiKeyData.user_id
+
+    // Check rate limits BEFORE doing anything else
+    const rateLimitResult = await checkRateLimit(userId, "jobs-endpoint")
+
+    if (!rateLimitResult.allowed) {
+      const resetDate = new Date(rateLimitResult.reset!)
+      return NextResponse.json(
+        {
+          error: `Rate limit exceeded (${rateLimitResult.limitType})`,
+          limit: rateLimitResult.limit,
+          remaining: rateLimitResult.remaining,
+          reset: resetDate.toISOString()
+        },
+        {
+          status: 429,
+          headers: {
+            'X-RateLimit-Limit': rateLimitResult.limit!.toString(),
+            'X-RateLimit-Remaining': rateLimitResult.remaining!.toString(),
+            'X-RateLimit-Reset': resetDate.toISOString()
+          }
+        }
+      )
+    }
+
+    const { id: scheduleId } = await params
+
+    if (!isValidUUID(scheduleId)) {
+      return NextResponse.json(
+        { error: "Invalid schedule ID format" },
+        { status: 400 }
+      )
+    }
+
+    const searchParams = req.nextUrl.searchParams
+
+    const limitParam = searchParams.get("limit")
+    const limit = limitParam === null ? DEFAULT_PAGE_SIZE : Number(limitParam)
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return NextResponse.json(
+        { error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}` },
+        { status: 400 }
+      )
+    }
+
+    const before = searchParams.get("before")
+    if (before !== null && Number.isNaN(Date.parse(before))) {
+      return NextResponse.json(
+        { error: "before must be an ISO timestamp" },
+        { status: 400 }
+      )
+    }
+
+    try {
+      const schedule = await getSchedule(scheduleId, userId)
+      if (!schedule) {
+        return NextResponse.json(
+          { error: `Schedule '${scheduleId}' not found` },
+          { status: 404 }
+        )
+      }
+
+      const runs = await listScheduleRuns(schedule.id, { before: before ?? undefined, limit })
+
+      return NextResponse.json({
+        runs,
+        // A full page may have more behind it
+        nextCursor: runs.length === limit ? runs[runs.length - 1].startedAt : null
+      })
+    } catch (loadError) {
+      const errorMsg = sanitizeErrorMessage(loadError, 'schedules-runs')
+      return NextResponse.json(
+        { error: errorMsg },
+        { status: 500 }
+      )
+    }
+  } catch (error) {
+    console.error("Error fetching schedule runs:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,293 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createServiceClient } from "@/lib/supabase/service"
+import { checkRateLimit } from "@/lib/ratelimit"
+import { detectCRMFromHeaders } from "@/lib/crm"
+import { parseJobOptions } from "@/lib/jobs"
+import {
+  countSchedules,
+  createSchedule,
+  listSchedules,
+  scheduleResponseBody,
+  MAX_SCHEDULES_PER_USER
+} from "@/lib/schedules"
+import {
+  validateContentType,
+  validateEmail,
+  validateJobType,
+  validateMaxRecords,
+  validateScheduleTiming,
+  sanitizeErrorMessage,
+  JobType,
+  ScheduleFrequency,
+  VALIDATION_LIMITS
+} from "@/lib/validation"
+
+export async function GET(req: NextRequest) {
+  try {
+    // Get API key from header
+    const apiKey = req.headers.get("x-api-key")
+
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: "API key required" },
+        { status: 401 }
+      )
+    }
+
+    // Validate API key and get user ID using service role client (bypasses RLS)
+    const supabase = createServiceClient()
+
+    const { data: apiKeyData, error: apiKeyError } = await supabase
+      .from("api_keys")
+      .select("id, user_id")
+      .eq("key", apiKey)
+      .single()
+
+    if (apiKeyError || !apiKeyData) {
+      return NextResponse.json(
+        { error: "Invalid API key" },
+        { status: 401 }
+      )
+    }
+
+    const userId: string = apiKeyData.user_id
+
+    // Check rate limits BEFORE doing anything else
+    const rateLimitResult = await checkRateLimit(userId, "jobs-endpoint")
+
+    if (!rateLimitResult.allowed) {
+      const resetDate = new Date(rateLimitResult.reset!)
+      return NextResponse.json(
+        {
+          error: `Rate limit exceeded (${rateLimitResult.limitType})`,
+          limit: rateLimitResult.limit,
+          remaining: rateLimitResult.remaining,
+          reset: resetDate.toISOString()
+        },
+        {
+          status: 429,
+          headers: {
+            'X-RateLimit-Limit': rateLimitResult.limit!.toString(),
+            'X-RateLimit-Remaining': rateLimitResult.remaining!.toString(),
+            'X-RateLimit-Reset': resetDate.toISOString()
+          }
+        }
+      )
+    }
+
+    try {
+      const schedules = await listSchedules(userId)
+      return NextResponse.json({ schedules: schedules.map(scheduleResponseBody) })
+    } catch (listError) {
+      const errorMsg = sanitizeErrorMessage(listError, 'schedules-list')
+      return NextResponse.json(
+        { error: errorMsg },
+        { status: 500 }
+      )
+    }
+  } catch (error) {
+    console.error("Error listing schedules:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    // Validate Content-Type
+    const contentTypeValidation = validateContentType(req.headers.get('content-type'))
+    if (!contentTypeValidation.valid) {
+      return NextResponse.json(
+        { error: contentTypeValidation.error },
+        { status: 400 }
+      )
+    }
+
+    // Parse request body
+    let body: Record<string, unknown> & {
+      name: string
+      type: JobType
+      frequency: ScheduleFrequency
+      hour?: number
+      dayOfWeek?: number
+      modifiedWithinDays?: number
+      maxRecords?: number
+      notifyEmail?: string
+    }
+    try {
+      body = await req.json()
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid JSON in request body" },
+        { status: 400 }
+      )
+    }
+
+    if (typeof body.name !== "string" || !body.name.trim() || body.name.length > VALIDATION_LIMITS.MAX_SCHEDULE_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `name is required and must be at most ${VALIDATION_LIMITS.MAX_SCHEDULE_NAME_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    const typeValidation = validateJobType(body.type)
+    if (!typeValidation.valid) {
+      return NextResponse.json(
+        { error: typeValidation.error },
+        { status: 400 }
+      )
+    }
+
+    const timingValidation = validateScheduleTiming(body)
+    if (!timingValidation.valid) {
+      return NextResponse.json(
+        { error: timingValidation.error },
+        { status: 400 }
+      )
+    }
+
+    if (
+      body.modifiedWithinDays !== undefined &&
+      (typeof body.modifiedWithinDays !== "number" ||
+        !Number.isInteger(body.modifiedWithinDays) ||
+        body.modifiedWithinDays < 1 ||
+        body.modifiedWithinDays > VALIDATION_LIMITS.MAX_SCHEDULE_LOOKBACK_DAYS)
+    ) {
+      return NextResponse.json(
+        { error: `modifiedWithinDays must be an integer between 1 and ${VALIDATION_LIMITS.MAX_SCHEDULE_LOOKBACK_DAYS}` },
+        { status: 400 }
+      )
+    }
+
+    if (body.maxRecords !== undefined) {
+      const maxRecordsValidation = validateMaxRecords(body.maxRecords)
+      if (!maxRecordsValidation.valid) {
+        return NextResponse.json(
+          { error: maxRecordsValidation.error },
+          { status: 400 }
+        )
+      }
+    }
+
+    if (body.notifyEmail !== undefined) {
+      const emailValidation = validateEmail(body.notifyEmail)
+      if (!emailValidation.valid) {
+        return NextResponse.json(
+          { error: emailValidation.error },
+          { status: 400 }
+        )
+      }
+    }
+
+    // Shared options for every run (cleanRules, purgeRules, mergeRecord, mode, ...)
+    const parsedOptions = parseJobOptions(body.type, body)
+    if (!parsedOptions.options) {
+      return NextResponse.json(
+        { error: parsedOptions.error },
+        { status: 400 }
+      )
+    }
+
+    // Each run scans the CRM with these credentials
+    const crmCredentials = detectCRMFromHeaders(req.headers)
+    if (!crmCredentials) {
+      return NextResponse.json(
+        { error: "CRM API key required for schedules. Please provide an x-{provider}-api-key header (e.g. x-hubspot-api-key)." },
+        { status: 400 }
+      )
+    }
+
+    // Get API key from header
+    const apiKey = req.headers.get("x-api-key")
+
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: "API key required" },
+        { status: 401 }
+      )
+    }
+
+    // Validate API key and get user ID using service role client (bypasses RLS)
+    const supabase = createServiceClient()
+
+    const { data: apiKeyData, error: apiKeyError } = await supabase
+      .from("api_keys")
+      .select("id, user_id")
+      .eq("key", apiKey)
+      .single()
+
+    if (apiKeyError || !apiKeyData) {
+      return NextResponse.json(
+        { error: "Invalid API key" },
+        { status: 401 }
+      )
+    }
+
+    const userId: string = apiKeyData.user_id
+
+    // Check rate limits BEFORE doing anything else
+    const rateLimitResult = await checkRateLimit(userId, "jobs-endpoint")
+
+    if (!rateLimitResult.allowed) {
+      const resetDate = new Date(rateLimitResult.reset!)
+      return NextResponse.json(
+        {
+          error: `Rate limit exceeded (${rateLimitResult.limitType})`,
+          limit: rateLimitResult.limit,
+          remaining: rateLimitResult.remaining,
+          reset: resetDate.toISOString()
+        },
+        {
+          status: 429,
+          headers: {
+            'X-RateLimit-Limit': rateLimitResult.limit!.toString(),
+            'X-RateLimit-Remaining': rateLimitResult.remaining!.toString(),
+            'X-RateLimit-Reset': resetDate.toISOString()
+          }
+        }
+      )
+    }
+
+    try {
+      if (await countSchedules(userId) >= MAX_SCHEDULES_PER_USER) {
+        return NextResponse.json(
+          { error: `Maximum of ${MAX_SCHEDULES_PER_USER} schedules allowed per user` },
+          { status: 400 }
+        )
+      }
+
+      const schedule = await createSchedule({
+        userId: userId,
+        apiKeyId: apiKeyData.id,
+        name: body.name.trim(),
+        type: body.type,
+        options: parsedOptions.options,
+        crmCredentials,
+        timing: {
+          frequency: body.frequency,
+          hour: body.hour ?? 0,
+          dayOfWeek: body.frequency === "weekly" ? body.dayOfWeek ?? null : null
+        },
+        modifiedWithinDays: body.modifiedWithinDays,
+        maxRecords: body.maxRecords,
+        notifyEmail: body.notifyEmail
+      })
+
+      return NextResponse.json(scheduleResponseBody(schedule), { status: 201 })
+    } catch (createError) {
+      const errorMsg = sanitizeErrorMessage(createError, 'schedules-create')
+      return NextResponse.json(
+        { error: errorMsg },
+        { status: 500 }
+      )
+    }
+  } catch (error) {
+    console.error("Error creating schedule:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
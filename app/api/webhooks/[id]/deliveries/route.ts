@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { isValidUUID } from "@/lib/validation"
+
+const DEFAULT_PAGE_SIZE = 50
+const MAX_PAGE_SIZE = 200
+
+const DELIVERY_STATUSES = ['pending', 'delivering', 'succeeded', 'failed']
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error } = await supabase.auth.getUser()
+
+    if (error || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+
+    if (!isValidUUID(id)) {
+      return NextResponse.json(
+        { error: "Invalid webhook ID format" },
+        { status: 400 }
+      )
+    }
+
+    // Pagination: ?limit=50&before=<createdAt of the last delivery of the previous page>&status=failed
+    const searchParams = req.nextUrl.searchParams
+
+    const limitParam = searchParams.get("limit")
+    const limit = limitParam === null ? DEFAULT_PAGE_SIZE : Number(limitParam)
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return NextResponse.json(
+        { error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}` },
+        { status: 400 }
+      )
+    }
+
+    const before = searchParams.get("before")
+    if (before !== null && Number.isNaN(Date.parse(before))) {
+      return NextResponse.json(
+        { error: "before must be an ISO timestamp" },
+        { status: 400 }
+      )
+    }
+
+    const status = searchParams.get("status")
+    if (status !== null && !DELIVERY_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Invalid status. Must be one of: ${DELIVERY_STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const { data: endpoint, error: endpointError } = await supabase
+      .from('webhook_endpoints')
+      .select('id')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (endpointError) {
+      console.error("Error fetching webhook endpoint:", endpointError)
+      return NextResponse.json(
+        { error: "Failed to fetch webhook endpoint" },
+        { status: 500 }
+      )
+    }
+
+    if (!endpoint) {
+      return NextResponse.json(
+        { error: "Webhook endpoint not found" },
+        { status: 404 }
+      )
+    }
+
+    // Newest first (RLS policy ensures user can only see their own deliveries)
+    let query = supabase
+      .from('webhook_deliveries')
+      .select('id, event_id, event_type, payload, status, attempts, next_attempt_at, response_status, response_body, error, delivered_at, created_at')
+      .eq('endpoint_id', id)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (before !== null) {
+      query = query.lt('created_at', before)
+    }
+
+    if (status !== null) {
+      query = query.eq('status', status)
+    }
+
+    const { data: deliveries, error: fetchError } = await query
+
+    if (fetchError) {
+      console.error("Error fetching webhook deliveries:", fetchError)
+      return NextResponse.json(
+        { error: "Failed to fetch webhook deliveries" },
+        { status: 500 }
+      )
+    }
+
+    // Transform to match the expected format (camelCase)
+    const formattedDeliveries = deliveries?.map(delivery => ({
+      id: delivery.id,
+      eventId: delivery.event_id,
+      eventType: delivery.event_type,
+      payload: delivery.payload,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      nextAttemptAt: delivery.next_attempt_at,
+      responseStatus: delivery.response_status,
+      responseBody: delivery.response_body,
+      error: delivery.error,
+      deliveredAt: delivery.delivered_at,
+      createdAt: delivery.created_at
+    })) || []
+
+    return NextResponse.json({
+      deliveries: formattedDeliveries,
+      // A full page may have more behind it
+      nextCursor: formattedDeliveries.length === limit
+        ? formattedDeliveries[formattedDeliveries.length - 1].createdAt
+        : null
+    })
+  } catch (error) {
+    console.error("Error fetching webhook deliveries:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,194 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { generateWebhookSecret } from "@/lib/webhooks"
+import { isValidUUID, validateWebhookEvents, validateWebhookUrl } from "@/lib/validation"
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error } = await supabase.auth.getUser()
+
+    if (error || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+
+    if (!isValidUUID(id)) {
+      return NextResponse.json(
+        { error: "Invalid webhook ID format" },
+        { status: 400 }
+      )
+    }
+
+    const { url, events, description, enabled, rotateSecret } = await req.json()
+    const update: Record<string, unknown> = {}
+
+    // Validate input (only the fields being changed)
+    if (url !== undefined) {
+      const urlValidation = validateWebhookUrl(url)
+      if (!urlValidation.valid) {
+        return NextResponse.json(
+          { error: urlValidation.error },
+          { status: 400 }
+        )
+      }
+      update.url = url
+    }
+
+    if (events !== undefined) {
+      const eventsValidation = validateWebhookEvents(events)
+      if (!eventsValidation.valid) {
+        return NextResponse.json(
+          { error: eventsValidation.error },
+          { status: 400 }
+        )
+      }
+      update.events = Array.from(new Set(events))
+    }
+
+    if (description !== undefined) {
+      if (description !== null && (typeof description !== 'string' || description.length > 200)) {
+        return NextResponse.json(
+          { error: "Description must be a string of at most 200 characters" },
+          { status: 400 }
+        )
+      }
+      update.description = description?.trim() || null
+    }
+
+    if (enabled !== undefined) {
+      if (typeof enabled !== 'boolean') {
+        return NextResponse.json(
+          { error: "enabled must be a boolean" },
+          { status: 400 }
+        )
+      }
+      update.enabled = enabled
+    }
+
+    if (rotateSecret === true) {
+      update.secret = generateWebhookSecret()
+    }
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json(
+        { error: "Nothing to update" },
+        { status: 400 }
+      )
+    }
+
+    // Update endpoint (RLS policy ensures user can only update their own endpoints)
+    const { data: endpoint, error: updateError } = await supabase
+      .from('webhook_endpoints')
+      .update(update)
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select()
+      .maybeSingle()
+
+    if (updateError) {
+      console.error("Error updating webhook endpoint:", updateError)
+      return NextResponse.json(
+        { error: "Failed to update webhook endpoint" },
+        { status: 500 }
+      )
+    }
+
+    if (!endpoint) {
+      return NextResponse.json(
+        { error: "Webhook endpoint not found" },
+        { status: 404 }
+      )
+    }
+
+    // Transform to match the expected format (camelCase); a rotated secret is shown once
+    const formattedEndpoint = {
+      id: endpoint.id,
+      url: endpoint.url,
+      description: endpoint.description,
+      events: endpoint.events,
+      enabled: endpoint.enabled,
+      ...(rotateSecret === true ? { secret: endpoint.secret } : {}),
+      createdAt: endpoint.created_at,
+      updatedAt: endpoint.updated_at
+    }
+
+    return NextResponse.json({ webhook: formattedEndpoint })
+  } catch (error) {
+    console.error("Error updating webhook endpoint:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error } = await supabase.auth.getUser()
+
+    if (error || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+
+    if (!isValidUUID(id)) {
+      return NextResponse.json(
+        { error: "Invalid webhook ID format" },
+        { status: 400 }
+      )
+    }
+
+    // Delete endpoint and its delivery log (RLS policy ensures user can only delete their own endpoints)
+    const { data: deleted, error: deleteError } = await supabase
+      .from('webhook_endpoints')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select('id, url')
+
+    if (deleteError) {
+      console.error("Error deleting webhook endpoint:", deleteError)
+      return NextResponse.json(
+        { error: "Failed to delete webhook endpoint" },
+        { status: 500 }
+      )
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json(
+        { error: "Webhook endpoint not found" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      message: "Webhook endpoint deleted successfully",
+      deletedWebhook: {
+        id: deleted[0].id,
+        url: deleted[0].url
+      }
+    })
+  } catch (error) {
+    console.error("Error deleting webhook endpoint:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
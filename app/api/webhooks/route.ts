@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { generateWebhookSecret } from "@/lib/webhooks"
+import { validateWebhookEvents, validateWebhookUrl } from "@/lib/validation"
+
+// Limit to 10 webhook endpoints per user
+const MAX_ENDPOINTS_PER_USER = 10
+
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error } = await supabase.auth.getUser()
+
+    if (error || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    const { data: endpoints, error: fetchError } = await supabase
+      .from('webhook_endpoints')
+      .select('id, url, description, events, enabled, created_at, updated_at')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+
+    if (fetchError) {
+      console.error("Error fetching webhook endpoints:", fetchError)
+      return NextResponse.json(
+        { error: "Failed to fetch webhook endpoints" },
+        { status: 500 }
+      )
+    }
+
+    // Transform to match the expected format (camelCase); secrets are only shown on creation
+    const formattedEndpoints = endpoints?.map(endpoint => ({
+      id: endpoint.id,
+      url: endpoint.url,
+      description: endpoint.description,
+      events: endpoint.events,
+      enabled: endpoint.enabled,
+      createdAt: endpoint.created_at,
+      updatedAt: endpoint.updated_at
+    })) || []
+
+    return NextResponse.json({ webhooks: formattedEndpoints })
+  } catch (error) {
+    console.error("Error fetching webhook endpoints:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error } = await supabase.auth.getUser()
+
+    if (error || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    const { url, events, description } = await req.json()
+
+    // Validate input
+    const urlValidation = validateWebhookUrl(url)
+    if (!urlValidation.valid) {
+      return NextResponse.json(
+        { error: urlValidation.error },
+        { status: 400 }
+      )
+    }
+
+    const eventsValidation = validateWebhookEvents(events)
+    if (!eventsValidation.valid) {
+      return NextResponse.json(
+        { error: eventsValidation.error },
+        { status: 400 }
+      )
+    }
+
+    if (description !== undefined && description !== null && (typeof description !== 'string' || description.length > 200)) {
+      return NextResponse.json(
+        { error: "Description must be a string of at most 200 characters" },
+        { status: 400 }
+      )
+    }
+
+    // Check how many webhook endpoints the user already has
+    const { count, error: countError } = await supabase
+      .from('webhook_endpoints')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+
+    if (countError) {
+      console.error("Error counting webhook endpoints:", countError)
+      return NextResponse.json(
+        { error: "Failed to check existing webhook endpoints" },
+        { status: 500 }
+      )
+    }
+
+    if (count !== null && count >= MAX_ENDPOINTS_PER_USER) {
+      return NextResponse.json(
+        { error: `Maximum of ${MAX_ENDPOINTS_PER_USER} webhook endpoints allowed per user` },
+        { status: 400 }
+      )
+    }
+
+    const { data: endpoint, error: createError } = await supabase
+      .from('webhook_endpoints')
+      .insert({
+        user_id: user.id,
+        url,
+        description: description?.trim() || null,
+        events: Array.from(new Set(events)),
+        secret: generateWebhookSecret()
+      })
+      .select()
+      .single()
+
+    if (createError) {
+      console.error("Error creating webhook endpoint:", createError)
+      return NextResponse.json(
+        { error: "Failed to create webhook endpoint" },
+        { status: 500 }
+      )
+    }
+
+    // The signing secret is returned once, here
+    const formattedEndpoint = {
+      id: endpoint.id,
+      url: endpoint.url,
+      description: endpoint.description,
+      events: endpoint.events,
+      enabled: endpoint.enabled,
+      secret: endpoint.secret,
+      createdAt: endpoint.created_at,
+      updatedAt: endpoint.updated_at
+    }
+
+    return NextResponse.json({ webhook: formattedEndpoint }, { status: 201 })
+  } catch (error) {
+    console.error("Error creating webhook endpoint:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
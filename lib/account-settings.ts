@@ -0,0 +1,45 @@
+/**
+ * Account-wide API defaults stored in Supabase (account_settings table)
+ */
+
+import { createServiceClient } from './supabase/service'
+import { WritePolicy, ModelTier, DEFAULT_MODEL_TIER } from './validation'
+
+export interface AccountSettings {
+  writePolicies: Record<string, WritePolicy>
+  // Tier for requests that don't pick one
+  modelTier: ModelTier
+}
+
+const DEFAULT_ACCOUNT_SETTINGS: AccountSettings = {
+  writePolicies: {},
+  modelTier: DEFAULT_MODEL_TIER
+}
+
+/**
+ * Load a user's account settings, falling back to defaults when none are stored
+ * Lookup errors are logged and treated as "no settings" so API calls keep working
+ */
+export async function getAccountSettings(userId: string): Promise<AccountSettings> {
+  try {
+    const supabase = createServiceClient()
+    const { data, error } = await supabase
+      .from('account_settings')
+      .select('write_policies, default_model_tier')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Failed to load account settings:', error)
+      return DEFAULT_ACCOUNT_SETTINGS
+    }
+
+    return {
+      writePolicies: (data?.write_policies as Record<string, WritePolicy>) || {},
+      modelTier: (data?.default_model_tier as ModelTier | null) || DEFAULT_MODEL_TIER
+    }
+  } catch (error) {
+    console.error('Failed to load account settings:', error)
+    return DEFAULT_ACCOUNT_SETTINGS
+  }
+}
@@ -3,6 +3,8 @@
  */
 
 import { randomUUID } from 'crypto'
+import { queueWebhookEvent } from './webhooks'
+import { WebhookEventType } from './validation'
 
 export enum AuditEventType {
   // API Key events
@@ -14,12 +16,17 @@ export enum AuditEventType {
   // Credit events
   CREDITS_CONSUMED = 'credits.consumed',
   CREDITS_INSUFFICIENT = 'credits.insufficient',
+  CREDITS_LOW = 'credits.low',
 
   // CRM events
   CRM_RECORD_UPDATED = 'crm.record_updated',
   CRM_RECORD_DELETED = 'crm.record_deleted',
   CRM_RECORD_MERGED = 'crm.record_merged',
 
+  // Job events
+  JOB_COMPLETED = 'job.completed',
+  SCHEDULE_RUN_COMPLETED = 'schedule.run_completed',
+
   // Rate limit events
   RATE_LIMIT_EXCEEDED = 'rate_limit.exceeded',
 
@@ -34,6 +41,16 @@ export enum AuditEventType {
   ERROR_OCCURRED = 'error.occurred',
 }
 
+// Audit events that are also delivered to the account's webhook endpoints
+export const WEBHOOK_EVENTS: Partial<Record<AuditEventType, WebhookEventType>> = {
+  [AuditEventType.JOB_COMPLETED]: 'job.completed',
+  [AuditEventType.CRM_RECORD_UPDATED]: 'record.updated',
+  [AuditEventType.CRM_RECORD_MERGED]: 'record.merged',
+  [AuditEventType.CRM_RECORD_DELETED]: 'record.deleted',
+  [AuditEventType.CREDITS_LOW]: 'credits.low',
+  [AuditEventType.SCHEDULE_RUN_COMPLETED]: 'schedule.completed',
+}
+
 export interface AuditEvent {
   id: string
   timestamp: string
@@ -47,10 +64,10 @@ export interface AuditEvent {
 }
 
 /**
- * Log an audit event
+ * Log an audit event and queue it for the user's webhooks when it maps to one
  * In production, this should write to a database or logging service
  */
-export function logAuditEvent(event: Omit<AuditEvent, 'id' | 'timestamp'>): void {
+export async function logAuditEvent(event: Omit<AuditEvent, 'id' | 'timestamp'>): Promise<void> {
   const auditEvent: AuditEvent = {
     id: randomUUID(),
     timestamp: new Date().toISOString(),
@@ -64,6 +81,11 @@ export function logAuditEvent(event: Omit<AuditEvent, 'id' | 'timestamp'>): void
   // TODO: In production, also write to database or external logging service
   // Example:
   // await supabase.from('audit_logs').insert(auditEvent)
+
+  const webhookEvent = WEBHOOK_EVENTS[auditEvent.eventType]
+  if (webhookEvent && auditEvent.userId) {
+    await queueWebhookEvent(webhookEvent, auditEvent)
+  }
 }
 
 /**
@@ -1,4 +1,5 @@
 import { Autumn } from "autumn-js"
+import { logAuditEvent, AuditEventType } from "./audit"
 
 // Initialize Autumn client with secret key
 const autumnClient = new Autumn({
@@ -52,6 +53,11 @@ export async function trackFeatureUsage(
   featureId: string,
   value: number = 1
 ): Promise<void> {
+  // Nothing to charge, e.g. results served from the AI cache
+  if (value <= 0) {
+    return
+  }
+
   try {
     await autumn.track({
       customer_id: userId,
@@ -63,3 +69,35 @@ export async function trackFeatureUsage(
     throw error
   }
 }
+
+// Balance at or below which the account is sent a credits.low event
+export const LOW_CREDITS_THRESHOLD = 100
+
+/**
+ * Emit a credits.low event when a charge takes the balance across LOW_CREDITS_THRESHOLD
+ * @param userId - The user's ID
+ * @param balanceBefore - The balance checked before the charge (undefined when unknown)
+ * @param creditsUsed - The amount just tracked
+ */
+export async function notifyIfCreditsLow(
+  userId: string,
+  balanceBefore: number | undefined,
+  creditsUsed: number
+): Promise<void> {
+  if (balanceBefore === undefined || creditsUsed <= 0) {
+    return
+  }
+
+  const balanceAfter = balanceBefore - creditsUsed
+  if (balanceBefore > LOW_CREDITS_THRESHOLD && balanceAfter <= LOW_CREDITS_THRESHOLD) {
+    await logAuditEvent({
+      eventType: AuditEventType.CREDITS_LOW,
+      userId,
+      metadata: {
+        remaining: Math.max(balanceAfter, 0),
+        threshold: LOW_CREDITS_THRESHOLD
+      },
+      success: true
+    })
+  }
+}
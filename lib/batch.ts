@@ -0,0 +1,29 @@
+/**
+ * Helpers for endpoints that process many items in one request
+ */
+
+/**
+ * Run fn over every item with at most `concurrency` calls in flight
+ * Results keep the input order. fn should catch its own errors, since one
+ * rejection rejects the whole batch.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let nextIndex = 0
+
+  async function worker(): Promise<void> {
+    while (nextIndex < items.length) {
+      const index = nextIndex++
+      results[index] = await fn(items[index], index)
+    }
+  }
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length))
+  await Promise.all(Array.from({ length: workerCount }, () => worker()))
+
+  return results
+}
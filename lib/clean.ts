@@ -0,0 +1,643 @@
+/**
+ * Company cleaning pipeline shared by the single and batch clean endpoints:
+ * option validation, schema building, the AI call and the CRM write-back
+ */
+
+import { getLLMProvider, tierCreditCost, AIUsage, LLMUsage } from './llm'
+import {
+  createCRMClient,
+  resolvePropertyMapping,
+  mapPropertyName,
+  getCachedPropertyOptions,
+  getFieldOptions,
+  buildWritePlan,
+  buildNoteBody,
+  getMinConfidence,
+  getPriorValues,
+  hasVersionChanged,
+  versionConflictResponseBody,
+  GetCompanyResult,
+  PropertyMapping,
+  WritePlan,
+  PropertyOptions,
+  CANONICAL_COMPANY_FIELDS
+} from './crm'
+import { CRMCredentials } from './crm/types'
+import {
+  validateRecordId,
+  sanitizeRule,
+  sanitizePropertyRules,
+  validatePropertyMapping,
+  validateCustomFields,
+  validateMode,
+  validateMinConfidence,
+  validateWritePolicies,
+  validateModelTier,
+  sanitizeErrorMessage,
+  OperationMode,
+  MinConfidence,
+  ModelTier,
+  WritePolicy,
+  DEFAULT_MODEL_TIER
+} from './validation'
+import { createOperationId, saveSnapshot, discardSnapshot, withAIUsages, OperationError } from './operations'
+import { logAuditEvent, AuditEventType } from './audit'
+
+// Base JSON schema template for company data cleaning
+const BASE_SCHEMA = {
+  "type": "object",
+  "description": "CRM company data cleaning schema. RULES: (1) Valid data → unchanged. (2) Invalid/poor format + high confidence → correct it. (3) Invalid/test/placeholder + unknown → null. (4) Empty + no info → null. (5) Empty + high confidence → populate. Only provide values with high certainty.",
+  "properties": {
+    "cleanedCompany": {
+      "type": "object",
+      "properties": {
+        "name": {
+          "type": ["string", "null"],
+          "description": "Common/trade name. Proper case, no excess whitespace, standardized abbreviations. Test/fake names → null."
+        },
+        "legalName": {
+          "type": ["string", "null"],
+          "description": "Official registered name with corporate suffix (Inc., LLC, Ltd., AB, GmbH)."
+        },
+        "description": {
+          "type": ["string", "null"],
+          "description": "Brief business description. Proper grammar, professional tone, concise."
+        },
+        "industry": {
+          "type": ["string", "null"],
+          "description": "Primary industry/sector. Standard naming conventions (NAICS, SIC)."
+        },
+        "website": {
+          "type": ["string", "null"],
+          "description": "Primary URL. Format: https://www.company.com. Add protocol if missing."
+        },
+        "domain": {
+          "type": ["string", "null"],
+          "description": "Primary URL but trimmed to just the domain (no wwww. or https://). Format: company.com. Add protocol if missing."
+        },
+        "city": {
+          "type": ["string", "null"],
+          "description": "HQ city. Proper case, full names, no abbreviations."
+        },
+        "state": {
+          "type": ["string", "null"],
+          "description": "State/province/region. US: 2-letter codes (CA, NY). Others: full names."
+        },
+        "country": {
+          "type": ["string", "null"],
+          "description": "Country name (United States) or ISO code (US)."
+        },
+        "postalCode": {
+          "type": ["string", "null"],
+          "description": "Postal/ZIP code. Country-appropriate format. Invalid → null."
+        },
+        "phone": {
+          "type": ["string", "null"],
+          "description": "Primary phone. International format with country code (+1-555-123-4567)."
+        },
+        "street": {
+          "type": ["string", "null"],
+          "description": "Street address. Proper case, standardized abbreviations (St., Ave.)."
+        },
+        "linkedIn": {
+          "type": ["string", "null"],
+          "description": "LinkedIn company page URL. Format: https://www.linkedin.com/company/name"
+        },
+        "facebook": {
+          "type": ["string", "null"],
+          "description": "Facebook page URL. Format: https://www.facebook.com/name"
+        },
+        "instagram": {
+          "type": ["string", "null"],
+          "description": "Instagram account URL. Format: https://www.instagram.com/name"
+        },
+        "twitter": {
+          "type": ["string", "null"],
+          "description": "Twitter/X account URL. Format: https://twitter.com/name or https://x.com/name"
+        }
+      },
+      "required": ["name", "legalName", "description", "industry", "website", "domain", "city", "state", "country", "postalCode", "phone", "street", "linkedIn", "facebook", "instagram", "twitter"],
+      "additionalProperties": false
+    },
+    "reasoning": {
+      "type": "object",
+      "description": "1 sentence per field explaining the key factor for the cleaned value and confidence level.",
+      "properties": {
+        "name": { "type": "string" },
+        "legalName": { "type": "string" },
+        "description": { "type": "string" },
+        "industry": { "type": "string" },
+        "website": { "type": "string" },
+        "domain": { "type": "string" },
+        "city": { "type": "string" },
+        "state": { "type": "string" },
+        "country": { "type": "string" },
+        "postalCode": { "type": "string" },
+        "phone": { "type": "string" },
+        "street": { "type": "string" },
+        "linkedIn": { "type": "string" },
+        "facebook": { "type": "string" },
+        "instagram": { "type": "string" },
+        "twitter": { "type": "string" }
+      },
+      "required": ["name", "legalName", "description", "industry", "website", "domain", "city", "state", "country", "postalCode", "phone", "street", "linkedIn", "facebook", "instagram", "twitter"],
+      "additionalProperties": false
+    },
+    "confidence": {
+      "type": "object",
+      "description": "Confidence per field. HIGH=strong evidence, MEDIUM=reasonable certainty, LOW=limited confidence/assumptions.",
+      "properties": {
+        "name": { "type": "string", "enum": ["LOW", "MEDIUM", "HIGH"] },
+        "legalName": { "type": "string", "enum": ["LOW", "MEDIUM", "HIGH"] },
+        "description": { "type": "string", "enum": ["LOW", "MEDIUM", "HIGH"] },
+        "industry": { "type": "string", "enum": ["LOW", "MEDIUM", "HIGH"] },
+        "website": { "type": "string", "enum": ["LOW", "MEDIUM", "HIGH"] },
+        "domain": { "type": "string", "enum": ["LOW", "MEDIUM", "HIGH"] },
+        "city": { "type": "string", "enum": ["LOW", "MEDIUM", "HIGH"] },
+        "state": { "type": "string", "enum": ["LOW", "MEDIUM", "HIGH"] },
+        "country": { "type": "string", "enum": ["LOW", "MEDIUM", "HIGH"] },
+        "postalCode": { "type": "string", "enum": ["LOW", "MEDIUM", "HIGH"] },
+        "phone": { "type": "string", "enum": ["LOW", "MEDIUM", "HIGH"] },
+        "street": { "type": "string", "enum": ["LOW", "MEDIUM", "HIGH"] },
+        "linkedIn": { "type": "string", "enum": ["LOW", "MEDIUM", "HIGH"] },
+        "facebook": { "type": "string", "enum": ["LOW", "MEDIUM", "HIGH"] },
+        "instagram": { "type": "string", "enum": ["LOW", "MEDIUM", "HIGH"] },
+        "twitter": { "type": "string", "enum": ["LOW", "MEDIUM", "HIGH"] }
+      },
+      "required": ["name", "legalName", "description", "industry", "website", "domain", "city", "state", "country", "postalCode", "phone", "street", "linkedIn", "facebook", "instagram", "twitter"],
+      "additionalProperties": false
+    }
+  },
+  "required": ["cleanedCompany", "reasoning", "confidence"],
+  "additionalProperties": false
+}
+
+// Caller-declared field cleaned alongside the built-in schema fields
+export interface CustomFieldDefinition {
+  type: "string" | "number" | "integer" | "boolean"
+  description?: string
+  enum?: Array<string | number | boolean>
+}
+
+// Larger option lists are left as free text rather than bloating the schema
+const MAX_CRM_ENUM_OPTIONS = 500
+
+export function buildDynamicSchema(
+  input: { company: Record<string, unknown> } & Pick<CleanOptions, "customFields" | "cleanRules" | "cleanPropertyRules">,
+  fieldOptions: PropertyOptions = {}
+) {
+  // Deep clone the base schema
+  const schema = JSON.parse(JSON.stringify(BASE_SCHEMA))
+
+  // Get the list of properties that were actually provided in the input
+  const providedProperties = Object.keys(input.company)
+
+  // Add caller-declared custom fields to the base properties before filtering
+  const reasoningProps = { ...BASE_SCHEMA.properties.reasoning.properties } as Record<string, unknown>
+  const confidenceProps = { ...BASE_SCHEMA.properties.confidence.properties } as Record<string, unknown>
+  for (const [key, definition] of Object.entries(input.customFields || {})) {
+    const property: Record<string, unknown> = {
+      type: [definition.type, "null"],
+      description: definition.description || `Custom field: ${key}.`
+    }
+    if (definition.enum) {
+      // null stays allowed so unknown values can still be cleared
+      property.enum = [...definition.enum, null]
+    }
+    schema.properties.cleanedCompany.properties[key] = property
+    reasoningProps[key] = { type: "string" }
+    confidenceProps[key] = { type: "string", enum: ["LOW", "MEDIUM", "HIGH"] }
+  }
+
+  // Filter cleanedCompany properties to only include provided ones
+  const filteredCleanedProperties: Record<string, unknown> = {}
+  for (const key of providedProperties) {
+    if (schema.properties.cleanedCompany.properties[key]) {
+      filteredCleanedProperties[key] = schema.properties.cleanedCompany.properties[key]
+    }
+  }
+  schema.properties.cleanedCompany.properties = filteredCleanedProperties
+
+  // Restrict enumerated CRM properties to the values the CRM will accept
+  for (const [key, options] of Object.entries(fieldOptions)) {
+    const property = filteredCleanedProperties[key] as { type?: string[]; enum?: unknown[] } | undefined
+    if (property?.type?.includes("string") && options.length > 0 && options.length <= MAX_CRM_ENUM_OPTIONS) {
+      property.enum = [...options, null]
+    }
+  }
+  schema.properties.cleanedCompany.required = providedProperties.filter(
+    key => schema.properties.cleanedCompany.properties[key]
+  )
+
+  // Filter reasoning properties to only include provided ones
+  const filteredReasoningProperties: Record<string, unknown> = {}
+  for (const key of providedProperties) {
+    if (reasoningProps[key]) {
+      filteredReasoningProperties[key] = reasoningProps[key]
+    }
+  }
+  schema.properties.reasoning.properties = filteredReasoningProperties
+  schema.properties.reasoning.required = providedProperties.filter(
+    key => reasoningProps[key]
+  )
+
+  // Filter confidence properties to only include provided ones
+  const filteredConfidenceProperties: Record<string, unknown> = {}
+  for (const key of providedProperties) {
+    if (confidenceProps[key]) {
+      filteredConfidenceProperties[key] = confidenceProps[key]
+    }
+  }
+  schema.properties.confidence.properties = filteredConfidenceProperties
+  schema.properties.confidence.required = providedProperties.filter(
+    key => confidenceProps[key]
+  )
+
+  // Update top-level description with cleanRules if provided
+  if (input.cleanRules) {
+    schema.description = `${schema.description} User rules: ${input.cleanRules}`
+  }
+
+  // Add user-specific property rules if provided
+  if (input.cleanPropertyRules) {
+    for (const [key, userRule] of Object.entries(input.cleanPropertyRules)) {
+      // Only add rules for properties that exist in the cleanedCompany properties
+      if (schema.properties.cleanedCompany?.properties[key]) {
+        const currentDescription = schema.properties.cleanedCompany.properties[key].description
+        schema.properties.cleanedCompany.properties[key].description = `${currentDescription} User rules: ${userRule}`
+      }
+    }
+  }
+
+  // For OpenAI strict mode, all properties must be in the required array
+  schema.required = Object.keys(schema.properties)
+
+  return schema
+}
+
+/**
+ * Options shared by every company in a clean request
+ */
+export interface CleanOptions {
+  customFields?: Record<string, CustomFieldDefinition>
+  cleanRules?: string
+  cleanPropertyRules?: Record<string, string>
+  propertyMapping?: PropertyMapping
+  updateRecord: boolean
+  mode: OperationMode
+  minConfidence?: MinConfidence
+  // Effective policies (account defaults merged with the request's)
+  writePolicies: Record<string, WritePolicy>
+  // Requested tier; the caller fills in the account default when omitted
+  modelTier?: ModelTier
+}
+
+export interface CleanResult {
+  cleanedData: Record<string, unknown>
+  recordUpdated: boolean
+  noteAdded: boolean
+  // Why the note couldn't be added; the record update (if any) still went through
+  noteError: string | null
+  operationId: string | null
+  writePlan: WritePlan | null
+  skippedLowConfidence: Array<Record<string, unknown>> | null
+  skippedByPolicy: Array<Record<string, unknown>> | null
+  tokenUsage: LLMUsage
+  // Model that cleaned the company
+  model: string
+  modelTier: ModelTier
+  // Answered from the AI cache
+  cached: boolean
+  // 1 credit, scaled by the model tier (free when cached)
+  creditCost: number
+  jsonSchema: Record<string, unknown>
+}
+
+/**
+ * Validate and sanitize the shared clean options of a request body
+ * (account default write policies are merged in by the caller)
+ */
+export function parseCleanOptions(body: Record<string, unknown>): {
+  options?: CleanOptions
+  error?: string
+} {
+  const validations = [
+    validatePropertyMapping(body.propertyMapping),
+    validateMode(body.mode),
+    validateMinConfidence(body.minConfidence),
+    validateWritePolicies(body.writePolicies),
+    validateModelTier(body.model),
+    validateCustomFields(body.customFields, CANONICAL_COMPANY_FIELDS)
+  ]
+  const failed = validations.find(validation => !validation.valid)
+  if (failed) {
+    return { error: failed.error }
+  }
+
+  const customFields = body.customFields as Record<string, CustomFieldDefinition> | undefined
+  for (const definition of Object.values(customFields || {})) {
+    definition.description = sanitizeRule(definition.description)
+  }
+
+  return {
+    options: {
+      customFields,
+      cleanRules: sanitizeRule(body.cleanRules as string | undefined),
+      cleanPropertyRules: sanitizePropertyRules(body.cleanPropertyRules as Record<string, string> | undefined),
+      propertyMapping: body.propertyMapping as PropertyMapping | undefined,
+      updateRecord: (body.updateRecord as boolean | undefined) ?? false,
+      mode: (body.mode as OperationMode | undefined) ?? "live",
+      minConfidence: (body.minConfidence as MinConfidence | null | undefined) ?? undefined,
+      writePolicies: (body.writePolicies as Record<string, WritePolicy> | undefined) || {},
+      modelTier: (body.model as ModelTier | null | undefined) ?? undefined
+    }
+  }
+}
+
+/**
+ * Whether a clean computes a CRM write-back (preview plans it without writing)
+ */
+export function plansWrite(options: CleanOptions): boolean {
+  return options.updateRecord || options.mode === "preview"
+}
+
+/**
+ * Check a clean that writes to (or previews against) a CRM record names the
+ * record and carries CRM credentials
+ * Needs no lookups, so routes run it before the API key and rate limit checks.
+ */
+export function validateCleanWriteTarget(
+  recordId: unknown,
+  options: CleanOptions,
+  crmCredentials: CRMCredentials | null
+): { valid: boolean; error?: string } {
+  if (!plansWrite(options)) {
+    return { valid: true }
+  }
+
+  const recordIdValidation = validateRecordId(recordId)
+  if (!recordIdValidation.valid || !recordId) {
+    return { valid: false, error: `Invalid recordId: ${recordIdValidation.error}` }
+  }
+
+  if (!crmCredentials) {
+    return {
+      valid: false,
+      error: "CRM API key required when updateRecord is true or mode is preview. Please provide an x-{provider}-api-key header (e.g. x-hubspot-api-key)."
+    }
+  }
+
+  return { valid: true }
+}
+
+interface CleanCompanyParams {
+  company: Record<string, unknown>
+  recordId?: string
+  options: CleanOptions
+  userId: string
+  crmCredentials: CRMCredentials | null
+}
+
+/**
+ * Clean one company and, when requested, write the result back to the CRM
+ * Throws OperationError for failures that map to a specific response, carrying
+ * the AI call in aiUsages when it failed after the model ran.
+ */
+export async function cleanCompany(params: CleanCompanyParams): Promise<CleanResult> {
+  const usages: AIUsage[] = []
+  try {
+    return await runCleanCompany(params, usages)
+  } catch (error) {
+    throw withAIUsages(error, usages)
+  }
+}
+
+async function runCleanCompany(params: CleanCompanyParams, usages: AIUsage[]): Promise<CleanResult> {
+  const { company, recordId, options, userId, crmCredentials } = params
+  const { mode, updateRecord, writePolicies } = options
+  const planWrite = plansWrite(options)
+
+  // Resolve which CRM property each cleaned field is written to
+  // Custom fields are written to a property of the same name unless remapped
+  const customFieldMapping = Object.fromEntries(
+    Object.keys(options.customFields || {}).map(key => [key, key])
+  )
+  const propertyMapping = crmCredentials
+    ? resolvePropertyMapping(crmCredentials.provider, { ...customFieldMapping, ...options.propertyMapping })
+    : null
+
+  // Validate CRM integration requirements BEFORE calling AI
+  // The record as read before cleaning; its version is re-checked before writing
+  let recordBeforeClean: GetCompanyResult | null = null
+  const writeTarget = validateCleanWriteTarget(recordId, options, crmCredentials)
+  if (!writeTarget.valid) {
+    throw new OperationError(writeTarget.error!, 400)
+  }
+
+  if (planWrite && recordId && crmCredentials) {
+
+    // Verify the record exists in the CRM before calling AI
+    let exists: boolean
+    try {
+      const crmClient = createCRMClient(crmCredentials)
+      exists = await crmClient.companyExists(recordId)
+      if (exists) {
+        recordBeforeClean = await crmClient.getCompany(recordId)
+      }
+    } catch (verifyError) {
+      throw new OperationError(sanitizeErrorMessage(verifyError, 'clean-verify-record'), 500)
+    }
+
+    if (!exists) {
+      throw new OperationError(`Company record with ID '${recordId}' not found in CRM`, 404)
+    }
+  }
+
+  // Constrain enumerated fields to the options defined in the CRM
+  let fieldOptions: PropertyOptions = {}
+  if (crmCredentials && propertyMapping) {
+    try {
+      const crmClient = createCRMClient(crmCredentials)
+      const propertyOptions = await getCachedPropertyOptions(crmCredentials, crmClient)
+      fieldOptions = getFieldOptions(Object.keys(company), propertyMapping, propertyOptions)
+    } catch (optionsError) {
+      // Not fatal: fall back to free-text values
+      console.error("Failed to fetch CRM property options:", optionsError)
+    }
+  }
+
+  // Build the dynamic schema based on input
+  const dynamicSchema = buildDynamicSchema({ company, ...options }, fieldOptions)
+
+  // Call the LLM with structured output
+  const modelTier = options.modelTier ?? DEFAULT_MODEL_TIER
+  let cleanedData: Record<string, unknown>
+  let tokenUsage: LLMUsage
+  let model: string
+  let cached: boolean
+  try {
+    const result = await getLLMProvider().completeStructured({
+      name: "company_data_cleaning",
+      schema: dynamicSchema,
+      content: JSON.stringify(company),
+      tier: modelTier
+    })
+    cleanedData = result.data
+    tokenUsage = result.usage
+    model = result.model
+    cached = result.cached
+    usages.push({ model, cached, ...tokenUsage })
+  } catch (llmError) {
+    // Invalid output after every retry carries its own status and body
+    if (llmError instanceof OperationError) {
+      throw llmError
+    }
+    throw new OperationError(sanitizeErrorMessage(llmError, 'clean-llm'), 500)
+  }
+
+  const fieldConfidence = (cleanedData.confidence || {}) as Record<string, unknown>
+
+  // CRM Integration - Update record if requested (or plan the update in preview mode)
+  let recordUpdated = false
+  let noteAdded = false
+  let noteError: string | null = null
+  let operationId: string | null = null
+  let writePlan: WritePlan | null = null
+  if (planWrite && recordId && crmCredentials && propertyMapping) {
+    const crmClient = createCRMClient(crmCredentials)
+    const cleanedCompany = (cleanedData.cleanedCompany || {}) as Record<string, unknown>
+
+    const mappedProperties = Object.keys(cleanedCompany)
+      .map(key => mapPropertyName(propertyMapping, key))
+      .filter((property): property is string => property !== null)
+
+    let existingCompany: GetCompanyResult
+    try {
+      // First, fetch the existing company record to see what properties exist
+      existingCompany = await crmClient.getCompany(recordId, mappedProperties)
+    } catch (crmError) {
+      throw new OperationError(sanitizeErrorMessage(crmError, 'clean-crm-update'), 500)
+    }
+
+    // Don't clobber edits made in the CRM while the AI call was in flight
+    if (mode === "live" && updateRecord && recordBeforeClean && hasVersionChanged(recordBeforeClean, existingCompany)) {
+      const conflict = versionConflictResponseBody(recordBeforeClean, existingCompany)
+      throw new OperationError(conflict.error, 409, conflict)
+    }
+
+    try {
+      // Only write fields that are mapped, non-null, changed, exist in the CRM record
+      // and meet the caller's minConfidence
+      writePlan = buildWritePlan({
+        cleaned: cleanedCompany,
+        original: company,
+        crmProperties: existingCompany.properties,
+        mapping: propertyMapping,
+        confidence: fieldConfidence,
+        minConfidence: options.minConfidence,
+        writePolicies
+      })
+
+      // Only make the API call if there are properties to update
+      if (mode === "live" && Object.keys(writePlan.payload).length > 0) {
+        // Snapshot the record first so the update can be rolled back
+        operationId = createOperationId()
+        await saveSnapshot({
+          operationId,
+          userId,
+          operation: "clean",
+          crmProvider: crmCredentials.provider,
+          recordId,
+          action: "update",
+          properties: existingCompany.properties,
+          changedProperties: getPriorValues(writePlan)
+        })
+
+        try {
+          await crmClient.updateCompany({
+            recordId: recordId,
+            properties: writePlan.payload
+          })
+        } catch (updateError) {
+          await discardSnapshot(operationId, recordId)
+          operationId = null
+          throw updateError
+        }
+
+        recordUpdated = true
+
+        await logAuditEvent({
+          eventType: AuditEventType.CRM_RECORD_UPDATED,
+          userId,
+          metadata: {
+            operation: "clean",
+            operationId,
+            crmProvider: crmCredentials.provider,
+            recordId,
+            properties: writePlan.payload
+          },
+          success: true
+        })
+      }
+
+      // appendToNote fields are attached as a single note instead of being written
+      const noteBody = buildNoteBody(writePlan.changes)
+      if (mode === "live" && noteBody) {
+        try {
+          await crmClient.addNote({
+            recordId: recordId,
+            title: "Suggested data cleaning changes",
+            body: noteBody
+          })
+
+          noteAdded = true
+        } catch (noteFailure) {
+          noteError = sanitizeErrorMessage(noteFailure, 'clean-crm-note')
+        }
+      }
+    } catch (crmError) {
+      throw new OperationError(sanitizeErrorMessage(crmError, 'clean-crm-update'), 500)
+    }
+  }
+
+  // Changed fields held back because the AI was not confident enough
+  const skippedLowConfidence = writePlan
+    ? writePlan.changes
+      .filter(change => change.reason === "low_confidence")
+      .map(change => ({
+        field: change.field,
+        newValue: change.newValue,
+        confidence: fieldConfidence[change.field] ?? null,
+        minConfidence: getMinConfidence(options.minConfidence, change.field)
+      }))
+    : null
+
+  // Changed fields held back by a neverWrite or fillEmptyOnly policy
+  const skippedByPolicy = writePlan
+    ? writePlan.changes
+      .filter(change => change.reason === "never_write" || change.reason === "crm_value_present")
+      .map(change => ({
+        field: change.field,
+        newValue: change.newValue,
+        policy: writePolicies[change.field],
+        reason: change.reason
+      }))
+    : null
+
+  return {
+    cleanedData,
+    recordUpdated,
+    noteAdded,
+    noteError,
+    operationId,
+    writePlan,
+    skippedLowConfidence,
+    skippedByPolicy,
+    tokenUsage,
+    model,
+    modelTier,
+    cached,
+    creditCost: cached ? 0 : tierCreditCost(modelTier, 1),
+    jsonSchema: dynamicSchema
+  }
+}
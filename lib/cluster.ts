@@ -0,0 +1,586 @@
+/**
+ * Duplicate clustering across a whole dataset
+ * Records are blocked on normalized domain, phone and name tokens, candidate
+ * pairs inside each block are scored by deterministic rules, and only the
+ * ambiguous pairs are sent to the AI. Matched pairs are joined transitively into
+ * clusters, each with one primary record and a plan to merge the rest into it.
+ */
+
+import { getLLMProvider, toAIUsage, aiStepUsage, AIUsage } from './llm'
+import { createCRMClient } from './crm'
+import { CRMCredentials } from './crm/types'
+import { withAIUsages, OperationError } from './operations'
+import { sanitizeErrorMessage, ModelTier } from './validation'
+
+export interface ClusterInputItem {
+  recordId?: string
+  company: Record<string, unknown>
+}
+
+export interface ClusterOptions {
+  // Extra guidance for the AI when it adjudicates ambiguous pairs
+  duplicateRules?: string
+  // false leaves ambiguous pairs unresolved instead of asking the AI
+  aiAdjudication: boolean
+  modelTier: ModelTier
+}
+
+export type PairDecision = 'match' | 'ambiguous' | 'no_match'
+
+export interface ClusterEdge {
+  a: number
+  b: number
+  decidedBy: 'rules' | 'ai'
+  // Signals the rules found, e.g. same_domain, same_phone, similar_name
+  reasons: string[]
+  confidence: 'LOW' | 'MEDIUM' | 'HIGH'
+  reasoning?: string
+}
+
+export interface MergeStep {
+  step: number
+  mergeIndex: number
+  mergeRecordId: string | null
+  intoIndex: number
+  intoRecordId: string | null
+  // Chain of matched records from this one to the primary (both ends included);
+  // longer than two when the record only matches the primary transitively
+  linkedVia: number[]
+  transitive: boolean
+}
+
+export interface DuplicateCluster {
+  clusterId: number
+  size: number
+  primary: { index: number; recordId: string | null }
+  members: Array<{ index: number; recordId: string | null; name: string | null; domain: string | null; phone: string | null }>
+  mergePlan: MergeStep[]
+  edges: ClusterEdge[]
+}
+
+export interface ClusterResult {
+  clusters: DuplicateCluster[]
+  stats: {
+    records: number
+    candidatePairs: number
+    matchedByRules: number
+    ambiguousPairs: number
+    adjudicatedByAI: number
+    matchedByAI: number
+    // Ambiguous pairs left undecided (AI disabled or over the per-request cap)
+    unresolvedPairs: number
+    recordsInClusters: number
+  }
+  aiCalls: number
+  aiUsage: Record<string, unknown>[]
+  // Every AI call that ran, for cost records
+  usages: AIUsage[]
+}
+
+interface NormalizedRecord {
+  index: number
+  recordId: string | null
+  name: string | null
+  nameTokens: string[]
+  domain: string | null
+  phone: string | null
+  completeness: number
+  createdAt: number | null
+}
+
+interface CandidatePair {
+  a: number
+  b: number
+  decision: PairDecision
+  reasons: string[]
+}
+
+// Shape of the adjudication output (see BASE_ADJUDICATION_SCHEMA)
+interface AdjudicationOutput {
+  decisions: Array<{ pair: number; isDuplicate: boolean; confidence: ClusterEdge['confidence']; reasoning: string }>
+}
+
+// Blocks bigger than this are skipped for name tokens (common words like "solutions")
+const MAX_TOKEN_BLOCK_SIZE = 50
+
+// Name similarity (token Jaccard) that counts as the same name
+const SIMILAR_NAME_THRESHOLD = 0.8
+
+// Name similarity worth asking the AI about when nothing else conflicts
+const POSSIBLE_NAME_THRESHOLD = 0.5
+
+// Ambiguous pairs sent to the AI per call, and in total per request
+const AI_PAIRS_PER_CALL = 20
+const MAX_AI_PAIRS = 200
+
+// CRM records fetched per page when clustering a portal scan
+const SCAN_PAGE_SIZE = 100
+
+// Legal-form suffixes and filler words that don't distinguish companies
+const NAME_STOPWORDS = new Set([
+  'inc', 'incorporated', 'llc', 'llp', 'lp', 'ltd', 'limited', 'corp', 'corporation', 'co', 'company',
+  'gmbh', 'ag', 'kg', 'sa', 'sas', 'sarl', 'srl', 'spa', 'bv', 'nv', 'plc', 'pty', 'oy', 'ab', 'as',
+  'the', 'and', 'of'
+])
+
+// Shared domains that say nothing about which company a record belongs to
+const GENERIC_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'hotmail.com', 'outlook.com', 'live.com', 'icloud.com',
+  'aol.com', 'protonmail.com', 'linkedin.com', 'facebook.com', 'google.com', 'example.com'
+])
+
+const BASE_ADJUDICATION_SCHEMA = {
+  "type": "object",
+  "description": "Decide for each pair of CRM company records whether they are the same real-world company. Same company = same legal entity or brand at the same organization; subsidiaries, franchises and different locations with separate records are NOT duplicates unless clearly the same entity.",
+  "properties": {
+    "decisions": {
+      "type": "array",
+      "description": "One decision per input pair, in any order.",
+      "items": {
+        "type": "object",
+        "properties": {
+          "pair": {
+            "type": "integer",
+            "description": "The pair number from the input."
+          },
+          "isDuplicate": {
+            "type": "boolean",
+            "description": "true if both records describe the same company."
+          },
+          "confidence": {
+            "type": "string",
+            "enum": ["LOW", "MEDIUM", "HIGH"],
+            "description": "HIGH=clear evidence, MEDIUM=likely, LOW=guess."
+          },
+          "reasoning": {
+            "type": "string",
+            "description": "1 sentence: the deciding evidence."
+          }
+        },
+        "required": ["pair", "isDuplicate", "confidence", "reasoning"],
+        "additionalProperties": false
+      }
+    }
+  },
+  "required": ["decisions"],
+  "additionalProperties": false
+}
+
+function buildAdjudicationSchema(duplicateRules?: string) {
+  const schema = JSON.parse(JSON.stringify(BASE_ADJUDICATION_SCHEMA))
+
+  if (duplicateRules && duplicateRules.trim()) {
+    schema.description = `${schema.description} User rules: ${duplicateRules}`
+  }
+
+  return schema
+}
+
+/**
+ * Case-insensitive property lookup, returning a trimmed non-empty string
+ */
+function readProperty(company: Record<string, unknown>, ...names: string[]): string | null {
+  for (const name of names) {
+    const key = Object.keys(company).find(k => k.toLowerCase() === name.toLowerCase())
+    const value = key === undefined ? undefined : company[key]
+    if ((typeof value === 'string' || typeof value === 'number') && String(value).trim()) {
+      return String(value).trim()
+    }
+  }
+  return null
+}
+
+/**
+ * Bare host of a domain or URL ("https://www.Acme.com/about" -> "acme.com")
+ */
+export function normalizeDomain(value: string | null): string | null {
+  if (!value) return null
+
+  const host = value
+    .toLowerCase()
+    .trim()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/^www\./, '')
+    .split(/[/?#:]/)[0]
+
+  if (!host.includes('.') || GENERIC_DOMAINS.has(host)) {
+    return null
+  }
+
+  return host
+}
+
+/**
+ * Last 10 digits of a phone number, so formatting and country prefixes don't matter
+ */
+export function normalizePhone(value: string | null): string | null {
+  if (!value) return null
+
+  const digits = value.replace(/\D/g, '')
+  return digits.length >= 7 ? digits.slice(-10) : null
+}
+
+/**
+ * Distinguishing lowercase words of a company name, without accents, legal forms or filler words
+ */
+export function nameTokens(value: string | null): string[] {
+  if (!value) return []
+
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token && !NAME_STOPWORDS.has(token))
+}
+
+function jaccard(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0
+
+  const setA = new Set(a)
+  const setB = new Set(b)
+  const intersection = [...setA].filter(token => setB.has(token)).length
+  return intersection / (setA.size + setB.size - intersection)
+}
+
+function normalizeRecord(item: ClusterInputItem, index: number): NormalizedRecord {
+  const { company } = item
+  const tokens = nameTokens(readProperty(company, 'name', 'companyName'))
+  const created = readProperty(company, 'createdate', 'createdAt')
+  const createdAt = created ? Date.parse(created) : NaN
+
+  return {
+    index,
+    recordId: typeof item.recordId === 'string' ? item.recordId : null,
+    name: tokens.length > 0 ? tokens.join(' ') : null,
+    nameTokens: tokens,
+    domain: normalizeDomain(readProperty(company, 'domain', 'website')),
+    phone: normalizePhone(readProperty(company, 'phone')),
+    completeness: Object.values(company).filter(value => value !== null && value !== undefined && value !== '').length,
+    createdAt: Number.isNaN(createdAt) ? null : createdAt
+  }
+}
+
+/**
+ * Group records that share a normalized domain, phone, full name or name token
+ */
+function buildBlocks(records: NormalizedRecord[]): number[][] {
+  const blocks = new Map<string, number[]>()
+  const add = (key: string, index: number) => {
+    const block = blocks.get(key)
+    if (block) {
+      block.push(index)
+    } else {
+      blocks.set(key, [index])
+    }
+  }
+
+  for (const record of records) {
+    if (record.domain) add(`domain:${record.domain}`, record.index)
+    if (record.phone) add(`phone:${record.phone}`, record.index)
+    if (record.name) add(`name:${record.name}`, record.index)
+    for (const token of new Set(record.nameTokens)) {
+      if (token.length >= 3) add(`token:${token}`, record.index)
+    }
+  }
+
+  return [...blocks.entries()]
+    .filter(([key, members]) => members.length > 1 && (!key.startsWith('token:') || members.length <= MAX_TOKEN_BLOCK_SIZE))
+    .map(([, members]) => members)
+}
+
+/**
+ * Score a candidate pair with deterministic rules
+ * Two independent signals (domain, phone, name) make a match; a single signal,
+ * or a similar name with nothing conflicting, is ambiguous.
+ */
+function comparePair(a: NormalizedRecord, b: NormalizedRecord): { decision: PairDecision; reasons: string[] } {
+  const reasons: string[] = []
+  const nameSimilarity = jaccard(a.nameTokens, b.nameTokens)
+
+  const sameDomain = !!a.domain && a.domain === b.domain
+  const samePhone = !!a.phone && a.phone === b.phone
+  const sameName = !!a.name && (a.name === b.name || nameSimilarity >= SIMILAR_NAME_THRESHOLD)
+  const domainConflict = !!a.domain && !!b.domain && a.domain !== b.domain
+  const phoneConflict = !!a.phone && !!b.phone && a.phone !== b.phone
+
+  if (sameDomain) reasons.push('same_domain')
+  if (samePhone) reasons.push('same_phone')
+  if (sameName) reasons.push(a.name === b.name ? 'same_name' : 'similar_name')
+  if (domainConflict) reasons.push('different_domain')
+  if (phoneConflict) reasons.push('different_phone')
+
+  const signals = [sameDomain, samePhone, sameName].filter(Boolean).length
+
+  if (signals >= 2) {
+    return { decision: 'match', reasons }
+  }
+
+  // A shared domain where one side has no name to contradict it
+  if (sameDomain && (!a.name || !b.name)) {
+    return { decision: 'match', reasons }
+  }
+
+  if (signals === 1) {
+    return { decision: 'ambiguous', reasons }
+  }
+
+  if (nameSimilarity >= POSSIBLE_NAME_THRESHOLD && !domainConflict && !phoneConflict) {
+    reasons.push('possible_name')
+    return { decision: 'ambiguous', reasons }
+  }
+
+  return { decision: 'no_match', reasons }
+}
+
+/**
+ * Ask the AI about ambiguous pairs, AI_PAIRS_PER_CALL at a time
+ * Only MEDIUM or HIGH confidence duplicates count as matches. Throws
+ * OperationError if a call fails, carrying the calls made so far in aiUsages.
+ */
+async function adjudicatePairs(
+  pairs: CandidatePair[],
+  items: ClusterInputItem[],
+  duplicateRules: string | undefined,
+  modelTier: ModelTier
+): Promise<{ decisions: Map<CandidatePair, { isDuplicate: boolean; confidence: ClusterEdge['confidence']; reasoning: string }>; usages: AIUsage[] }> {
+  const llm = getLLMProvider()
+  const schema = buildAdjudicationSchema(duplicateRules)
+  const decisions = new Map<CandidatePair, { isDuplicate: boolean; confidence: ClusterEdge['confidence']; reasoning: string }>()
+  const usages: AIUsage[] = []
+
+  for (let start = 0; start < pairs.length; start += AI_PAIRS_PER_CALL) {
+    const chunk = pairs.slice(start, start + AI_PAIRS_PER_CALL)
+    const input = {
+      pairs: chunk.map((pair, offset) => ({
+        pair: offset,
+        signals: pair.reasons,
+        a: items[pair.a].company,
+        b: items[pair.b].company
+      }))
+    }
+
+    let completion
+    try {
+      completion = await llm.completeStructured<AdjudicationOutput>({
+        name: "duplicate_adjudication",
+        schema,
+        content: JSON.stringify(input),
+        tier: modelTier
+      })
+    } catch (aiError) {
+      const cause = aiError instanceof OperationError
+        ? aiError
+        : new OperationError(sanitizeErrorMessage(aiError, 'cluster-adjudicate'), 500)
+      // The chunks that completed first were paid for too
+      throw withAIUsages(cause, usages)
+    }
+
+    usages.push(toAIUsage(completion))
+
+    const parsed = completion.data
+
+    for (const decision of parsed.decisions) {
+      const pair = chunk[decision.pair]
+      if (pair && !decisions.has(pair)) {
+        decisions.set(pair, {
+          isDuplicate: decision.isDuplicate && decision.confidence !== 'LOW',
+          confidence: decision.confidence,
+          reasoning: decision.reasoning
+        })
+      }
+    }
+  }
+
+  return { decisions, usages }
+}
+
+/**
+ * Pick a cluster's primary: the most complete record, then the oldest, then the first submitted
+ */
+function choosePrimary(members: NormalizedRecord[]): NormalizedRecord {
+  return [...members].sort((x, y) =>
+    y.completeness - x.completeness ||
+    (x.createdAt ?? Infinity) - (y.createdAt ?? Infinity) ||
+    x.index - y.index
+  )[0]
+}
+
+/**
+ * Merge every other member into the primary, nearest first
+ * Each step carries the chain of matched records that links it to the primary.
+ */
+function buildMergePlan(primary: NormalizedRecord, members: NormalizedRecord[], edges: ClusterEdge[]): MergeStep[] {
+  const neighbours = new Map<number, number[]>()
+  for (const edge of edges) {
+    neighbours.set(edge.a, [...(neighbours.get(edge.a) || []), edge.b])
+    neighbours.set(edge.b, [...(neighbours.get(edge.b) || []), edge.a])
+  }
+
+  // Breadth-first from the primary: parent pointers give each member's shortest chain
+  const parent = new Map<number, number | null>([[primary.index, null]])
+  const order: number[] = []
+  const queue = [primary.index]
+  while (queue.length > 0) {
+    const current = queue.shift()!
+    for (const next of (neighbours.get(current) || []).sort((x, y) => x - y)) {
+      if (!parent.has(next)) {
+        parent.set(next, current)
+        order.push(next)
+        queue.push(next)
+      }
+    }
+  }
+
+  const byIndex = new Map(members.map(member => [member.index, member]))
+  return order.map((index, position) => {
+    const linkedVia: number[] = [index]
+    let step = parent.get(index)
+    while (step !== null && step !== undefined) {
+      linkedVia.push(step)
+      step = parent.get(step)
+    }
+
+    return {
+      step: position + 1,
+      mergeIndex: index,
+      mergeRecordId: byIndex.get(index)?.recordId ?? null,
+      intoIndex: primary.index,
+      intoRecordId: primary.recordId,
+      linkedVia,
+      transitive: linkedVia.length > 2
+    }
+  })
+}
+
+/**
+ * Cluster a dataset's duplicates
+ * Throws OperationError when AI adjudication fails.
+ */
+export async function clusterCompanies(items: ClusterInputItem[], options: ClusterOptions): Promise<ClusterResult> {
+  const records = items.map(normalizeRecord)
+
+  // Candidate pairs: every pair sharing at least one block, compared once
+  const seen = new Set<string>()
+  const candidates: CandidatePair[] = []
+  for (const block of buildBlocks(records)) {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const [a, b] = block[i] < block[j] ? [block[i], block[j]] : [block[j], block[i]]
+        const key = `${a}:${b}`
+        if (seen.has(key)) continue
+        seen.add(key)
+        candidates.push({ a, b, ...comparePair(records[a], records[b]) })
+      }
+    }
+  }
+
+  const edges: ClusterEdge[] = candidates
+    .filter(pair => pair.decision === 'match')
+    .map(pair => ({ a: pair.a, b: pair.b, decidedBy: 'rules' as const, reasons: pair.reasons, confidence: 'HIGH' as const }))
+  const matchedByRules = edges.length
+
+  const ambiguous = candidates.filter(pair => pair.decision === 'ambiguous')
+  const toAdjudicate = options.aiAdjudication ? ambiguous.slice(0, MAX_AI_PAIRS) : []
+
+  let usages: AIUsage[] = []
+  let matchedByAI = 0
+  if (toAdjudicate.length > 0) {
+    const adjudication = await adjudicatePairs(toAdjudicate, items, options.duplicateRules, options.modelTier)
+    usages = adjudication.usages
+    for (const [pair, decision] of adjudication.decisions) {
+      if (decision.isDuplicate) {
+        matchedByAI++
+        edges.push({
+          a: pair.a,
+          b: pair.b,
+          decidedBy: 'ai',
+          reasons: pair.reasons,
+          confidence: decision.confidence,
+          reasoning: decision.reasoning
+        })
+      }
+    }
+  }
+
+  // Union-find over matched pairs joins duplicates transitively
+  const root = records.map(record => record.index)
+  const find = (index: number): number => {
+    while (root[index] !== index) {
+      root[index] = root[root[index]]
+      index = root[index]
+    }
+    return index
+  }
+  for (const edge of edges) {
+    root[find(edge.a)] = find(edge.b)
+  }
+
+  const groups = new Map<number, NormalizedRecord[]>()
+  for (const record of records) {
+    const group = find(record.index)
+    groups.set(group, [...(groups.get(group) || []), record])
+  }
+
+  const clusters = [...groups.values()]
+    .filter(members => members.length > 1)
+    .map(members => members.sort((x, y) => x.index - y.index))
+    .sort((x, y) => x[0].index - y[0].index)
+    .map((members, position): DuplicateCluster => {
+      const memberIndexes = new Set(members.map(member => member.index))
+      const clusterEdges = edges.filter(edge => memberIndexes.has(edge.a))
+      const primary = choosePrimary(members)
+
+      return {
+        clusterId: position + 1,
+        size: members.length,
+        primary: { index: primary.index, recordId: primary.recordId },
+        members: members.map(member => ({
+          index: member.index,
+          recordId: member.recordId,
+          name: readProperty(items[member.index].company, 'name', 'companyName'),
+          domain: member.domain,
+          phone: member.phone
+        })),
+        mergePlan: buildMergePlan(primary, members, clusterEdges),
+        edges: clusterEdges
+      }
+    })
+
+  return {
+    clusters,
+    stats: {
+      records: records.length,
+      candidatePairs: candidates.length,
+      matchedByRules,
+      ambiguousPairs: ambiguous.length,
+      adjudicatedByAI: toAdjudicate.length,
+      matchedByAI,
+      unresolvedPairs: ambiguous.length - toAdjudicate.length,
+      recordsInClusters: clusters.reduce((sum, cluster) => sum + cluster.size, 0)
+    },
+    aiCalls: usages.length,
+    aiUsage: usages.map(aiStepUsage),
+    usages
+  }
+}
+
+/**
+ * Read up to maxRecords companies from the CRM, page by page, as cluster input
+ */
+export async function loadPortalCompanies(crmCredentials: CRMCredentials, maxRecords: number): Promise<ClusterInputItem[]> {
+  const crmClient = createCRMClient(crmCredentials)
+  const items: ClusterInputItem[] = []
+  let cursor: string | null = null
+
+  do {
+    const page = await crmClient.listCompanies({ after: cursor, limit: Math.min(SCAN_PAGE_SIZE, maxRecords - items.length) })
+    for (const company of page.companies) {
+      items.push({ recordId: company.id, company: company.properties })
+    }
+    cursor = page.nextCursor
+  } while (cursor !== null && items.length < maxRecords)
+
+  return items.slice(0, maxRecords)
+}
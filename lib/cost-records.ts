@@ -0,0 +1,74 @@
+/**
+ * Per-request AI cost records stored in Supabase (ai_cost_records table)
+ * Each row puts what the provider charged us next to the credits the user was
+ * charged, so AI spend can be reconciled against credits sold.
+ */
+
+import { createServiceClient } from './supabase/service'
+import { billableCalls, sumUsage, totalCostUSD, AIUsage } from './llm'
+import { OperationError } from './operations'
+import { ModelTier } from './validation'
+
+export type CostOperation = 'clean' | 'clean-batch' | 'purge' | 'merge' | 'merge-cluster' | 'cluster'
+
+/**
+ * Persist the cost of one API request (or one background job item)
+ * Failures are logged and swallowed: the work is done and the credits charged by then.
+ */
+export async function recordAICost(params: {
+  userId: string
+  operation: CostOperation
+  modelTier: ModelTier
+  usages: AIUsage[]
+  creditsCharged: number
+  jobId?: string
+}): Promise<void> {
+  const { usages } = params
+  const total = sumUsage(usages)
+
+  try {
+    const supabase = createServiceClient()
+    const { error } = await supabase
+      .from('ai_cost_records')
+      .insert({
+        user_id: params.userId,
+        operation: params.operation,
+        job_id: params.jobId ?? null,
+        model_tier: params.modelTier,
+        models: [...new Set(usages.map(usage => usage.model))],
+        ai_calls: billableCalls(usages),
+        cached_calls: usages.length - billableCalls(usages),
+        input_tokens: total.inputTokens,
+        cached_input_tokens: total.cachedInputTokens,
+        output_tokens: total.outputTokens,
+        reasoning_tokens: total.reasoningTokens,
+        cost_usd: totalCostUSD(usages),
+        credits_charged: params.creditsCharged
+      })
+
+    if (error) {
+      console.error('Failed to record AI cost:', error)
+    }
+  } catch (recordError) {
+    console.error('Failed to record AI cost:', recordError)
+  }
+}
+
+/**
+ * Persist the cost of AI calls made by a request (or job item) that then failed
+ * Nothing is charged for it, but the calls were paid for all the same.
+ */
+export async function recordFailedAICost(params: {
+  userId: string
+  operation: CostOperation
+  modelTier: ModelTier
+  error: unknown
+  jobId?: string
+}): Promise<void> {
+  const { error, ...record } = params
+  if (!(error instanceof OperationError) || error.aiUsages.length === 0) {
+    return
+  }
+
+  await recordAICost({ ...record, usages: error.aiUsages, creditsCharged: 0 })
+}
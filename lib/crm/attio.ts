@@ -0,0 +1,612 @@
+import { CRMClient, UpdateCompanyParams, DeleteCompanyParams, RestoreCompanyParams, AddNoteParams, GetCompanyResult, CompanyFilter, CompanyFilterGroup, ListCompaniesParams, ListCompaniesResult, PropertyOptions } from "./types"
+import { createHash } from "crypto"
+import { fetchWithTimeout, CRM_TIMEOUT_MS } from "./http"
+import { SEARCH_RESULT_LIMIT } from "./filters"
+import { UnsupportedCRMOperationError } from "./errors"
+
+// Attio value as returned by the records API. Each attribute holds an array of
+// historic values; the active one is the first entry.
+interface AttioValue {
+  attribute_type?: string
+  value?: unknown
+  domain?: string
+  option?: { title?: string }
+  status?: { title?: string }
+  [key: string]: unknown
+}
+
+interface AttioAttribute {
+  api_slug: string
+  type: string
+  is_archived?: boolean
+  is_writable?: boolean
+}
+
+interface AttioRecord {
+  id: { record_id: string }
+  created_at?: string
+  values: Record<string, AttioValue[]>
+}
+
+type AttioLocation = {
+  line_1: string | null
+  line_2: string | null
+  line_3: string | null
+  line_4: string | null
+  locality: string | null
+  region: string | null
+  postcode: string | null
+  country_code: string | null
+  latitude: string | null
+  longitude: string | null
+}
+
+// Canonical clean-schema fields stored as plain Attio attributes
+const ATTIO_ATTRIBUTES: Record<string, string> = {
+  name: "name",
+  description: "description",
+  domain: "domains",
+  industry: "categories",
+  linkedIn: "linkedin",
+  facebook: "facebook",
+  instagram: "instagram",
+  twitter: "twitter",
+}
+
+// Canonical clean-schema fields stored inside Attio's primary_location attribute
+const ATTIO_LOCATION_FIELDS: Record<string, keyof AttioLocation> = {
+  street: "line_1",
+  city: "locality",
+  state: "region",
+  postalCode: "postcode",
+  country: "country_code",
+}
+
+const EMPTY_LOCATION: AttioLocation = {
+  line_1: null,
+  line_2: null,
+  line_3: null,
+  line_4: null,
+  locality: null,
+  region: null,
+  postcode: null,
+  country_code: null,
+  latitude: null,
+  longitude: null,
+}
+
+/**
+ * Resolve a property name case-insensitively against a canonical field map
+ * (callers may send "postalcode" as well as "postalCode")
+ */
+function findCanonicalField<T>(map: Record<string, T>, key: string): string | undefined {
+  const lower = key.toLowerCase()
+  return Object.keys(map).find(field => field.toLowerCase() === lower)
+}
+
+/**
+ * Flatten an Attio value object into a primitive
+ */
+function flattenAttioValue(value: AttioValue | undefined): unknown {
+  if (!value) return null
+  if (value.domain !== undefined) return value.domain
+  if (value.option) return value.option.title ?? null
+  if (value.status) return value.status.title ?? null
+  if (value.value !== undefined) return value.value
+  return null
+}
+
+/**
+ * Attribute path for a canonical field in Attio's query filter syntax
+ * e.g. city -> ["primary_location", "locality"], domain -> ["domains", "domain"]
+ */
+function attioFilterPath(propertyName: string): string[] {
+  const locationField = findCanonicalField(ATTIO_LOCATION_FIELDS, propertyName)
+  if (locationField) {
+    return ["primary_location", ATTIO_LOCATION_FIELDS[locationField]]
+  }
+
+  const canonicalField = findCanonicalField(ATTIO_ATTRIBUTES, propertyName)
+  // Attio has no separate website attribute; websites are matched against domains
+  if (canonicalField === "domain" || propertyName.toLowerCase() === "website") {
+    return ["domains", "domain"]
+  }
+  return [canonicalField ? ATTIO_ATTRIBUTES[canonicalField] : propertyName]
+}
+
+/**
+ * Wrap a condition in a (possibly nested) attribute path
+ */
+function nestFilter(path: string[], condition: unknown): Record<string, unknown> {
+  return path.reduceRight<Record<string, unknown>>(
+    (inner, segment) => ({ [segment]: inner }),
+    condition as Record<string, unknown>
+  )
+}
+
+/**
+ * Translate a neutral filter into Attio's query filter syntax
+ */
+function toAttioFilter(filter: CompanyFilter): Record<string, unknown> {
+  const path = attioFilterPath(filter.propertyName)
+  const eq = (value: string) => nestFilter(path, { "$eq": value })
+
+  switch (filter.operator) {
+    case "EQ":
+      return eq(filter.value ?? "")
+    case "NEQ":
+      return { "$not": eq(filter.value ?? "") }
+    case "IN":
+      return { "$or": (filter.values || []).map(eq) }
+    case "NOT_IN":
+      return { "$not": { "$or": (filter.values || []).map(eq) } }
+    case "HAS_PROPERTY":
+      return nestFilter(path, { "$not_empty": true })
+    case "NOT_HAS_PROPERTY":
+      return { "$not": nestFilter(path, { "$not_empty": true }) }
+    case "CONTAINS_TOKEN":
+      return nestFilter(path, { "$contains": filter.value ?? "" })
+  }
+}
+
+/**
+ * Attio CRM client
+ * Docs: https://developers.attio.com/reference/get_v2-objects-object-records-record-id
+ */
+export class AttioClient implements CRMClient {
+  readonly supportsMerge = false
+  private apiKey: string
+  private baseUrl = "https://api.attio.com/v2"
+
+  constructor(apiKey: string) {
+    this.apiKey = apiKey
+  }
+
+  private recordUrl(recordId: string): string {
+    return `${this.baseUrl}/objects/companies/records/${encodeURIComponent(recordId)}`
+  }
+
+  private async fetchRecord(recordId: string): Promise<AttioRecord> {
+    const response = await fetchWithTimeout(
+      this.recordUrl(recordId),
+      {
+        method: "GET",
+        headers: {
+          "Authorization": `Bearer ${this.apiKey}`,
+        },
+      },
+      CRM_TIMEOUT_MS
+    )
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `Attio API error (${response.status}): ${error}`
+      )
+    }
+
+    const data = await response.json()
+    return data.data as AttioRecord
+  }
+
+  /**
+   * Update a company record in Attio
+   * PUT /v2/objects/companies/records/{record_id}
+   *
+   * PUT (rather than PATCH) is used so multiselect attributes such as
+   * domains and categories are replaced instead of appended to.
+   */
+  async updateCompany(params: UpdateCompanyParams): Promise<void> {
+    const { recordId, properties } = params
+    const { values, locationUpdates } = this.toAttioValues(properties)
+
+    // Location is a single composite value, so unchanged parts must be resent
+    if (Object.keys(locationUpdates).length > 0) {
+      const existing = await this.fetchRecord(recordId)
+      const current = existing.values.primary_location?.[0] as Partial<AttioLocation> | undefined
+      const location: AttioLocation = { ...EMPTY_LOCATION }
+      for (const field of Object.keys(EMPTY_LOCATION) as (keyof AttioLocation)[]) {
+        location[field] = (current?.[field] as string | null | undefined) ?? null
+      }
+      values.primary_location = { ...location, ...locationUpdates }
+    }
+
+    const response = await fetchWithTimeout(
+      this.recordUrl(recordId),
+      {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${this.apiKey}`,
+        },
+        body: JSON.stringify({ data: { values } }),
+      },
+      CRM_TIMEOUT_MS
+    )
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `Attio API error (${response.status}): ${error}`
+      )
+    }
+  }
+
+  /**
+   * Translate canonical properties into Attio attribute values
+   * Location parts are returned separately so callers can merge them into
+   * the composite primary_location value.
+   */
+  private toAttioValues(properties: Record<string, unknown>): {
+    values: Record<string, unknown>
+    locationUpdates: Partial<AttioLocation>
+  } {
+    const values: Record<string, unknown> = {}
+    const locationUpdates: Partial<AttioLocation> = {}
+
+    for (const [key, value] of Object.entries(properties)) {
+      const locationField = findCanonicalField(ATTIO_LOCATION_FIELDS, key)
+      if (locationField) {
+        const attioField = ATTIO_LOCATION_FIELDS[locationField]
+        if (value === null) {
+          locationUpdates[attioField] = null
+        } else if (attioField === "country_code") {
+          // Attio only accepts ISO 3166-1 alpha-2 country codes
+          if (typeof value === "string" && /^[A-Za-z]{2}$/.test(value)) {
+            locationUpdates.country_code = value.toUpperCase()
+          }
+        } else {
+          locationUpdates[attioField] = String(value)
+        }
+        continue
+      }
+
+      const canonicalField = findCanonicalField(ATTIO_ATTRIBUTES, key)
+      const slug = canonicalField ? ATTIO_ATTRIBUTES[canonicalField] : key
+
+      // Attio clears an attribute with an empty array
+      if (value === null) {
+        values[slug] = []
+      } else if (slug === "domains" || slug === "categories") {
+        values[slug] = [String(value)]
+      } else {
+        values[slug] = value
+      }
+    }
+
+    return { values, locationUpdates }
+  }
+
+  /**
+   * Delete a company record in Attio
+   * DELETE /v2/objects/companies/records/{record_id}
+   */
+  async deleteCompany(params: DeleteCompanyParams): Promise<void> {
+    const { recordId } = params
+
+    const response = await fetchWithTimeout(
+      this.recordUrl(recordId),
+      {
+        method: "DELETE",
+        headers: {
+          "Authorization": `Bearer ${this.apiKey}`,
+        },
+      },
+      CRM_TIMEOUT_MS
+    )
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `Attio API error (${response.status}): ${error}`
+      )
+    }
+  }
+
+  /**
+   * Check if a company record exists in Attio
+   * GET /v2/objects/companies/records/{record_id}
+   */
+  async companyExists(recordId: string): Promise<boolean> {
+    try {
+      const response = await fetchWithTimeout(
+        this.recordUrl(recordId),
+        {
+          method: "GET",
+          headers: {
+            "Authorization": `Bearer ${this.apiKey}`,
+          },
+        },
+        CRM_TIMEOUT_MS
+      )
+
+      return response.ok
+    } catch (error) {
+      console.error("Error checking company existence:", error)
+      return false
+    }
+  }
+
+  /**
+   * Get a company record from Attio
+   * GET /v2/objects/companies/records/{record_id}
+   *
+   * Attribute slugs are mapped to the clean schema's field names; custom
+   * attributes are returned under their own slug.
+   */
+  async getCompany(recordId: string): Promise<GetCompanyResult> {
+    const record = await this.fetchRecord(recordId)
+    return this.toCompanyResult(record)
+  }
+
+  private toCompanyResult(record: AttioRecord): GetCompanyResult {
+    const values = record.values || {}
+    const properties: Record<string, unknown> = {}
+    const mappedSlugs = new Set<string>(Object.values(ATTIO_ATTRIBUTES))
+
+    for (const [field, slug] of Object.entries(ATTIO_ATTRIBUTES)) {
+      properties[field] = flattenAttioValue(values[slug]?.[0])
+    }
+
+    const location = values.primary_location?.[0] as Partial<AttioLocation> | undefined
+    for (const [field, attioField] of Object.entries(ATTIO_LOCATION_FIELDS)) {
+      properties[field] = location?.[attioField] ?? null
+    }
+    mappedSlugs.add("primary_location")
+
+    for (const [slug, slugValues] of Object.entries(values)) {
+      if (!mappedSlugs.has(slug)) {
+        properties[slug] = flattenAttioValue(slugValues?.[0])
+      }
+    }
+
+    properties.createdate = record.created_at ?? null
+
+    return {
+      id: record.id.record_id,
+      properties,
+      // Attio records carry no modification timestamp, so the version is a
+      // hash of the record's values (each value records when it became active)
+      version: createHash("sha256").update(JSON.stringify(values)).digest("hex").slice(0, 32)
+    }
+  }
+
+  /**
+   * Search company records in Attio
+   * POST /v2/objects/companies/records/query
+   */
+  async searchCompanies(filterGroups: CompanyFilterGroup[]): Promise<GetCompanyResult[]> {
+    const filter = {
+      "$or": filterGroups.map(group => ({
+        "$and": group.filters.map(toAttioFilter)
+      }))
+    }
+
+    const response = await fetchWithTimeout(
+      `${this.baseUrl}/objects/companies/records/query`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${this.apiKey}`,
+        },
+        body: JSON.stringify({ filter, limit: SEARCH_RESULT_LIMIT }),
+      },
+      CRM_TIMEOUT_MS
+    )
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `Attio API error (${response.status}): ${error}`
+      )
+    }
+
+    const data = await response.json()
+    return ((data.data || []) as AttioRecord[]).map(record => this.toCompanyResult(record))
+  }
+
+  /**
+   * List company records in Attio, one page at a time
+   * POST /v2/objects/companies/records/query
+   *
+   * Attio pages by offset, so the cursor is the offset of the next page.
+   * Records are sorted by creation time so pages stay stable while records are added.
+   */
+  async listCompanies(params: ListCompaniesParams): Promise<ListCompaniesResult> {
+    const offset = params.after ? Number(params.after) : 0
+
+    const response = await fetchWithTimeout(
+      `${this.baseUrl}/objects/companies/records/query`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${this.apiKey}`,
+        },
+        body: JSON.stringify({
+          sorts: [{ attribute: "created_at", direction: "asc" }],
+          limit: params.limit,
+          offset
+        }),
+      },
+      CRM_TIMEOUT_MS
+    )
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `Attio API error (${response.status}): ${error}`
+      )
+    }
+
+    const data = await response.json()
+    const records = (data.data || []) as AttioRecord[]
+    return {
+      companies: records.map(record => this.toCompanyResult(record)),
+      nextCursor: records.length === params.limit ? String(offset + records.length) : null
+    }
+  }
+
+  /**
+   * Attio's public API has no record merge endpoint
+   */
+  async mergeCompanies(): Promise<void> {
+    throw new UnsupportedCRMOperationError("attio", "Record merge")
+  }
+
+  /**
+   * Recreate a deleted company in Attio
+   * POST /v2/objects/companies/records
+   *
+   * Attio can't restore deleted records, so a new record is created from the
+   * snapshot's writable attributes.
+   */
+  async restoreCompany(params: RestoreCompanyParams): Promise<string> {
+    const writableSlugs = new Set(
+      (await this.fetchAttributes())
+        .filter(attribute => attribute.is_writable !== false && !attribute.is_archived)
+        .map(attribute => attribute.api_slug)
+    )
+
+    const properties: Record<string, unknown> = {}
+    for (const [key, value] of Object.entries(params.properties)) {
+      if (value === null || value === undefined || value === "") continue
+      const canonicalField = findCanonicalField(ATTIO_ATTRIBUTES, key)
+      const slug = findCanonicalField(ATTIO_LOCATION_FIELDS, key)
+        ? "primary_location"
+        : canonicalField ? ATTIO_ATTRIBUTES[canonicalField] : key
+      if (writableSlugs.has(slug)) {
+        properties[key] = value
+      }
+    }
+
+    const { values, locationUpdates } = this.toAttioValues(properties)
+    if (Object.keys(locationUpdates).length > 0) {
+      values.primary_location = { ...EMPTY_LOCATION, ...locationUpdates }
+    }
+
+    const response = await fetchWithTimeout(
+      `${this.baseUrl}/objects/companies/records`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${this.apiKey}`,
+        },
+        body: JSON.stringify({ data: { values } }),
+      },
+      CRM_TIMEOUT_MS
+    )
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `Attio API error (${response.status}): ${error}`
+      )
+    }
+
+    const data = await response.json()
+    return (data.data as AttioRecord).id.record_id
+  }
+
+  /**
+   * Create a note on a company record in Attio
+   * POST /v2/notes
+   */
+  async addNote(params: AddNoteParams): Promise<void> {
+    const { recordId, title, body } = params
+
+    const response = await fetchWithTimeout(
+      `${this.baseUrl}/notes`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${this.apiKey}`,
+        },
+        body: JSON.stringify({
+          data: {
+            parent_object: "companies",
+            parent_record_id: recordId,
+            title,
+            format: "plaintext",
+            content: body
+          }
+        }),
+      },
+      CRM_TIMEOUT_MS
+    )
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `Attio API error (${response.status}): ${error}`
+      )
+    }
+  }
+
+  /**
+   * List company attribute definitions
+   * GET /v2/objects/companies/attributes
+   */
+  private async fetchAttributes(): Promise<AttioAttribute[]> {
+    const response = await fetchWithTimeout(
+      `${this.baseUrl}/objects/companies/attributes`,
+      {
+        method: "GET",
+        headers: {
+          "Authorization": `Bearer ${this.apiKey}`,
+        },
+      },
+      CRM_TIMEOUT_MS
+    )
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `Attio API error (${response.status}): ${error}`
+      )
+    }
+
+    const data = await response.json()
+    return (data.data || []) as AttioAttribute[]
+  }
+
+  /**
+   * Get allowed values for select attributes in Attio
+   * GET /v2/objects/companies/attributes, then
+   * GET /v2/objects/companies/attributes/{attribute}/options per select attribute
+   */
+  async getPropertyOptions(): Promise<PropertyOptions> {
+    const headers = { "Authorization": `Bearer ${this.apiKey}` }
+
+    const selectSlugs = (await this.fetchAttributes())
+      .filter(attribute => attribute.type === "select" && !attribute.is_archived)
+      .map(attribute => attribute.api_slug)
+
+    const options: PropertyOptions = {}
+    for (const slug of selectSlugs) {
+      const optionsResponse = await fetchWithTimeout(
+        `${this.baseUrl}/objects/companies/attributes/${encodeURIComponent(slug)}/options`,
+        { method: "GET", headers },
+        CRM_TIMEOUT_MS
+      )
+
+      if (!optionsResponse.ok) {
+        const error = await optionsResponse.text()
+        throw new Error(
+          `Attio API error (${optionsResponse.status}): ${error}`
+        )
+      }
+
+      const optionsData = await optionsResponse.json()
+      // Report options under the name getCompany uses (e.g. categories -> industry)
+      const field = Object.keys(ATTIO_ATTRIBUTES).find(key => ATTIO_ATTRIBUTES[key] === slug) || slug
+      options[field] = ((optionsData.data || []) as Array<{ title: string; is_archived?: boolean }>)
+        .filter(option => !option.is_archived)
+        .map(option => option.title)
+    }
+    return options
+  }
+}
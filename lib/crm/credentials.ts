@@ -0,0 +1,48 @@
+/**
+ * Encryption at rest for CRM credentials that background work keeps in the
+ * database (jobs and schedules). AES-256-GCM with the server-side key from
+ * CRM_CREDENTIALS_KEY; stored as "v1:<iv>:<auth tag>:<ciphertext>" (base64).
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto"
+import { CRMCredentials } from "./types"
+
+const ALGORITHM = "aes-256-gcm"
+const FORMAT_VERSION = "v1"
+// 96-bit IVs are the recommended size for GCM
+const IV_BYTES = 12
+
+function getEncryptionKey(): Buffer {
+  const key = process.env.CRM_CREDENTIALS_KEY
+  if (!key || !/^[0-9a-fA-F]{64}$/.test(key)) {
+    throw new Error("CRM_CREDENTIALS_KEY must be set to 32 bytes of hex (openssl rand -hex 32)")
+  }
+  return Buffer.from(key, "hex")
+}
+
+export function encryptCRMCredentials(credentials: CRMCredentials): string {
+  const iv = randomBytes(IV_BYTES)
+  const cipher = createCipheriv(ALGORITHM, getEncryptionKey(), iv)
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(credentials), "utf8"), cipher.final()])
+
+  return [FORMAT_VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map(part => (typeof part === "string" ? part : part.toString("base64")))
+    .join(":")
+}
+
+/**
+ * Throws if the value was not produced by encryptCRMCredentials with the current
+ * key, or has been tampered with
+ */
+export function decryptCRMCredentials(encrypted: string): CRMCredentials {
+  const [version, iv, authTag, ciphertext] = encrypted.split(":")
+  if (version !== FORMAT_VERSION || !iv || !authTag || ciphertext === undefined) {
+    throw new Error("Stored CRM credentials are not in a recognized format")
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, getEncryptionKey(), Buffer.from(iv, "base64"))
+  decipher.setAuthTag(Buffer.from(authTag, "base64"))
+  const plaintext = Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64")), decipher.final()])
+
+  return JSON.parse(plaintext.toString("utf8")) as CRMCredentials
+}
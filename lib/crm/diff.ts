@@ -0,0 +1,196 @@
+import { PropertyMapping, mapPropertyName } from "./mapping"
+import { ConfidenceLevel, MinConfidence, WritePolicy } from "../validation"
+
+/**
+ * Why a cleaned field is not written to the CRM
+ */
+export type SkipReason =
+  | "unmapped"            // no CRM property for this field
+  | "null_value"          // cleaned value is null (cleared values are never written)
+  | "unchanged"           // cleaned value equals the original value
+  | "property_not_found"  // CRM record has no such property
+  | "low_confidence"      // AI confidence is below the caller's minConfidence
+  | "never_write"         // write policy is neverWrite
+  | "crm_value_present"   // write policy is fillEmptyOnly and the CRM already has a value
+
+/**
+ * One row of a CRM write-back diff
+ */
+export interface PropertyChange {
+  field: string
+  crmProperty: string | null
+  oldValue: unknown
+  newValue: unknown
+  // note: appended to a CRM note instead of written (appendToNote policy)
+  action: "write" | "note" | "skip"
+  reason: SkipReason | null
+}
+
+export interface WritePlan {
+  changes: PropertyChange[]
+  // Exact payload passed to CRMClient.updateCompany
+  payload: Record<string, unknown>
+}
+
+/**
+ * Look up a property value case-insensitively
+ */
+function getPropertyValue(properties: Record<string, unknown>, propertyName: string): unknown {
+  if (propertyName in properties) return properties[propertyName]
+  const lower = propertyName.toLowerCase()
+  const key = Object.keys(properties).find(k => k.toLowerCase() === lower)
+  return key === undefined ? undefined : properties[key]
+}
+
+function hasProperty(properties: Record<string, unknown>, propertyName: string): boolean {
+  const lower = propertyName.toLowerCase()
+  return Object.keys(properties).some(k => k.toLowerCase() === lower)
+}
+
+const CONFIDENCE_RANK: Record<ConfidenceLevel, number> = { LOW: 0, MEDIUM: 1, HIGH: 2 }
+
+/**
+ * Resolve the threshold for a field (per-field thresholds only gate the fields they name)
+ */
+export function getMinConfidence(minConfidence: MinConfidence | undefined, field: string): ConfidenceLevel | null {
+  if (!minConfidence) return null
+  if (typeof minConfidence === "string") return minConfidence
+  return minConfidence[field] ?? null
+}
+
+function meetsMinConfidence(confidence: unknown, threshold: ConfidenceLevel | null): boolean {
+  if (threshold === null) return true
+  // Missing or unrecognised confidence never passes a threshold
+  const rank = CONFIDENCE_RANK[confidence as ConfidenceLevel]
+  return rank !== undefined && rank >= CONFIDENCE_RANK[threshold]
+}
+
+/**
+ * Normalize a value for comparison (null/undefined -> null, otherwise trimmed string)
+ */
+export function normalizeForComparison(value: unknown): string | null {
+  return value === undefined || value === null ? null : String(value).trim()
+}
+
+/**
+ * Work out which cleaned fields would be written to a CRM record and why the
+ * others are skipped. oldValue is the CRM's current value; change detection
+ * compares against the caller's original input.
+ */
+export function buildWritePlan(params: {
+  cleaned: Record<string, unknown>
+  original: Record<string, unknown>
+  crmProperties: Record<string, unknown>
+  mapping: PropertyMapping
+  confidence?: Record<string, unknown>
+  minConfidence?: MinConfidence
+  writePolicies?: Record<string, WritePolicy>
+}): WritePlan {
+  const { cleaned, original, crmProperties, mapping, confidence = {}, minConfidence, writePolicies = {} } = params
+  const changes: PropertyChange[] = []
+  const payload: Record<string, unknown> = {}
+
+  for (const [field, newValue] of Object.entries(cleaned)) {
+    const crmProperty = mapPropertyName(mapping, field)
+    const oldValue = crmProperty ? getPropertyValue(crmProperties, crmProperty) ?? null : null
+
+    const policy = writePolicies[field] ?? "overwrite"
+
+    let reason: SkipReason | null = null
+    if (crmProperty === null) {
+      reason = "unmapped"
+    } else if (normalizeForComparison(newValue) === null) {
+      reason = "null_value"
+    } else if (normalizeForComparison(original[field]) === normalizeForComparison(newValue)) {
+      reason = "unchanged"
+    } else if (!hasProperty(crmProperties, crmProperty)) {
+      reason = "property_not_found"
+    } else if (!meetsMinConfidence(confidence[field], getMinConfidence(minConfidence, field))) {
+      reason = "low_confidence"
+    } else if (policy === "neverWrite") {
+      reason = "never_write"
+    } else if (policy === "fillEmptyOnly" && normalizeForComparison(oldValue)) {
+      reason = "crm_value_present"
+    }
+
+    let action: PropertyChange["action"] = "skip"
+    if (reason === null && crmProperty !== null) {
+      if (policy === "appendToNote") {
+        action = "note"
+      } else {
+        action = "write"
+        payload[crmProperty] = newValue
+      }
+    }
+
+    changes.push({
+      field,
+      crmProperty,
+      oldValue,
+      newValue,
+      action,
+      reason
+    })
+  }
+
+  return { changes, payload }
+}
+
+/**
+ * Diff a set of property updates against a CRM record's current values
+ * (used when updates are already keyed by CRM property, e.g. merge field updates)
+ */
+export function diffPropertyUpdates(
+  crmProperties: Record<string, unknown>,
+  updates: Record<string, unknown>
+): WritePlan {
+  const changes: PropertyChange[] = []
+  const payload: Record<string, unknown> = {}
+
+  for (const [property, newValue] of Object.entries(updates)) {
+    const oldValue = getPropertyValue(crmProperties, property) ?? null
+    const unchanged = normalizeForComparison(oldValue) === normalizeForComparison(newValue)
+
+    if (!unchanged) {
+      payload[property] = newValue
+    }
+
+    changes.push({
+      field: property,
+      crmProperty: property,
+      oldValue,
+      newValue,
+      action: unchanged ? "skip" : "write",
+      reason: unchanged ? "unchanged" : null
+    })
+  }
+
+  return { changes, payload }
+}
+
+/**
+ * Current CRM values of the properties a write plan will overwrite
+ * (what a rollback needs to restore)
+ */
+export function getPriorValues(plan: WritePlan): Record<string, unknown> {
+  return Object.fromEntries(
+    plan.changes
+      .filter(change => change.action === "write" && change.crmProperty !== null)
+      .map(change => [change.crmProperty as string, change.oldValue ?? null])
+  )
+}
+
+/**
+ * Render the appendToNote changes of a write plan as a plain-text note body
+ * (null when there is nothing to note)
+ */
+export function buildNoteBody(changes: PropertyChange[]): string | null {
+  const lines = changes
+    .filter(change => change.action === "note")
+    .map(change => {
+      const current = normalizeForComparison(change.oldValue) || "(empty)"
+      return `${change.crmProperty}: ${current} -> ${String(change.newValue)}`
+    })
+
+  return lines.length > 0 ? lines.join("\n") : null
+}
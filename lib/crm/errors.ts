@@ -0,0 +1,11 @@
+import { CRMProvider } from "./types"
+
+/**
+ * Thrown when a CRM's API has no equivalent for a CRMClient operation
+ */
+export class UnsupportedCRMOperationError extends Error {
+  constructor(provider: CRMProvider, operation: string) {
+    super(`${operation} is not supported by the ${provider} API`)
+    this.name = "UnsupportedCRMOperationError"
+  }
+}
@@ -0,0 +1,57 @@
+import { CompanyFilter, CompanyFilterGroup } from "./types"
+
+// Search results returned per query (matches HubSpot's search page size)
+export const SEARCH_RESULT_LIMIT = 100
+
+/**
+ * Look up a property value case-insensitively
+ */
+function getPropertyValue(properties: Record<string, unknown>, propertyName: string): unknown {
+  const lower = propertyName.toLowerCase()
+  const key = Object.keys(properties).find(k => k.toLowerCase() === lower)
+  return key === undefined ? undefined : properties[key]
+}
+
+function normalize(value: unknown): string {
+  return String(value).trim().toLowerCase()
+}
+
+/**
+ * Evaluate a single filter against a record's properties
+ */
+export function matchesFilter(properties: Record<string, unknown>, filter: CompanyFilter): boolean {
+  const raw = getPropertyValue(properties, filter.propertyName)
+  const hasValue = raw !== undefined && raw !== null && String(raw).trim() !== ""
+  const actual = hasValue ? normalize(raw) : ""
+  const values = (filter.values || []).map(normalize)
+
+  switch (filter.operator) {
+    case "EQ":
+      return hasValue && filter.value != null && actual === normalize(filter.value)
+    case "NEQ":
+      return filter.value == null || actual !== normalize(filter.value)
+    case "IN":
+      return hasValue && values.includes(actual)
+    case "NOT_IN":
+      return !values.includes(actual)
+    case "HAS_PROPERTY":
+      return hasValue
+    case "NOT_HAS_PROPERTY":
+      return !hasValue
+    case "CONTAINS_TOKEN":
+      return hasValue && filter.value != null && actual.includes(normalize(filter.value))
+    default:
+      return false
+  }
+}
+
+/**
+ * Evaluate filter groups (OR between groups, AND within a group) against a
+ * record's properties. Used by clients whose search APIs can't express every
+ * operator natively.
+ */
+export function matchesFilterGroups(properties: Record<string, unknown>, filterGroups: CompanyFilterGroup[]): boolean {
+  return filterGroups.some(group =>
+    group.filters.length > 0 && group.filters.every(filter => matchesFilter(properties, filter))
+  )
+}
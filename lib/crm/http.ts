@@ -0,0 +1,15 @@
+// Timeout for CRM API calls (15 seconds)
+export const CRM_TIMEOUT_MS = 15000
+
+/**
+ * Helper to create fetch with timeout
+ */
+export function fetchWithTimeout(url: string, options: RequestInit, timeoutMs: number = CRM_TIMEOUT_MS): Promise<Response> {
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), timeoutMs)
+
+  return fetch(url, {
+    ...options,
+    signal: controller.signal
+  }).finally(() => clearTimeout(timeout))
+}
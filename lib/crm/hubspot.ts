@@ -1,19 +1,33 @@
-import { CRMClient, UpdateCompanyParams, DeleteCompanyParams, GetCompanyResult } from "./types"
+import { CRMClient, UpdateCompanyParams, DeleteCompanyParams, RestoreCompanyParams, AddNoteParams, GetCompanyResult, CompanyFilterGroup, ListCompaniesParams, ListCompaniesResult, PropertyOptions } from "./types"
+import { fetchWithTimeout, CRM_TIMEOUT_MS } from "./http"
+import { SEARCH_RESULT_LIMIT } from "./filters"
+import { DEFAULT_PROPERTY_MAPPINGS, mapPropertyName } from "./mapping"
 
-// Timeout for CRM API calls (15 seconds)
-const CRM_TIMEOUT_MS = 15000
+// HubSpot-defined association type for note -> company
+const NOTE_TO_COMPANY_ASSOCIATION_TYPE_ID = 190
+
+// Properties HubSpot sets itself; they are dropped when recreating a company
+const READ_ONLY_PROPERTIES = new Set(["createdate", "hs_lastmodifieddate", "hs_object_id"])
+
+// Company properties returned by getCompany and searchCompanies
+const COMPANY_PROPERTIES = [...new Set([
+  "name", "domain", "website", "phone", "city", "state", "zip",
+  "country", "address", "linkedin", "createdate", "hs_lastmodifieddate",
+  ...Object.values(DEFAULT_PROPERTY_MAPPINGS.hubspot).filter((p): p is string => p !== null)
+])]
+
+interface HubSpotCompany {
+  id: string
+  properties?: Record<string, unknown>
+  updatedAt?: string
+}
 
 /**
- * Helper to create fetch with timeout
+ * Version token for a HubSpot company: its last modification timestamp
  */
-function fetchWithTimeout(url: string, options: RequestInit, timeoutMs: number = CRM_TIMEOUT_MS): Promise<Response> {
-  const controller = new AbortController()
-  const timeout = setTimeout(() => controller.abort(), timeoutMs)
-
-  return fetch(url, {
-    ...options,
-    signal: controller.signal
-  }).finally(() => clearTimeout(timeout))
+function hubspotVersion(company: HubSpotCompany): string | null {
+  const modified = company.properties?.hs_lastmodifieddate ?? company.updatedAt
+  return modified ? String(modified) : null
 }
 
 /**
@@ -21,6 +35,7 @@ function fetchWithTimeout(url: string, options: RequestInit, timeoutMs: number =
  * Docs: https://developers.hubspot.com/docs/api/crm/companies
  */
 export class HubSpotClient implements CRMClient {
+  readonly supportsMerge = true
   private apiKey: string
   private baseUrl = "https://api.hubapi.com"
 
@@ -33,7 +48,11 @@ export class HubSpotClient implements CRMClient {
    * PATCH /crm/v3/objects/companies/{companyId}
    */
   async updateCompany(params: UpdateCompanyParams): Promise<void> {
-    const { recordId, properties } = params
+    const { recordId } = params
+    // HubSpot clears a property with an empty string
+    const properties = Object.fromEntries(
+      Object.entries(params.properties).map(([key, value]) => [key, value === null ? "" : value])
+    )
 
     const response = await fetchWithTimeout(
       `${this.baseUrl}/crm/v3/objects/companies/${recordId}`,
@@ -109,13 +128,16 @@ export class HubSpotClient implements CRMClient {
   /**
    * Get a company record from HubSpot
    * GET /crm/v3/objects/companies/{companyId}?properties=...
+   *
+   * HubSpot only returns requested properties, so callers writing to custom
+   * properties pass them as extraProperties. Properties that don't exist in
+   * the portal are omitted from the result.
    */
-  async getCompany(recordId: string): Promise<GetCompanyResult> {
+  async getCompany(recordId: string, extraProperties: string[] = []): Promise<GetCompanyResult> {
     // Request all relevant properties including date fields
-    const properties = [
-      "name", "domain", "website", "phone", "city", "state", "zip",
-      "country", "address", "linkedin", "createdate", "hs_lastmodifieddate"
-    ].join(",")
+    const properties = [...new Set([...COMPANY_PROPERTIES, ...extraProperties])]
+      .map(encodeURIComponent)
+      .join(",")
 
     const response = await fetchWithTimeout(
       `${this.baseUrl}/crm/v3/objects/companies/${recordId}?properties=${properties}`,
@@ -138,7 +160,250 @@ export class HubSpotClient implements CRMClient {
     const data = await response.json()
     return {
       id: data.id,
-      properties: data.properties || {}
+      properties: data.properties || {},
+      version: hubspotVersion(data)
+    }
+  }
+
+  /**
+   * Search company records in HubSpot
+   * POST /crm/v3/objects/companies/search
+   */
+  async searchCompanies(filterGroups: CompanyFilterGroup[]): Promise<GetCompanyResult[]> {
+    // HubSpot requires value and values to be mutually exclusive, so drop nulls
+    const hubspotFilterGroups = filterGroups.map(group => ({
+      filters: group.filters.map(filter => {
+        const hubspotFilter: Record<string, unknown> = {
+          propertyName: mapPropertyName(DEFAULT_PROPERTY_MAPPINGS.hubspot, filter.propertyName)
+            || filter.propertyName.toLowerCase(),
+          operator: filter.operator
+        }
+        if (filter.value !== null && filter.value !== undefined) {
+          hubspotFilter.value = filter.value
+        }
+        if (filter.values !== null && filter.values !== undefined) {
+          hubspotFilter.values = filter.values
+        }
+        return hubspotFilter
+      })
+    }))
+
+    const response = await fetchWithTimeout(
+      `${this.baseUrl}/crm/v3/objects/companies/search`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${this.apiKey}`,
+        },
+        body: JSON.stringify({
+          filterGroups: hubspotFilterGroups,
+          properties: COMPANY_PROPERTIES,
+          limit: SEARCH_RESULT_LIMIT
+        }),
+      },
+      CRM_TIMEOUT_MS
+    )
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `HubSpot API error (${response.status}): ${error}`
+      )
+    }
+
+    const data = await response.json()
+    return ((data.results || []) as HubSpotCompany[]).map(result => ({
+      id: result.id,
+      properties: result.properties || {},
+      version: hubspotVersion(result)
+    }))
+  }
+
+  /**
+   * List company records in HubSpot, one page at a time
+   * GET /crm/v3/objects/companies?limit=...&after=...&properties=...
+   *
+   * HubSpot returns at most 100 records per page; paging.next.after is the cursor.
+   */
+  async listCompanies(params: ListCompaniesParams): Promise<ListCompaniesResult> {
+    const query = new URLSearchParams({
+      limit: String(Math.min(params.limit, 100)),
+      properties: COMPANY_PROPERTIES.join(","),
+      archived: "false"
+    })
+    if (params.after) {
+      query.set("after", params.after)
+    }
+
+    const response = await fetchWithTimeout(
+      `${this.baseUrl}/crm/v3/objects/companies?${query}`,
+      {
+        method: "GET",
+        headers: {
+          "Authorization": `Bearer ${this.apiKey}`,
+        },
+      },
+      CRM_TIMEOUT_MS
+    )
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `HubSpot API error (${response.status}): ${error}`
+      )
+    }
+
+    const data = await response.json()
+    return {
+      companies: ((data.results || []) as HubSpotCompany[]).map(result => ({
+        id: result.id,
+        properties: result.properties || {},
+        version: hubspotVersion(result)
+      })),
+      nextCursor: data.paging?.next?.after ?? null
+    }
+  }
+
+  /**
+   * Merge one company into another in HubSpot
+   * POST /crm/v3/objects/companies/merge
+   */
+  async mergeCompanies(primaryId: string, mergedId: string): Promise<void> {
+    const response = await fetchWithTimeout(
+      `${this.baseUrl}/crm/v3/objects/companies/merge`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${this.apiKey}`,
+        },
+        body: JSON.stringify({
+          primaryObjectId: primaryId,
+          objectIdToMerge: mergedId
+        }),
+      },
+      CRM_TIMEOUT_MS
+    )
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `HubSpot API error (${response.status}): ${error}`
+      )
+    }
+  }
+
+  /**
+   * Recreate a deleted or merged company in HubSpot
+   * POST /crm/v3/objects/companies
+   *
+   * HubSpot's API can't restore archived companies, so a new record is
+   * created from the snapshot (associations are not restored).
+   */
+  async restoreCompany(params: RestoreCompanyParams): Promise<string> {
+    const properties = Object.fromEntries(
+      Object.entries(params.properties).filter(([key, value]) =>
+        !READ_ONLY_PROPERTIES.has(key) && value !== null && value !== undefined && value !== ""
+      )
+    )
+
+    const response = await fetchWithTimeout(
+      `${this.baseUrl}/crm/v3/objects/companies`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${this.apiKey}`,
+        },
+        body: JSON.stringify({ properties }),
+      },
+      CRM_TIMEOUT_MS
+    )
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `HubSpot API error (${response.status}): ${error}`
+      )
+    }
+
+    const data = await response.json()
+    return String(data.id)
+  }
+
+  /**
+   * Create a note associated with a company in HubSpot
+   * POST /crm/v3/objects/notes
+   */
+  async addNote(params: AddNoteParams): Promise<void> {
+    const { recordId, title, body } = params
+
+    const response = await fetchWithTimeout(
+      `${this.baseUrl}/crm/v3/objects/notes`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${this.apiKey}`,
+        },
+        body: JSON.stringify({
+          properties: {
+            hs_note_body: `${title}\n\n${body}`,
+            hs_timestamp: new Date().toISOString()
+          },
+          associations: [{
+            to: { id: recordId },
+            types: [{
+              associationCategory: "HUBSPOT_DEFINED",
+              associationTypeId: NOTE_TO_COMPANY_ASSOCIATION_TYPE_ID
+            }]
+          }]
+        }),
+      },
+      CRM_TIMEOUT_MS
+    )
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `HubSpot API error (${response.status}): ${error}`
+      )
+    }
+  }
+
+  /**
+   * Get allowed values for enumeration properties in HubSpot
+   * GET /crm/v3/properties/companies
+   */
+  async getPropertyOptions(): Promise<PropertyOptions> {
+    const response = await fetchWithTimeout(
+      `${this.baseUrl}/crm/v3/properties/companies`,
+      {
+        method: "GET",
+        headers: {
+          "Authorization": `Bearer ${this.apiKey}`,
+        },
+      },
+      CRM_TIMEOUT_MS
+    )
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `HubSpot API error (${response.status}): ${error}`
+      )
+    }
+
+    const data = await response.json()
+    const options: PropertyOptions = {}
+    for (const property of (data.results || []) as Array<{ name: string; type: string; options?: Array<{ value: string; hidden?: boolean }> }>) {
+      if (property.type === "enumeration" && property.options?.length) {
+        options[property.name] = property.options
+          .filter(option => !option.hidden)
+          .map(option => option.value)
+      }
     }
+    return options
   }
 }
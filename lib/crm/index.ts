@@ -1,5 +1,19 @@
 import { CRMClient, CRMCredentials, CRMProvider } from "./types"
 import { HubSpotClient } from "./hubspot"
+import { AttioClient } from "./attio"
+import { SalesforceClient } from "./salesforce"
+import { ZohoClient, isZohoDataCenter } from "./zoho"
+import { PipedriveClient } from "./pipedrive"
+
+export { UnsupportedCRMOperationError } from "./errors"
+export { encryptCRMCredentials, decryptCRMCredentials } from "./credentials"
+export { getCachedPropertyOptions, getFieldOptions } from "./properties"
+export { buildWritePlan, buildNoteBody, diffPropertyUpdates, getMinConfidence, getPriorValues } from "./diff"
+export type { PropertyChange, WritePlan, SkipReason } from "./diff"
+export { hasVersionChanged, versionConflictResponseBody } from "./version"
+export { resolvePropertyMapping, mapPropertyName, DEFAULT_PROPERTY_MAPPINGS, CANONICAL_COMPANY_FIELDS } from "./mapping"
+export type { PropertyMapping, CanonicalCompanyField } from "./mapping"
+export type { CRMClient, GetCompanyResult, AddNoteParams, RestoreCompanyParams, ListCompaniesParams, ListCompaniesResult, CompanyFilter, CompanyFilterGroup, CompanyFilterOperator, PropertyOptions } from "./types"
 
 /**
  * Detect CRM provider from request headers
@@ -15,7 +29,7 @@ export function detectCRMFromHeaders(headers: Headers): CRMCredentials | null {
     }
   }
 
-  // Check for Attio (future)
+  // Check for Attio
   const attioKey = headers.get("x-attio-api-key")
   if (attioKey) {
     return {
@@ -24,21 +38,32 @@ export function detectCRMFromHeaders(headers: Headers): CRMCredentials | null {
     }
   }
 
-  // Check for Zoho (future)
+  // Check for Zoho (access token + optional data center, defaults to .com)
   const zohoKey = headers.get("x-zoho-api-key")
   if (zohoKey) {
     return {
       provider: "zoho",
       apiKey: zohoKey,
+      dataCenter: headers.get("x-zoho-data-center") || undefined,
     }
   }
 
-  // Check for Salesforce (future)
+  // Check for Salesforce (access token + instance URL)
   const salesforceKey = headers.get("x-salesforce-api-key")
   if (salesforceKey) {
     return {
       provider: "salesforce",
       apiKey: salesforceKey,
+      instanceUrl: headers.get("x-salesforce-instance-url") || undefined,
+    }
+  }
+
+  // Check for Pipedrive
+  const pipedriveKey = headers.get("x-pipedrive-api-key")
+  if (pipedriveKey) {
+    return {
+      provider: "pipedrive",
+      apiKey: pipedriveKey,
     }
   }
 
@@ -54,13 +79,21 @@ export function createCRMClient(credentials: CRMCredentials): CRMClient {
       return new HubSpotClient(credentials.apiKey)
 
     case "attio":
-      throw new Error("Attio integration coming soon")
+      return new AttioClient(credentials.apiKey)
 
-    case "zoho":
-      throw new Error("Zoho integration coming soon")
+    case "zoho": {
+      const dataCenter = credentials.dataCenter || "com"
+      if (!isZohoDataCenter(dataCenter)) {
+        throw new Error(`Invalid Zoho data center '${dataCenter}'. Supported: com, eu, in, com.au`)
+      }
+      return new ZohoClient(credentials.apiKey, dataCenter)
+    }
 
     case "salesforce":
-      throw new Error("Salesforce integration coming soon")
+      return new SalesforceClient(credentials.apiKey, credentials.instanceUrl || "")
+
+    case "pipedrive":
+      return new PipedriveClient(credentials.apiKey)
 
     default:
       throw new Error(`Unsupported CRM provider: ${credentials.provider}`)
@@ -0,0 +1,115 @@
+import { CRMProvider } from "./types"
+
+/**
+ * Canonical company fields used by the clean schema
+ */
+export const CANONICAL_COMPANY_FIELDS = [
+  "name", "legalName", "description", "industry", "website", "domain", "city", "state",
+  "country", "postalCode", "phone", "street", "linkedIn", "facebook", "instagram", "twitter"
+] as const
+
+export type CanonicalCompanyField = typeof CANONICAL_COMPANY_FIELDS[number]
+
+/**
+ * Field name -> CRM property name. A null target means "never write this field".
+ */
+export type PropertyMapping = Record<string, string | null>
+
+/**
+ * Default write targets per CRM
+ *
+ * HubSpot clients take native property names. The other clients translate
+ * canonical names themselves, so their defaults only list the fields the CRM
+ * has a standard home for. Fields without a default are not written unless
+ * the caller maps them (e.g. legalName -> a custom property).
+ */
+export const DEFAULT_PROPERTY_MAPPINGS: Record<CRMProvider, PropertyMapping> = {
+  hubspot: {
+    name: "name",
+    description: "description",
+    industry: "industry",
+    website: "website",
+    domain: "domain",
+    city: "city",
+    state: "state",
+    country: "country",
+    postalCode: "zip",
+    phone: "phone",
+    street: "address",
+    linkedIn: "linkedin_company_page",
+    facebook: "facebook_company_page",
+  },
+  attio: {
+    name: "name",
+    description: "description",
+    industry: "industry",
+    domain: "domain",
+    city: "city",
+    state: "state",
+    country: "country",
+    postalCode: "postalCode",
+    street: "street",
+    linkedIn: "linkedIn",
+    facebook: "facebook",
+    instagram: "instagram",
+    twitter: "twitter",
+  },
+  salesforce: {
+    name: "name",
+    description: "description",
+    industry: "industry",
+    website: "website",
+    city: "city",
+    state: "state",
+    country: "country",
+    postalCode: "postalCode",
+    phone: "phone",
+    street: "street",
+  },
+  zoho: {
+    name: "name",
+    description: "description",
+    industry: "industry",
+    website: "website",
+    city: "city",
+    state: "state",
+    country: "country",
+    postalCode: "postalCode",
+    phone: "phone",
+    street: "street",
+  },
+  pipedrive: {
+    name: "name",
+    city: "city",
+    state: "state",
+    country: "country",
+    postalCode: "postalCode",
+    street: "street",
+  },
+}
+
+/**
+ * Merge caller overrides on top of the provider defaults
+ */
+export function resolvePropertyMapping(
+  provider: CRMProvider,
+  overrides?: PropertyMapping
+): PropertyMapping {
+  return {
+    ...DEFAULT_PROPERTY_MAPPINGS[provider],
+    ...(overrides || {})
+  }
+}
+
+/**
+ * Look up the CRM property for a field (case-insensitive, so both
+ * "postalCode" and "postalcode" resolve). Returns null when unmapped.
+ */
+export function mapPropertyName(mapping: PropertyMapping, field: string): string | null {
+  if (field in mapping) {
+    return mapping[field]
+  }
+  const lower = field.toLowerCase()
+  const key = Object.keys(mapping).find(k => k.toLowerCase() === lower)
+  return key === undefined ? null : mapping[key]
+}
@@ -0,0 +1,444 @@
+import { CRMClient, UpdateCompanyParams, DeleteCompanyParams, RestoreCompanyParams, AddNoteParams, GetCompanyResult, CompanyFilterGroup, ListCompaniesParams, ListCompaniesResult, PropertyOptions } from "./types"
+import { fetchWithTimeout, CRM_TIMEOUT_MS } from "./http"
+import { matchesFilterGroups } from "./filters"
+
+// Pipedrive custom fields are keyed by a 40-character hash
+const CUSTOM_FIELD_KEY_REGEX = /^[a-f0-9]{40}$/
+
+// Canonical clean-schema fields mapped to standard Organization fields
+const PIPEDRIVE_FIELDS: Record<string, string> = {
+  name: "name",
+  createdate: "add_time",
+  lastmodifieddate: "update_time",
+}
+
+// Canonical address fields mapped to Pipedrive's (read-only) geocoded address components
+const PIPEDRIVE_ADDRESS_FIELDS: Record<string, string> = {
+  street: "address_route",
+  city: "address_locality",
+  state: "address_admin_area_level_1",
+  postalCode: "address_postal_code",
+  country: "address_country",
+}
+
+// Organizations hydrated per filter group; search only returns a few fields,
+// so every hit costs one extra request to evaluate the full group
+const SEARCH_HYDRATE_LIMIT = 10
+
+interface PipedriveField {
+  key: string
+  name: string
+  field_type?: string
+  options?: Array<{ id: number; label: string }>
+}
+
+/**
+ * Turn a custom field label into a property name ("Employee count" -> "employee_count")
+ */
+function slugifyFieldName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "")
+}
+
+/**
+ * Resolve a property name case-insensitively against a canonical field map
+ */
+function findCanonicalField(map: Record<string, string>, key: string): string | undefined {
+  const lower = key.toLowerCase()
+  return Object.keys(map).find(field => field.toLowerCase() === lower)
+}
+
+/**
+ * Pipedrive CRM client for Organizations
+ * Docs: https://developers.pipedrive.com/docs/api/v1/Organizations
+ */
+export class PipedriveClient implements CRMClient {
+  readonly supportsMerge = true
+  private apiKey: string
+  private baseUrl = "https://api.pipedrive.com/v1"
+  private customFields: PipedriveField[] | null = null
+
+  constructor(apiKey: string) {
+    this.apiKey = apiKey
+  }
+
+  private async request(path: string, options: RequestInit = {}): Promise<Response> {
+    return fetchWithTimeout(
+      `${this.baseUrl}${path}`,
+      {
+        ...options,
+        headers: {
+          ...(options.body ? { "Content-Type": "application/json" } : {}),
+          "x-api-token": this.apiKey,
+        },
+      },
+      CRM_TIMEOUT_MS
+    )
+  }
+
+  private async fetchOrganization(recordId: string): Promise<Record<string, unknown>> {
+    const response = await this.request(`/organizations/${encodeURIComponent(recordId)}`)
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `Pipedrive API error (${response.status}): ${error}`
+      )
+    }
+
+    const data = await response.json()
+    return (data.data || {}) as Record<string, unknown>
+  }
+
+  /**
+   * Load (and cache) custom organization field definitions
+   * GET /v1/organizationFields
+   */
+  private async getCustomFields(): Promise<PipedriveField[]> {
+    if (this.customFields) {
+      return this.customFields
+    }
+
+    const response = await this.request("/organizationFields?limit=500")
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `Pipedrive API error (${response.status}): ${error}`
+      )
+    }
+
+    const data = await response.json()
+    this.customFields = ((data.data || []) as PipedriveField[])
+      .filter(field => CUSTOM_FIELD_KEY_REGEX.test(field.key))
+    return this.customFields
+  }
+
+  /**
+   * Update an Organization in Pipedrive
+   * PUT /v1/organizations/{id}
+   *
+   * Custom fields may be addressed by hash key or by slugified label.
+   * Address components are recombined into the single writable address field.
+   */
+  async updateCompany(params: UpdateCompanyParams): Promise<void> {
+    const { recordId, properties } = params
+    const fields = await this.toPipedriveFields(properties, recordId)
+
+    const response = await this.request(`/organizations/${encodeURIComponent(recordId)}`, {
+      method: "PUT",
+      body: JSON.stringify(fields),
+    })
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `Pipedrive API error (${response.status}): ${error}`
+      )
+    }
+  }
+
+  /**
+   * Translate canonical and custom properties into an Organization payload
+   * When recordId is given, address parts not being written are read from it.
+   */
+  private async toPipedriveFields(
+    properties: Record<string, unknown>,
+    recordId?: string
+  ): Promise<Record<string, unknown>> {
+    const customFields = await this.getCustomFields()
+
+    const fields: Record<string, unknown> = {}
+    const addressUpdates: Record<string, unknown> = {}
+
+    for (const [key, value] of Object.entries(properties)) {
+      const addressField = findCanonicalField(PIPEDRIVE_ADDRESS_FIELDS, key)
+      if (addressField) {
+        addressUpdates[addressField] = value
+        continue
+      }
+
+      const canonicalField = findCanonicalField(PIPEDRIVE_FIELDS, key)
+      if (canonicalField) {
+        fields[PIPEDRIVE_FIELDS[canonicalField]] = value
+        continue
+      }
+
+      const customField = customFields.find(field =>
+        field.key === key || slugifyFieldName(field.name) === slugifyFieldName(key)
+      )
+      if (!customField) {
+        fields[key] = value
+        continue
+      }
+
+      // Single-option fields are written by option ID, so translate labels back
+      const option = customField.field_type === "enum"
+        ? customField.options?.find(o => o.label === value)
+        : undefined
+      fields[customField.key] = option ? option.id : value
+    }
+
+    if (Object.keys(addressUpdates).length > 0) {
+      const existing = recordId ? await this.fetchOrganization(recordId) : {}
+      const parts: Record<string, unknown> = {}
+      for (const [field, pipedriveField] of Object.entries(PIPEDRIVE_ADDRESS_FIELDS)) {
+        parts[field] = field in addressUpdates ? addressUpdates[field] : existing[pipedriveField]
+      }
+      if (!("street" in addressUpdates) && existing.address_street_number) {
+        parts.street = `${existing.address_street_number} ${parts.street ?? ""}`.trim()
+      }
+      fields.address = [parts.street, parts.city, [parts.state, parts.postalCode].filter(Boolean).join(" "), parts.country]
+        .filter(part => part !== null && part !== undefined && String(part).trim() !== "")
+        .join(", ")
+    }
+
+    return fields
+  }
+
+  /**
+   * Delete an Organization in Pipedrive
+   * DELETE /v1/organizations/{id}
+   */
+  async deleteCompany(params: DeleteCompanyParams): Promise<void> {
+    const { recordId } = params
+
+    const response = await this.request(`/organizations/${encodeURIComponent(recordId)}`, {
+      method: "DELETE",
+    })
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `Pipedrive API error (${response.status}): ${error}`
+      )
+    }
+  }
+
+  /**
+   * Check if an Organization exists in Pipedrive
+   * GET /v1/organizations/{id}
+   */
+  async companyExists(recordId: string): Promise<boolean> {
+    try {
+      const response = await this.request(`/organizations/${encodeURIComponent(recordId)}`)
+      return response.ok
+    } catch (error) {
+      console.error("Error checking company existence:", error)
+      return false
+    }
+  }
+
+  /**
+   * Get an Organization from Pipedrive
+   * GET /v1/organizations/{id}
+   *
+   * Standard fields are mapped to the clean schema's field names and custom
+   * field hash keys are replaced by their slugified label.
+   */
+  async getCompany(recordId: string): Promise<GetCompanyResult> {
+    const [organization, customFields] = await Promise.all([
+      this.fetchOrganization(recordId),
+      this.getCustomFields(),
+    ])
+    return this.toCompanyResult(organization, customFields, recordId)
+  }
+
+  private toCompanyResult(
+    organization: Record<string, unknown>,
+    customFields: PipedriveField[],
+    recordId?: string
+  ): GetCompanyResult {
+    const properties: Record<string, unknown> = {}
+
+    for (const [field, pipedriveField] of Object.entries(PIPEDRIVE_FIELDS)) {
+      properties[field] = organization[pipedriveField] ?? null
+    }
+
+    for (const [field, pipedriveField] of Object.entries(PIPEDRIVE_ADDRESS_FIELDS)) {
+      properties[field] = organization[pipedriveField] ?? null
+    }
+    if (organization.address_street_number && properties.street) {
+      properties.street = `${organization.address_street_number} ${properties.street}`
+    }
+
+    for (const field of customFields) {
+      if (field.key in organization) {
+        const value = organization[field.key]
+        // Single-option fields come back as option IDs; expose their label
+        const option = field.field_type === "enum"
+          ? field.options?.find(o => String(o.id) === String(value))
+          : undefined
+        properties[slugifyFieldName(field.name)] = option ? option.label : value
+      }
+    }
+
+    return {
+      id: String(organization.id ?? recordId),
+      properties,
+      version: organization.update_time ? String(organization.update_time) : null
+    }
+  }
+
+  /**
+   * Search Organizations in Pipedrive
+   * GET /v1/organizations/search?term=...
+   *
+   * Pipedrive only supports free-text term search, so each group is searched
+   * by its first value and the hits are checked against the full group.
+   */
+  async searchCompanies(filterGroups: CompanyFilterGroup[]): Promise<GetCompanyResult[]> {
+    const results = new Map<string, GetCompanyResult>()
+
+    for (const group of filterGroups) {
+      const termFilter = group.filters.find(filter =>
+        (filter.operator === "EQ" || filter.operator === "CONTAINS_TOKEN" || filter.operator === "IN") &&
+        (filter.value || filter.values?.[0])
+      )
+      const term = termFilter?.value || termFilter?.values?.[0]
+      // Pipedrive rejects search terms shorter than 2 characters
+      if (!term || term.trim().length < 2) continue
+
+      const response = await this.request(
+        `/organizations/search?term=${encodeURIComponent(term.trim())}&fields=name,address,custom_fields&limit=${SEARCH_HYDRATE_LIMIT}`
+      )
+
+      if (!response.ok) {
+        const error = await response.text()
+        throw new Error(
+          `Pipedrive API error (${response.status}): ${error}`
+        )
+      }
+
+      const data = await response.json()
+      const items = (data.data?.items || []) as Array<{ item: { id: number } }>
+
+      for (const { item } of items) {
+        const id = String(item.id)
+        if (results.has(id)) continue
+        const company = await this.getCompany(id)
+        if (matchesFilterGroups(company.properties, [group])) {
+          results.set(id, company)
+        }
+      }
+    }
+
+    return [...results.values()]
+  }
+
+  /**
+   * List Organizations in Pipedrive, one page at a time
+   * GET /v1/organizations?start=...&limit=...
+   *
+   * Pipedrive pages by offset; additional_data.pagination.next_start is the cursor.
+   */
+  async listCompanies(params: ListCompaniesParams): Promise<ListCompaniesResult> {
+    const start = params.after ? Number(params.after) : 0
+    const [response, customFields] = await Promise.all([
+      this.request(`/organizations?start=${start}&limit=${params.limit}&sort=${encodeURIComponent("id ASC")}`),
+      this.getCustomFields(),
+    ])
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `Pipedrive API error (${response.status}): ${error}`
+      )
+    }
+
+    const data = await response.json()
+    const pagination = data.additional_data?.pagination
+    return {
+      companies: ((data.data || []) as Record<string, unknown>[]).map(organization =>
+        this.toCompanyResult(organization, customFields)
+      ),
+      nextCursor: pagination?.more_items_in_collection ? String(pagination.next_start) : null
+    }
+  }
+
+  /**
+   * Merge one Organization into another
+   * PUT /v1/organizations/{mergedId}/merge
+   *
+   * The organization in the path is removed; merge_with_id survives.
+   */
+  async mergeCompanies(primaryId: string, mergedId: string): Promise<void> {
+    const response = await this.request(`/organizations/${encodeURIComponent(mergedId)}/merge`, {
+      method: "PUT",
+      body: JSON.stringify({ merge_with_id: Number(primaryId) }),
+    })
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `Pipedrive API error (${response.status}): ${error}`
+      )
+    }
+  }
+
+  /**
+   * Recreate a deleted or merged Organization in Pipedrive
+   * POST /v1/organizations
+   *
+   * Pipedrive can't undelete organizations through the API, so a new one is
+   * created from the snapshot (linked deals, people and activities stay detached).
+   */
+  async restoreCompany(params: RestoreCompanyParams): Promise<string> {
+    const properties = Object.fromEntries(
+      Object.entries(params.properties).filter(([key, value]) =>
+        !["createdate", "lastmodifieddate"].includes(key.toLowerCase()) &&
+        value !== null && value !== undefined && value !== ""
+      )
+    )
+    const fields = await this.toPipedriveFields(properties)
+
+    const response = await this.request("/organizations", {
+      method: "POST",
+      body: JSON.stringify(fields),
+    })
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `Pipedrive API error (${response.status}): ${error}`
+      )
+    }
+
+    const data = await response.json()
+    return String(data.data?.id)
+  }
+
+  /**
+   * Attach a note to an Organization in Pipedrive
+   * POST /v1/notes
+   */
+  async addNote(params: AddNoteParams): Promise<void> {
+    const { recordId, title, body } = params
+
+    const response = await this.request("/notes", {
+      method: "POST",
+      body: JSON.stringify({ content: `${title}\n\n${body}`, org_id: Number(recordId) }),
+    })
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `Pipedrive API error (${response.status}): ${error}`
+      )
+    }
+  }
+
+  /**
+   * Get allowed values for single-option custom fields
+   * Uses the cached GET /v1/organizationFields definitions
+   */
+  async getPropertyOptions(): Promise<PropertyOptions> {
+    const customFields = await this.getCustomFields()
+    const options: PropertyOptions = {}
+    for (const field of customFields) {
+      if (field.field_type === "enum" && field.options?.length) {
+        options[slugifyFieldName(field.name)] = field.options.map(option => option.label)
+      }
+    }
+    return options
+  }
+}
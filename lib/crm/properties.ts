@@ -0,0 +1,101 @@
+/**
+ * Cached CRM property definitions
+ * Enumerated property options rarely change, so they are fetched once per
+ * portal and reused across requests.
+ */
+
+import { createHash } from 'crypto'
+import { kv } from '@vercel/kv'
+import { CRMClient, CRMCredentials, PropertyOptions } from './types'
+import { PropertyMapping, mapPropertyName } from './mapping'
+
+interface CachedPropertyOptions {
+  options: PropertyOptions
+  createdAt: number
+}
+
+// Check if KV is available
+const isKVAvailable = Boolean(process.env.KV_REST_API_URL)
+
+// In-memory storage for local development
+const inMemoryStore = new Map<string, CachedPropertyOptions>()
+
+// Property definitions are refreshed after 1 hour
+const PROPERTY_OPTIONS_TTL_SECONDS = 60 * 60
+
+/**
+ * Cache key for a portal. CRM tokens are hashed so they never end up in KV keys.
+ */
+function getCacheKey(credentials: CRMCredentials): string {
+  const portal = createHash('sha256')
+    .update([credentials.apiKey, credentials.instanceUrl || '', credentials.dataCenter || ''].join(':'))
+    .digest('hex')
+  return `crm-properties:${credentials.provider}:${portal}`
+}
+
+/**
+ * Get enumerated property options for a portal, fetching them on a cache miss
+ */
+export async function getCachedPropertyOptions(
+  credentials: CRMCredentials,
+  client: CRMClient
+): Promise<PropertyOptions> {
+  const key = getCacheKey(credentials)
+
+  try {
+    if (isKVAvailable) {
+      const cached = await kv.get<CachedPropertyOptions>(key)
+      if (cached) {
+        return cached.options
+      }
+    } else {
+      const cached = inMemoryStore.get(key)
+      if (cached && Date.now() - cached.createdAt < PROPERTY_OPTIONS_TTL_SECONDS * 1000) {
+        return cached.options
+      }
+      inMemoryStore.delete(key)
+    }
+  } catch (error) {
+    console.error('Error reading cached property options:', error)
+  }
+
+  const options = await client.getPropertyOptions()
+  const record: CachedPropertyOptions = { options, createdAt: Date.now() }
+
+  try {
+    if (isKVAvailable) {
+      await kv.set(key, record, { ex: PROPERTY_OPTIONS_TTL_SECONDS })
+    } else {
+      inMemoryStore.set(key, record)
+    }
+  } catch (error) {
+    console.error('Error caching property options:', error)
+    // Don't throw - caching is not critical
+  }
+
+  return options
+}
+
+/**
+ * Resolve property options for input fields through the property mapping
+ * (e.g. industry -> HubSpot "industry" options), keyed by field name
+ */
+export function getFieldOptions(
+  fields: string[],
+  mapping: PropertyMapping,
+  options: PropertyOptions
+): PropertyOptions {
+  const optionsByProperty = new Map(
+    Object.entries(options).map(([property, values]) => [property.toLowerCase(), values])
+  )
+
+  const fieldOptions: PropertyOptions = {}
+  for (const field of fields) {
+    const property = mapPropertyName(mapping, field)
+    const values = property ? optionsByProperty.get(property.toLowerCase()) : undefined
+    if (values) {
+      fieldOptions[field] = values
+    }
+  }
+  return fieldOptions
+}
@@ -0,0 +1,521 @@
+import { CRMClient, UpdateCompanyParams, DeleteCompanyParams, RestoreCompanyParams, AddNoteParams, GetCompanyResult, CompanyFilter, CompanyFilterGroup, ListCompaniesParams, ListCompaniesResult, PropertyOptions } from "./types"
+import { fetchWithTimeout, CRM_TIMEOUT_MS } from "./http"
+import { SEARCH_RESULT_LIMIT } from "./filters"
+
+// Salesforce REST/SOAP API version
+const SALESFORCE_API_VERSION = "60.0"
+
+// Salesforce record IDs are 15 (case-sensitive) or 18 (case-insensitive) characters
+const SALESFORCE_ID_REGEX = /^[a-zA-Z0-9]{15}(?:[a-zA-Z0-9]{3})?$/
+
+// Only allow instance URLs on Salesforce-owned hosts so the access token is never sent elsewhere
+const SALESFORCE_INSTANCE_URL_REGEX = /^https:\/\/[a-z0-9.-]+\.(?:salesforce|force)\.com\/?$/i
+
+// Canonical clean-schema fields mapped to standard Account fields
+const SALESFORCE_FIELDS: Record<string, string> = {
+  name: "Name",
+  website: "Website",
+  phone: "Phone",
+  industry: "Industry",
+  description: "Description",
+  street: "BillingStreet",
+  city: "BillingCity",
+  state: "BillingState",
+  postalCode: "BillingPostalCode",
+  country: "BillingCountry",
+  createdate: "CreatedDate",
+  lastmodifieddate: "LastModifiedDate",
+}
+
+// Field API names that are safe to interpolate into SOQL
+const SOQL_FIELD_REGEX = /^[A-Za-z][A-Za-z0-9_]*$/
+
+// Long text area fields can't be used in SOQL WHERE clauses
+const SOQL_UNFILTERABLE_FIELDS = new Set(["Description"])
+
+/**
+ * Validate a Salesforce instance URL (e.g. https://acme.my.salesforce.com)
+ */
+export function isValidSalesforceInstanceUrl(instanceUrl: string | undefined): boolean {
+  return !!instanceUrl && SALESFORCE_INSTANCE_URL_REGEX.test(instanceUrl)
+}
+
+/**
+ * Escape a value for use inside an XML text node
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+}
+
+/**
+ * Escape a value for use inside a SOQL string literal
+ */
+function escapeSoql(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")
+}
+
+/**
+ * Quote a string literal for SOQL
+ */
+function soqlString(value: string): string {
+  return `'${escapeSoql(value)}'`
+}
+
+/**
+ * Translate a canonical property name into an Account field API name
+ */
+function toSalesforceField(propertyName: string): string | null {
+  const canonicalField = Object.keys(SALESFORCE_FIELDS).find(
+    field => field.toLowerCase() === propertyName.toLowerCase()
+  )
+  // Accounts have no domain field; domains are matched against Website
+  if (propertyName.toLowerCase() === "domain") return "Website"
+  const field = canonicalField ? SALESFORCE_FIELDS[canonicalField] : propertyName
+  return SOQL_FIELD_REGEX.test(field) && !SOQL_UNFILTERABLE_FIELDS.has(field) ? field : null
+}
+
+/**
+ * Translate a neutral filter into a SOQL condition (null if it can't be expressed)
+ */
+function toSoqlCondition(filter: CompanyFilter): string | null {
+  const field = toSalesforceField(filter.propertyName)
+  if (!field) return null
+
+  const value = filter.value ?? ""
+  const values = (filter.values || []).map(soqlString).join(", ")
+  // Domains are stored inside full website URLs
+  const operator = field === "Website" && filter.propertyName.toLowerCase() === "domain" && filter.operator === "EQ"
+    ? "CONTAINS_TOKEN"
+    : filter.operator
+
+  switch (operator) {
+    case "EQ":
+      return `${field} = ${soqlString(value)}`
+    case "NEQ":
+      return `${field} != ${soqlString(value)}`
+    case "IN":
+      return values ? `${field} IN (${values})` : null
+    case "NOT_IN":
+      return values ? `${field} NOT IN (${values})` : null
+    case "HAS_PROPERTY":
+      return `${field} != null`
+    case "NOT_HAS_PROPERTY":
+      return `${field} = null`
+    case "CONTAINS_TOKEN":
+      // LIKE wildcards are escaped after string escaping so their backslash survives
+      return `${field} LIKE '%${escapeSoql(value).replace(/[%_]/g, "\\$&")}%'`
+    default:
+      return null
+  }
+}
+
+/**
+ * Salesforce CRM client for Account records
+ * Docs: https://developer.salesforce.com/docs/atlas.en-us.api_rest.meta/api_rest/resources_sobject_retrieve.htm
+ */
+export class SalesforceClient implements CRMClient {
+  readonly supportsMerge = true
+  private accessToken: string
+  private instanceUrl: string
+
+  constructor(accessToken: string, instanceUrl: string) {
+    if (!isValidSalesforceInstanceUrl(instanceUrl)) {
+      throw new Error("Invalid Salesforce instance URL. Please provide x-salesforce-instance-url header (e.g. https://yourorg.my.salesforce.com).")
+    }
+    this.accessToken = accessToken
+    this.instanceUrl = instanceUrl.replace(/\/$/, "")
+  }
+
+  private get dataUrl(): string {
+    return `${this.instanceUrl}/services/data/v${SALESFORCE_API_VERSION}`
+  }
+
+  private assertValidId(recordId: string): void {
+    if (!SALESFORCE_ID_REGEX.test(recordId)) {
+      throw new Error(`Invalid Salesforce record ID: ${recordId}`)
+    }
+  }
+
+  /**
+   * Update an Account record in Salesforce
+   * PATCH /services/data/vXX.X/sobjects/Account/{id}
+   *
+   * Canonical field names are translated to Account fields; anything else
+   * (e.g. custom fields like Tier__c) is sent as a field API name.
+   */
+  async updateCompany(params: UpdateCompanyParams): Promise<void> {
+    const { recordId, properties } = params
+    this.assertValidId(recordId)
+
+    const fields: Record<string, unknown> = {}
+    for (const [key, value] of Object.entries(properties)) {
+      const canonicalField = Object.keys(SALESFORCE_FIELDS).find(
+        field => field.toLowerCase() === key.toLowerCase()
+      )
+      fields[canonicalField ? SALESFORCE_FIELDS[canonicalField] : key] = value
+    }
+
+    const response = await fetchWithTimeout(
+      `${this.dataUrl}/sobjects/Account/${recordId}`,
+      {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${this.accessToken}`,
+        },
+        body: JSON.stringify(fields),
+      },
+      CRM_TIMEOUT_MS
+    )
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `Salesforce API error (${response.status}): ${error}`
+      )
+    }
+  }
+
+  /**
+   * Delete an Account record in Salesforce
+   * DELETE /services/data/vXX.X/sobjects/Account/{id}
+   */
+  async deleteCompany(params: DeleteCompanyParams): Promise<void> {
+    const { recordId } = params
+    this.assertValidId(recordId)
+
+    const response = await fetchWithTimeout(
+      `${this.dataUrl}/sobjects/Account/${recordId}`,
+      {
+        method: "DELETE",
+        headers: {
+          "Authorization": `Bearer ${this.accessToken}`,
+        },
+      },
+      CRM_TIMEOUT_MS
+    )
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `Salesforce API error (${response.status}): ${error}`
+      )
+    }
+  }
+
+  /**
+   * Check if an Account record exists in Salesforce
+   * GET /services/data/vXX.X/query?q=SELECT Id FROM Account WHERE Id = '{id}'
+   */
+  async companyExists(recordId: string): Promise<boolean> {
+    if (!SALESFORCE_ID_REGEX.test(recordId)) {
+      return false
+    }
+
+    try {
+      const soql = `SELECT Id FROM Account WHERE Id = '${recordId}' LIMIT 1`
+      const response = await fetchWithTimeout(
+        `${this.dataUrl}/query?q=${encodeURIComponent(soql)}`,
+        {
+          method: "GET",
+          headers: {
+            "Authorization": `Bearer ${this.accessToken}`,
+          },
+        },
+        CRM_TIMEOUT_MS
+      )
+
+      if (!response.ok) {
+        return false
+      }
+
+      const data = await response.json()
+      return (data.totalSize ?? 0) > 0
+    } catch (error) {
+      console.error("Error checking company existence:", error)
+      return false
+    }
+  }
+
+  /**
+   * Get an Account record from Salesforce
+   * GET /services/data/vXX.X/sobjects/Account/{id}
+   *
+   * Standard fields are mapped to the clean schema's field names; custom
+   * fields (__c) are returned under their API name.
+   */
+  async getCompany(recordId: string): Promise<GetCompanyResult> {
+    this.assertValidId(recordId)
+
+    const response = await fetchWithTimeout(
+      `${this.dataUrl}/sobjects/Account/${recordId}`,
+      {
+        method: "GET",
+        headers: {
+          "Authorization": `Bearer ${this.accessToken}`,
+        },
+      },
+      CRM_TIMEOUT_MS
+    )
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `Salesforce API error (${response.status}): ${error}`
+      )
+    }
+
+    const data = await response.json() as Record<string, unknown>
+    return this.toCompanyResult(data)
+  }
+
+  private toCompanyResult(data: Record<string, unknown>): GetCompanyResult {
+    const properties: Record<string, unknown> = {}
+
+    for (const [field, salesforceField] of Object.entries(SALESFORCE_FIELDS)) {
+      properties[field] = data[salesforceField] ?? null
+    }
+
+    for (const [key, value] of Object.entries(data)) {
+      if (key.endsWith("__c")) {
+        properties[key] = value
+      }
+    }
+
+    return {
+      id: String(data.Id),
+      properties,
+      version: data.LastModifiedDate ? String(data.LastModifiedDate) : null
+    }
+  }
+
+  /**
+   * Search Account records in Salesforce with SOQL
+   * GET /services/data/vXX.X/query?q=SELECT ... FROM Account WHERE ...
+   */
+  async searchCompanies(filterGroups: CompanyFilterGroup[]): Promise<GetCompanyResult[]> {
+    const groupConditions = filterGroups
+      .map(group => group.filters.map(toSoqlCondition).filter((c): c is string => c !== null))
+      .filter(conditions => conditions.length > 0)
+      .map(conditions => `(${conditions.join(" AND ")})`)
+
+    if (groupConditions.length === 0) {
+      return []
+    }
+
+    const fields = ["Id", ...new Set(Object.values(SALESFORCE_FIELDS))].join(", ")
+    const soql = `SELECT ${fields} FROM Account WHERE ${groupConditions.join(" OR ")} LIMIT ${SEARCH_RESULT_LIMIT}`
+
+    const response = await fetchWithTimeout(
+      `${this.dataUrl}/query?q=${encodeURIComponent(soql)}`,
+      {
+        method: "GET",
+        headers: {
+          "Authorization": `Bearer ${this.accessToken}`,
+        },
+      },
+      CRM_TIMEOUT_MS
+    )
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `Salesforce API error (${response.status}): ${error}`
+      )
+    }
+
+    const data = await response.json()
+    return ((data.records || []) as Record<string, unknown>[]).map(record => this.toCompanyResult(record))
+  }
+
+  /**
+   * List Account records in Salesforce, one page at a time
+   * GET /services/data/vXX.X/query?q=SELECT ... FROM Account WHERE Id > ... ORDER BY Id
+   *
+   * Pages are keyed on Id (the cursor is the last Id of the previous page)
+   * rather than nextRecordsUrl, which expires between requests.
+   */
+  async listCompanies(params: ListCompaniesParams): Promise<ListCompaniesResult> {
+    if (params.after) {
+      this.assertValidId(params.after)
+    }
+
+    const fields = ["Id", ...new Set(Object.values(SALESFORCE_FIELDS))].join(", ")
+    const where = params.after ? ` WHERE Id > ${soqlString(params.after)}` : ""
+    const soql = `SELECT ${fields} FROM Account${where} ORDER BY Id LIMIT ${params.limit}`
+
+    const response = await fetchWithTimeout(
+      `${this.dataUrl}/query?q=${encodeURIComponent(soql)}`,
+      {
+        method: "GET",
+        headers: {
+          "Authorization": `Bearer ${this.accessToken}`,
+        },
+      },
+      CRM_TIMEOUT_MS
+    )
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `Salesforce API error (${response.status}): ${error}`
+      )
+    }
+
+    const data = await response.json()
+    const companies = ((data.records || []) as Record<string, unknown>[]).map(record => this.toCompanyResult(record))
+    return {
+      companies,
+      nextCursor: companies.length === params.limit ? companies[companies.length - 1].id : null
+    }
+  }
+
+  /**
+   * Merge one Account into another using Salesforce's native merge call
+   * POST /services/Soap/u/XX.X (merge)
+   *
+   * The merge operation is only exposed through the SOAP API; an OAuth
+   * access token is accepted as the SOAP session ID.
+   */
+  async mergeCompanies(primaryId: string, mergedId: string): Promise<void> {
+    this.assertValidId(primaryId)
+    this.assertValidId(mergedId)
+
+    await this.soapCall(`<urn:merge>
+      <urn:request>
+        <urn:masterRecord>
+          <sobj:type>Account</sobj:type>
+          <sobj:Id>${primaryId}</sobj:Id>
+        </urn:masterRecord>
+        <urn:recordToMergeIds>${mergedId}</urn:recordToMergeIds>
+      </urn:request>
+    </urn:merge>`)
+  }
+
+  /**
+   * Restore a deleted or merged-away Account from the Recycle Bin
+   * POST /services/Soap/u/XX.X (undelete)
+   *
+   * Deleted and merged records stay in the Recycle Bin (15 days by default)
+   * and keep their ID when undeleted.
+   */
+  async restoreCompany(params: RestoreCompanyParams): Promise<string> {
+    const { recordId } = params
+    this.assertValidId(recordId)
+
+    await this.soapCall(`<urn:undelete>
+      <urn:ids>${recordId}</urn:ids>
+    </urn:undelete>`)
+
+    return recordId
+  }
+
+  /**
+   * Send a partner SOAP API call and throw unless it reports success
+   */
+  private async soapCall(body: string): Promise<void> {
+    const envelope = `<?xml version="1.0" encoding="utf-8"?>
+<soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/" xmlns:urn="urn:partner.soap.sforce.com" xmlns:sobj="urn:sobject.partner.soap.sforce.com">
+  <soapenv:Header>
+    <urn:SessionHeader>
+      <urn:sessionId>${escapeXml(this.accessToken)}</urn:sessionId>
+    </urn:SessionHeader>
+  </soapenv:Header>
+  <soapenv:Body>
+    ${body}
+  </soapenv:Body>
+</soapenv:Envelope>`
+
+    const response = await fetchWithTimeout(
+      `${this.instanceUrl}/services/Soap/u/${SALESFORCE_API_VERSION}`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "text/xml; charset=UTF-8",
+          "SOAPAction": "\"\"",
+        },
+        body: envelope,
+      },
+      CRM_TIMEOUT_MS
+    )
+
+    const result = await response.text()
+
+    if (!response.ok || !/<success>true<\/success>/.test(result)) {
+      throw new Error(
+        `Salesforce API error (${response.status}): ${result}`
+      )
+    }
+  }
+
+  /**
+   * Attach a note to an Account in Salesforce
+   * POST /services/data/vXX.X/sobjects/Note
+   */
+  async addNote(params: AddNoteParams): Promise<void> {
+    const { recordId, title, body } = params
+    this.assertValidId(recordId)
+
+    const response = await fetchWithTimeout(
+      `${this.dataUrl}/sobjects/Note`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${this.accessToken}`,
+        },
+        body: JSON.stringify({ ParentId: recordId, Title: title, Body: body }),
+      },
+      CRM_TIMEOUT_MS
+    )
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `Salesforce API error (${response.status}): ${error}`
+      )
+    }
+  }
+
+  /**
+   * Get allowed values for picklist fields on Account
+   * GET /services/data/vXX.X/sobjects/Account/describe
+   */
+  async getPropertyOptions(): Promise<PropertyOptions> {
+    const response = await fetchWithTimeout(
+      `${this.dataUrl}/sobjects/Account/describe`,
+      {
+        method: "GET",
+        headers: {
+          "Authorization": `Bearer ${this.accessToken}`,
+        },
+      },
+      CRM_TIMEOUT_MS
+    )
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `Salesforce API error (${response.status}): ${error}`
+      )
+    }
+
+    const data = await response.json()
+    const options: PropertyOptions = {}
+    for (const field of (data.fields || []) as Array<{ name: string; type: string; picklistValues?: Array<{ value: string; active: boolean }> }>) {
+      if ((field.type === "picklist" || field.type === "multipicklist") && field.picklistValues?.length) {
+        // Report options under the name getCompany uses (e.g. Industry -> industry)
+        const canonicalField = Object.keys(SALESFORCE_FIELDS).find(key => SALESFORCE_FIELDS[key] === field.name)
+        options[canonicalField || field.name] = field.picklistValues
+          .filter(value => value.active)
+          .map(value => value.value)
+      }
+    }
+    return options
+  }
+}
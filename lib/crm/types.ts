@@ -2,15 +2,20 @@
  * Common types for CRM integrations
  */
 
-export type CRMProvider = "hubspot" | "attio" | "zoho" | "salesforce"
+export type CRMProvider = "hubspot" | "attio" | "zoho" | "salesforce" | "pipedrive"
 
 export interface CRMCredentials {
   provider: CRMProvider
   apiKey: string
+  // Salesforce only: org instance URL (e.g. https://acme.my.salesforce.com)
+  instanceUrl?: string
+  // Zoho only: data center domain suffix (com, eu, in, com.au)
+  dataCenter?: string
 }
 
 export interface UpdateCompanyParams {
   recordId: string
+  // null clears a property; each client sends its CRM's way of clearing a field
   properties: Record<string, unknown>
 }
 
@@ -18,14 +23,84 @@ export interface DeleteCompanyParams {
   recordId: string
 }
 
+export interface RestoreCompanyParams {
+  recordId: string
+  // Snapshot of the record's properties (as returned by getCompany), used to recreate it
+  properties: Record<string, unknown>
+}
+
+export interface AddNoteParams {
+  recordId: string
+  title: string
+  body: string
+}
+
 export interface GetCompanyResult {
   id: string
   properties: Record<string, unknown>
+  // Opaque token that changes whenever the record is modified (null if unknown);
+  // compare tokens from two reads to detect concurrent edits
+  version: string | null
 }
 
+/**
+ * Provider-neutral search filters
+ * Property names use the clean schema's field names (name, domain, postalCode, ...);
+ * each client translates them into its own query language.
+ * Groups are combined with OR logic, filters within a group with AND logic.
+ */
+export type CompanyFilterOperator =
+  | "EQ"
+  | "NEQ"
+  | "IN"
+  | "NOT_IN"
+  | "HAS_PROPERTY"
+  | "NOT_HAS_PROPERTY"
+  | "CONTAINS_TOKEN"
+
+export interface CompanyFilter {
+  propertyName: string
+  operator: CompanyFilterOperator
+  value?: string | null
+  values?: string[] | null
+}
+
+export interface CompanyFilterGroup {
+  filters: CompanyFilter[]
+}
+
+export interface ListCompaniesParams {
+  // nextCursor of the previous page; omit for the first page
+  after?: string | null
+  limit: number
+}
+
+export interface ListCompaniesResult {
+  companies: GetCompanyResult[]
+  // Opaque cursor for the next page, null after the last page
+  nextCursor: string | null
+}
+
+export type PropertyOptions = Record<string, string[]>
+
 export interface CRMClient {
   updateCompany(params: UpdateCompanyParams): Promise<void>
   deleteCompany(params: DeleteCompanyParams): Promise<void>
   companyExists(recordId: string): Promise<boolean>
-  getCompany(recordId: string): Promise<GetCompanyResult>
+  // extraProperties: CRM property names to include beyond the client's defaults
+  getCompany(recordId: string, extraProperties?: string[]): Promise<GetCompanyResult>
+  searchCompanies(filterGroups: CompanyFilterGroup[]): Promise<GetCompanyResult[]>
+  // Page through every company in the CRM, in a stable order
+  listCompanies(params: ListCompaniesParams): Promise<ListCompaniesResult>
+  // false where the CRM's API can't merge records (mergeCompanies always throws)
+  readonly supportsMerge: boolean
+  mergeCompanies(primaryId: string, mergedId: string): Promise<void>
+  // Bring back a deleted or merged-away company. Returns the restored record ID:
+  // the original ID where the CRM can undelete, a new ID where it is recreated
+  restoreCompany(params: RestoreCompanyParams): Promise<string>
+  // Attach a plain-text note to the company record
+  addNote(params: AddNoteParams): Promise<void>
+  // Allowed values for enumerated properties (dropdowns, picklists, selects),
+  // keyed by the property name getCompany returns
+  getPropertyOptions(): Promise<PropertyOptions>
 }
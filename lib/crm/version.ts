@@ -0,0 +1,29 @@
+import { GetCompanyResult } from "./types"
+
+/**
+ * Check whether a record changed between two reads
+ * Records whose CRM exposes no version token are never reported as changed.
+ */
+export function hasVersionChanged(read: GetCompanyResult, current: GetCompanyResult): boolean {
+  return read.version !== null && current.version !== null && read.version !== current.version
+}
+
+/**
+ * Body of a 409 response for a record modified while it was being processed
+ */
+export function versionConflictResponseBody(read: GetCompanyResult, current: GetCompanyResult) {
+  return {
+    error: `Company record '${current.id}' was modified in the CRM while it was being processed. Re-run the request to work from the latest version.`,
+    conflict: {
+      recordId: current.id,
+      readVersion: {
+        version: read.version,
+        properties: read.properties
+      },
+      currentVersion: {
+        version: current.version,
+        properties: current.properties
+      }
+    }
+  }
+}
@@ -0,0 +1,520 @@
+import { CRMClient, UpdateCompanyParams, DeleteCompanyParams, RestoreCompanyParams, AddNoteParams, GetCompanyResult, CompanyFilter, CompanyFilterGroup, ListCompaniesParams, ListCompaniesResult, PropertyOptions } from "./types"
+import { fetchWithTimeout, CRM_TIMEOUT_MS } from "./http"
+import { matchesFilterGroups, SEARCH_RESULT_LIMIT } from "./filters"
+
+// Zoho CRM REST API version (v2 and later share the Accounts record format)
+const ZOHO_API_VERSION = "v6"
+
+// Zoho data centers; each tenant's data lives in exactly one of them
+export const ZOHO_DATA_CENTERS = ["com", "eu", "in", "com.au"] as const
+
+export type ZohoDataCenter = typeof ZOHO_DATA_CENTERS[number]
+
+// Canonical clean-schema fields mapped to standard Accounts fields
+const ZOHO_FIELDS: Record<string, string> = {
+  name: "Account_Name",
+  website: "Website",
+  phone: "Phone",
+  industry: "Industry",
+  description: "Description",
+  street: "Billing_Street",
+  city: "Billing_City",
+  state: "Billing_State",
+  postalCode: "Billing_Code",
+  country: "Billing_Country",
+  createdate: "Created_Time",
+  lastmodifieddate: "Modified_Time",
+}
+
+interface ZohoField {
+  api_name: string
+  data_type: string
+  read_only?: boolean
+  field_read_only?: boolean
+  pick_list_values?: Array<{ actual_value: string }>
+}
+
+/**
+ * Check whether a value is a supported Zoho data center
+ */
+export function isZohoDataCenter(value: string | null | undefined): value is ZohoDataCenter {
+  return !!value && (ZOHO_DATA_CENTERS as readonly string[]).includes(value)
+}
+
+/**
+ * Throw if a Zoho per-record response reports a failure
+ * Zoho returns HTTP 200/202 with { status: "error" } entries for record-level errors
+ */
+function assertZohoRecordSuccess(data: { data?: Array<{ status?: string; code?: string; message?: string }> }): void {
+  const result = data.data?.[0]
+  if (result && result.status === "error") {
+    throw new Error(`Zoho API error (${result.code}): ${result.message}`)
+  }
+}
+
+/**
+ * Translate canonical field names into Zoho API names; anything else is kept as-is
+ */
+function toZohoFields(properties: Record<string, unknown>): Record<string, unknown> {
+  const fields: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(properties)) {
+    const canonicalField = Object.keys(ZOHO_FIELDS).find(
+      field => field.toLowerCase() === key.toLowerCase()
+    )
+    fields[canonicalField ? ZOHO_FIELDS[canonicalField] : key] = value
+  }
+  return fields
+}
+
+/**
+ * Escape a value for Zoho search criteria (parentheses and commas are reserved)
+ */
+function escapeCriteriaValue(value: string): string {
+  return value.replace(/([(),\\])/g, "\\$1")
+}
+
+/**
+ * Accounts have no domain field, so domain filters become Website "contains" filters
+ */
+function rewriteDomainFilter(filter: CompanyFilter): CompanyFilter {
+  if (filter.propertyName.toLowerCase() !== "domain") return filter
+  return { ...filter, propertyName: "website", operator: filter.operator === "EQ" ? "CONTAINS_TOKEN" : filter.operator }
+}
+
+/**
+ * Translate a neutral filter into a Zoho criteria expression (null if unsupported)
+ */
+function toZohoCriterion(filter: CompanyFilter): string | null {
+  const canonicalField = Object.keys(ZOHO_FIELDS).find(
+    field => field.toLowerCase() === filter.propertyName.toLowerCase()
+  )
+  const field = canonicalField ? ZOHO_FIELDS[canonicalField] : filter.propertyName
+
+  switch (filter.operator) {
+    case "EQ":
+      return filter.value ? `(${field}:equals:${escapeCriteriaValue(filter.value)})` : null
+    case "NEQ":
+      return filter.value ? `(${field}:not_equal:${escapeCriteriaValue(filter.value)})` : null
+    case "IN":
+      return filter.values?.length ? `(${field}:in:${filter.values.map(escapeCriteriaValue).join(",")})` : null
+    default:
+      return null
+  }
+}
+
+/**
+ * Zoho CRM client for Accounts
+ * Docs: https://www.zoho.com/crm/developer/docs/api/v6/get-records.html
+ */
+export class ZohoClient implements CRMClient {
+  readonly supportsMerge = true
+  private accessToken: string
+  private baseUrl: string
+
+  constructor(accessToken: string, dataCenter: ZohoDataCenter = "com") {
+    this.accessToken = accessToken
+    this.baseUrl = `https://www.zohoapis.${dataCenter}/crm/${ZOHO_API_VERSION}`
+  }
+
+  private accountUrl(recordId: string): string {
+    return `${this.baseUrl}/Accounts/${encodeURIComponent(recordId)}`
+  }
+
+  /**
+   * Update an Accounts record in Zoho
+   * PUT /crm/{version}/Accounts/{id}
+   *
+   * Canonical field names are translated to Zoho API names; anything else
+   * (e.g. custom fields) is sent as-is.
+   */
+  async updateCompany(params: UpdateCompanyParams): Promise<void> {
+    const { recordId, properties } = params
+    const fields = toZohoFields(properties)
+
+    const response = await fetchWithTimeout(
+      this.accountUrl(recordId),
+      {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Zoho-oauthtoken ${this.accessToken}`,
+        },
+        body: JSON.stringify({ data: [fields] }),
+      },
+      CRM_TIMEOUT_MS
+    )
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `Zoho API error (${response.status}): ${error}`
+      )
+    }
+
+    assertZohoRecordSuccess(await response.json())
+  }
+
+  /**
+   * Delete an Accounts record in Zoho
+   * DELETE /crm/{version}/Accounts/{id}
+   */
+  async deleteCompany(params: DeleteCompanyParams): Promise<void> {
+    const { recordId } = params
+
+    const response = await fetchWithTimeout(
+      this.accountUrl(recordId),
+      {
+        method: "DELETE",
+        headers: {
+          "Authorization": `Zoho-oauthtoken ${this.accessToken}`,
+        },
+      },
+      CRM_TIMEOUT_MS
+    )
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `Zoho API error (${response.status}): ${error}`
+      )
+    }
+
+    assertZohoRecordSuccess(await response.json())
+  }
+
+  /**
+   * Check if an Accounts record exists in Zoho
+   * GET /crm/{version}/Accounts/{id}
+   *
+   * Zoho answers 204 No Content for unknown record IDs.
+   */
+  async companyExists(recordId: string): Promise<boolean> {
+    try {
+      const response = await fetchWithTimeout(
+        this.accountUrl(recordId),
+        {
+          method: "GET",
+          headers: {
+            "Authorization": `Zoho-oauthtoken ${this.accessToken}`,
+          },
+        },
+        CRM_TIMEOUT_MS
+      )
+
+      return response.status === 200
+    } catch (error) {
+      console.error("Error checking company existence:", error)
+      return false
+    }
+  }
+
+  /**
+   * Get an Accounts record from Zoho
+   * GET /crm/{version}/Accounts/{id}
+   *
+   * Standard fields are mapped to the clean schema's field names; other
+   * primitive fields (including custom ones) keep their Zoho API name.
+   */
+  async getCompany(recordId: string): Promise<GetCompanyResult> {
+    const response = await fetchWithTimeout(
+      this.accountUrl(recordId),
+      {
+        method: "GET",
+        headers: {
+          "Authorization": `Zoho-oauthtoken ${this.accessToken}`,
+        },
+      },
+      CRM_TIMEOUT_MS
+    )
+
+    if (response.status === 204) {
+      throw new Error(`Company record with ID '${recordId}' not found in CRM`)
+    }
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `Zoho API error (${response.status}): ${error}`
+      )
+    }
+
+    const data = await response.json()
+    return this.toCompanyResult((data.data?.[0] || {}) as Record<string, unknown>, recordId)
+  }
+
+  private toCompanyResult(record: Record<string, unknown>, recordId?: string): GetCompanyResult {
+    const properties: Record<string, unknown> = {}
+    const mappedFields = new Set(Object.values(ZOHO_FIELDS))
+
+    for (const [field, zohoField] of Object.entries(ZOHO_FIELDS)) {
+      properties[field] = record[zohoField] ?? null
+    }
+
+    // Skip system ($-prefixed) fields and lookups/objects such as Owner
+    for (const [key, value] of Object.entries(record)) {
+      if (mappedFields.has(key) || key === "id" || key.startsWith("$")) continue
+      if (value !== null && typeof value === "object") continue
+      properties[key] = value
+    }
+
+    return {
+      id: String(record.id ?? recordId),
+      properties,
+      version: record.Modified_Time ? String(record.Modified_Time) : null
+    }
+  }
+
+  /**
+   * Search Accounts records in Zoho
+   * GET /crm/{version}/Accounts/search?criteria=... (or ?word=... for contains searches)
+   *
+   * Zoho criteria only support a subset of operators, so each group is
+   * searched with what Zoho can express and the results are re-checked
+   * against the full group.
+   */
+  async searchCompanies(filterGroups: CompanyFilterGroup[]): Promise<GetCompanyResult[]> {
+    const results = new Map<string, GetCompanyResult>()
+
+    for (const originalGroup of filterGroups) {
+      const group = { filters: originalGroup.filters.map(rewriteDomainFilter) }
+      const criteria = group.filters.map(toZohoCriterion).filter((c): c is string => c !== null)
+      const wordFilter = group.filters.find(filter => filter.operator === "CONTAINS_TOKEN" && filter.value)
+
+      let query: string
+      if (criteria.length > 0) {
+        query = `criteria=${encodeURIComponent(`(${criteria.join("and")})`)}`
+      } else if (wordFilter?.value) {
+        query = `word=${encodeURIComponent(wordFilter.value)}`
+      } else {
+        continue
+      }
+
+      const response = await fetchWithTimeout(
+        `${this.baseUrl}/Accounts/search?${query}&per_page=${SEARCH_RESULT_LIMIT}`,
+        {
+          method: "GET",
+          headers: {
+            "Authorization": `Zoho-oauthtoken ${this.accessToken}`,
+          },
+        },
+        CRM_TIMEOUT_MS
+      )
+
+      // 204 No Content means no matches
+      if (response.status === 204) continue
+
+      if (!response.ok) {
+        const error = await response.text()
+        throw new Error(
+          `Zoho API error (${response.status}): ${error}`
+        )
+      }
+
+      const data = await response.json()
+      for (const record of (data.data || []) as Record<string, unknown>[]) {
+        const company = this.toCompanyResult(record)
+        if (matchesFilterGroups(company.properties, [group])) {
+          results.set(company.id, company)
+        }
+      }
+    }
+
+    return [...results.values()].slice(0, SEARCH_RESULT_LIMIT)
+  }
+
+  /**
+   * List Accounts records in Zoho, one page at a time
+   * GET /crm/{version}/Accounts?fields=...&per_page=...&page_token=...
+   *
+   * Zoho returns at most 200 records per page; info.next_page_token is the cursor.
+   */
+  async listCompanies(params: ListCompaniesParams): Promise<ListCompaniesResult> {
+    const query = new URLSearchParams({
+      fields: [...new Set(Object.values(ZOHO_FIELDS))].join(","),
+      per_page: String(Math.min(params.limit, 200)),
+      sort_by: "Created_Time",
+      sort_order: "asc"
+    })
+    if (params.after) {
+      query.set("page_token", params.after)
+    }
+
+    const response = await fetchWithTimeout(
+      `${this.baseUrl}/Accounts?${query}`,
+      {
+        method: "GET",
+        headers: {
+          "Authorization": `Zoho-oauthtoken ${this.accessToken}`,
+        },
+      },
+      CRM_TIMEOUT_MS
+    )
+
+    // 204 No Content means there are no records
+    if (response.status === 204) {
+      return { companies: [], nextCursor: null }
+    }
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `Zoho API error (${response.status}): ${error}`
+      )
+    }
+
+    const data = await response.json()
+    return {
+      companies: ((data.data || []) as Record<string, unknown>[]).map(record => this.toCompanyResult(record)),
+      nextCursor: data.info?.more_records ? data.info.next_page_token ?? null : null
+    }
+  }
+
+  /**
+   * Merge one Accounts record into another
+   * POST /crm/{version}/Accounts/{primaryId}/actions/merge
+   */
+  async mergeCompanies(primaryId: string, mergedId: string): Promise<void> {
+    const response = await fetchWithTimeout(
+      `${this.accountUrl(primaryId)}/actions/merge`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Zoho-oauthtoken ${this.accessToken}`,
+        },
+        body: JSON.stringify({ merge: [{ data: [{ id: mergedId }] }] }),
+      },
+      CRM_TIMEOUT_MS
+    )
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `Zoho API error (${response.status}): ${error}`
+      )
+    }
+
+    const data = await response.json()
+    assertZohoRecordSuccess({ data: data.merge })
+  }
+
+  /**
+   * Recreate a deleted or merged Accounts record in Zoho
+   * POST /crm/{version}/Accounts
+   *
+   * A new record is created from the snapshot's writable fields.
+   */
+  async restoreCompany(params: RestoreCompanyParams): Promise<string> {
+    const writableFields = new Set(
+      (await this.fetchFields())
+        .filter(field => !field.read_only && !field.field_read_only)
+        .map(field => field.api_name)
+    )
+
+    const fields = Object.fromEntries(
+      Object.entries(toZohoFields(params.properties)).filter(([key, value]) =>
+        writableFields.has(key) && value !== null && value !== undefined && value !== ""
+      )
+    )
+
+    const response = await fetchWithTimeout(
+      `${this.baseUrl}/Accounts`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Zoho-oauthtoken ${this.accessToken}`,
+        },
+        body: JSON.stringify({ data: [fields] }),
+      },
+      CRM_TIMEOUT_MS
+    )
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `Zoho API error (${response.status}): ${error}`
+      )
+    }
+
+    const data = await response.json()
+    assertZohoRecordSuccess(data)
+    return String(data.data?.[0]?.details?.id)
+  }
+
+  /**
+   * Attach a note to an Accounts record in Zoho
+   * POST /crm/{version}/Accounts/{id}/Notes
+   */
+  async addNote(params: AddNoteParams): Promise<void> {
+    const { recordId, title, body } = params
+
+    const response = await fetchWithTimeout(
+      `${this.accountUrl(recordId)}/Notes`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Zoho-oauthtoken ${this.accessToken}`,
+        },
+        body: JSON.stringify({ data: [{ Note_Title: title, Note_Content: body }] }),
+      },
+      CRM_TIMEOUT_MS
+    )
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `Zoho API error (${response.status}): ${error}`
+      )
+    }
+
+    assertZohoRecordSuccess(await response.json())
+  }
+
+  /**
+   * List Accounts field definitions
+   * GET /crm/{version}/settings/fields?module=Accounts
+   */
+  private async fetchFields(): Promise<ZohoField[]> {
+    const response = await fetchWithTimeout(
+      `${this.baseUrl}/settings/fields?module=Accounts`,
+      {
+        method: "GET",
+        headers: {
+          "Authorization": `Zoho-oauthtoken ${this.accessToken}`,
+        },
+      },
+      CRM_TIMEOUT_MS
+    )
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(
+        `Zoho API error (${response.status}): ${error}`
+      )
+    }
+
+    const data = await response.json()
+    return (data.fields || []) as ZohoField[]
+  }
+
+  /**
+   * Get allowed values for picklist fields on Accounts
+   * GET /crm/{version}/settings/fields?module=Accounts
+   */
+  async getPropertyOptions(): Promise<PropertyOptions> {
+    const options: PropertyOptions = {}
+    for (const field of await this.fetchFields()) {
+      if ((field.data_type === "picklist" || field.data_type === "multiselectpicklist") && field.pick_list_values?.length) {
+        // Report options under the name getCompany uses (e.g. Industry -> industry)
+        const canonicalField = Object.keys(ZOHO_FIELDS).find(key => ZOHO_FIELDS[key] === field.api_name)
+        options[canonicalField || field.api_name] = field.pick_list_values
+          .map(value => value.actual_value)
+          // Zoho includes a "-None-" placeholder in every picklist
+          .filter(value => value !== "-None-")
+      }
+    }
+    return options
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Transactional email through the Resend HTTP API
+ * Docs: https://resend.com/docs/api-reference/emails/send-email
+ */
+
+// Resend answers within a few hundred ms; don't hold up the worker for long
+const EMAIL_TIMEOUT_MS = 10 * 1000
+
+/**
+ * Send a plain-text email
+ * Throws when email isn't configured or Resend rejects the message.
+ */
+export async function sendEmail(params: {
+  to: string
+  subject: string
+  text: string
+}): Promise<void> {
+  const apiKey = process.env.RESEND_API_KEY
+  const from = process.env.EMAIL_FROM
+
+  if (!apiKey || !from) {
+    throw new Error('Email is not configured. Set RESEND_API_KEY and EMAIL_FROM.')
+  }
+
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${apiKey}`
+    },
+    body: JSON.stringify({
+      from,
+      to: [params.to],
+      subject: params.subject,
+      text: params.text
+    }),
+    signal: AbortSignal.timeout(EMAIL_TIMEOUT_MS)
+  })
+
+  if (!response.ok) {
+    const error = await response.text()
+    throw new Error(`Resend API error (${response.status}): ${error}`)
+  }
+}
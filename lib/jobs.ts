@@ -0,0 +1,923 @@
+/**
+ * Background jobs for bulk clean, purge and merge work, stored in Supabase
+ * (jobs and job_items tables) and drained by processJob
+ * A job's items are either submitted up front or, for scan jobs, queued page by
+ * page from the CRM as the worker goes.
+ */
+
+import { createServiceClient } from './supabase/service'
+import { createCRMClient, decryptCRMCredentials, encryptCRMCredentials } from './crm'
+import { CRMCredentials, ListCompaniesResult } from './crm/types'
+import { checkRateLimit } from './ratelimit'
+import { checkFeatureAccess, trackFeatureUsage, notifyIfCreditsLow } from './autumn'
+import { mapWithConcurrency } from './batch'
+import { OperationError } from './operations'
+import { cleanCompany, parseCleanOptions, CleanOptions } from './clean'
+import { purgeCompany, parsePurgeOptions, PurgeOptions } from './purge'
+import { mergeCompany, parseMergeOptions, MergeOptions } from './merge'
+import { sanitizeErrorMessage, DEFAULT_MODEL_TIER, JobSource, JobType, ModelTier } from './validation'
+import { logAuditEvent, AuditEventType } from './audit'
+import { recordAICost, recordFailedAICost } from './cost-records'
+import { AIUsage } from './llm'
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'cancelled' | 'failed'
+
+export type JobItemStatus = 'pending' | 'processing' | 'succeeded' | 'failed' | 'cancelled'
+
+export type JobOptions = CleanOptions | PurgeOptions | MergeOptions
+
+export interface Job {
+  id: string
+  userId: string
+  type: JobType
+  source: JobSource
+  status: JobStatus
+  options: JobOptions
+  totalItems: number
+  maxItems: number | null
+  modifiedSince: string | null
+  scanCompletedAt: string | null
+  error: string | null
+  startedAt: string | null
+  completedAt: string | null
+  cancelledAt: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface JobItem {
+  id: string
+  index: number
+  status: JobItemStatus
+  recordId: string | null
+  company: Record<string, unknown>
+  result: Record<string, unknown> | null
+  error: string | null
+  statusCode: number | null
+  creditsUsed: number
+  attempts: number
+  updatedAt: string
+}
+
+export type JobProgress = Record<JobItemStatus, number>
+
+interface JobRow {
+  id: string
+  user_id: string
+  type: JobType
+  source: JobSource
+  status: JobStatus
+  options: JobOptions
+  // Encrypted (see lib/crm/credentials.ts)
+  crm_credentials: string | null
+  total_items: number
+  max_items: number | null
+  scan_cursor: string | null
+  scan_failures: number
+  scan_modified_since: string | null
+  scan_completed_at: string | null
+  locked_until: string | null
+  error: string | null
+  started_at: string | null
+  completed_at: string | null
+  cancelled_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+interface JobItemRow {
+  id: string
+  item_index: number
+  status: JobItemStatus
+  record_id: string | null
+  company: Record<string, unknown>
+  result: Record<string, unknown> | null
+  error: string | null
+  status_code: number | null
+  credits_used: number
+  attempts: number
+  updated_at: string
+}
+
+// How many items of each job type run at once. Merges run one at a time so two
+// items can't merge into each other.
+const JOB_CONCURRENCY: Record<JobType, number> = {
+  clean: 5,
+  purge: 5,
+  merge: 1
+}
+
+// A worker's lease on a job outlasts its deadline by this much, covering the items
+// still in flight when the deadline passes (up to the function's 300s limit)
+const JOB_LEASE_GRACE_MS = 60 * 1000
+
+// Items still marked processing after this long were abandoned by a timed-out worker
+const STALE_ITEM_MS = 10 * 60 * 1000
+
+// Abandoned items are retried this many times before they are failed
+const MAX_ITEM_ATTEMPTS = 3
+
+// Rows per insert when creating a job's items
+const ITEM_INSERT_CHUNK_SIZE = 500
+
+// CRM records fetched per scan page (the most HubSpot returns at once)
+const SCAN_PAGE_SIZE = 100
+
+// A scan fails after this many consecutive failed page fetches
+const MAX_SCAN_PAGE_ATTEMPTS = 3
+
+// Properties CRMs set themselves; they're left out of scanned company data
+const SCAN_SYSTEM_PROPERTIES = new Set(['createdate', 'lastmodifieddate', 'hs_lastmodifieddate', 'hs_object_id'])
+
+export const JOB_ITEM_STATUSES: JobItemStatus[] = ['pending', 'processing', 'succeeded', 'failed', 'cancelled']
+
+function toJob(row: JobRow): Job {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    type: row.type,
+    source: row.source,
+    status: row.status,
+    options: row.options,
+    totalItems: row.total_items,
+    maxItems: row.max_items,
+    modifiedSince: row.scan_modified_since,
+    scanCompletedAt: row.scan_completed_at,
+    error: row.error,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+    cancelledAt: row.cancelled_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+function toJobItem(row: JobItemRow): JobItem {
+  return {
+    id: row.id,
+    index: row.item_index,
+    status: row.status,
+    recordId: row.record_id,
+    company: row.company,
+    result: row.result,
+    error: row.error,
+    statusCode: row.status_code,
+    creditsUsed: row.credits_used,
+    attempts: row.attempts,
+    updatedAt: row.updated_at
+  }
+}
+
+/**
+ * Validate and sanitize the shared options of a job submission for its type
+ */
+export function parseJobOptions(type: JobType, body: Record<string, unknown>): {
+  options?: JobOptions
+  error?: string
+} {
+  switch (type) {
+    case 'clean':
+      return parseCleanOptions(body)
+    case 'purge':
+      return parsePurgeOptions(body)
+    case 'merge':
+      return parseMergeOptions(body)
+  }
+}
+
+/**
+ * Store a job and its items, queued for the worker
+ * Scan jobs are created without items; the worker queues them from the CRM.
+ */
+export async function createJob(params: {
+  userId: string
+  apiKeyId: string
+  type: JobType
+  source?: JobSource
+  options: JobOptions
+  crmCredentials: CRMCredentials | null
+  items: Array<{ recordId?: string; company: Record<string, unknown> }>
+  maxItems?: number
+  // Scans only: skip records last modified before this ISO timestamp
+  modifiedSince?: string
+}): Promise<Job> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('jobs')
+    .insert({
+      user_id: params.userId,
+      api_key_id: params.apiKeyId,
+      type: params.type,
+      source: params.source ?? 'items',
+      options: params.options,
+      crm_credentials: params.crmCredentials ? encryptCRMCredentials(params.crmCredentials) : null,
+      total_items: params.items.length,
+      max_items: params.maxItems ?? null,
+      scan_modified_since: params.modifiedSince ?? null
+    })
+    .select('*')
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Failed to create job: ${error?.message}`)
+  }
+
+  const job = toJob(data as JobRow)
+
+  for (let start = 0; start < params.items.length; start += ITEM_INSERT_CHUNK_SIZE) {
+    const rows = params.items.slice(start, start + ITEM_INSERT_CHUNK_SIZE).map((item, offset) => ({
+      job_id: job.id,
+      item_index: start + offset,
+      record_id: typeof item.recordId === 'string' ? item.recordId : null,
+      company: item.company
+    }))
+
+    const { error: itemsError } = await supabase.from('job_items').insert(rows)
+    if (itemsError) {
+      // Don't leave a half-created job for the worker to pick up
+      await supabase.from('jobs').delete().eq('id', job.id)
+      throw new Error(`Failed to create job items: ${itemsError.message}`)
+    }
+  }
+
+  return job
+}
+
+/**
+ * Load a job, scoped to the owning user
+ */
+export async function getJob(jobId: string, userId: string): Promise<Job | null> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('jobs')
+    .select('*')
+    .eq('id', jobId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load job: ${error.message}`)
+  }
+
+  return data ? toJob(data as JobRow) : null
+}
+
+/**
+ * Count a job's items by status
+ */
+export async function getJobProgress(jobId: string): Promise<JobProgress> {
+  const supabase = createServiceClient()
+  const counts = await Promise.all(JOB_ITEM_STATUSES.map(async status => {
+    const { count, error } = await supabase
+      .from('job_items')
+      .select('id', { count: 'exact', head: true })
+      .eq('job_id', jobId)
+      .eq('status', status)
+
+    if (error) {
+      throw new Error(`Failed to count job items: ${error.message}`)
+    }
+
+    return [status, count || 0] as const
+  }))
+
+  return Object.fromEntries(counts) as JobProgress
+}
+
+/**
+ * The public view of a job: its state and progress counts (never its credentials)
+ */
+export function jobResponseBody(job: Job, progress: JobProgress) {
+  return {
+    id: job.id,
+    type: job.type,
+    source: job.source,
+    status: job.status,
+    totalItems: job.totalItems,
+    // For scans totalItems grows as pages are queued
+    ...(job.source === 'scan'
+      ? { scan: { maxRecords: job.maxItems, modifiedSince: job.modifiedSince, completed: job.scanCompletedAt !== null, completedAt: job.scanCompletedAt } }
+      : {}),
+    progress: {
+      ...progress,
+      completed: progress.succeeded + progress.failed + progress.cancelled
+    },
+    error: job.error,
+    options: job.options,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    completedAt: job.completedAt,
+    cancelledAt: job.cancelledAt
+  }
+}
+
+/**
+ * Page through a job's items in submission order
+ * `after` is the index of the last item of the previous page.
+ */
+export async function listJobItems(
+  jobId: string,
+  params: { after?: number; limit: number; status?: JobItemStatus }
+): Promise<JobItem[]> {
+  const supabase = createServiceClient()
+  let query = supabase
+    .from('job_items')
+    .select('*')
+    .eq('job_id', jobId)
+    .order('item_index', { ascending: true })
+    .limit(params.limit)
+
+  if (params.after !== undefined) {
+    query = query.gt('item_index', params.after)
+  }
+
+  if (params.status) {
+    query = query.eq('status', params.status)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to load job items: ${error.message}`)
+  }
+
+  return ((data || []) as JobItemRow[]).map(toJobItem)
+}
+
+/**
+ * Cancel a queued or running job. Items already being processed finish; the
+ * rest are marked cancelled. Returns false when the job had already finished.
+ */
+export async function cancelJob(jobId: string): Promise<boolean> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('jobs')
+    .update({
+      status: 'cancelled',
+      cancelled_at: new Date().toISOString(),
+      crm_credentials: null
+    })
+    .eq('id', jobId)
+    .in('status', ['queued', 'running'])
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to cancel job: ${error.message}`)
+  }
+
+  if (!data || data.length === 0) {
+    return false
+  }
+
+  const { error: itemsError } = await supabase
+    .from('job_items')
+    .update({ status: 'cancelled' })
+    .eq('job_id', jobId)
+    .eq('status', 'pending')
+
+  if (itemsError) {
+    throw new Error(`Failed to cancel job items: ${itemsError.message}`)
+  }
+
+  return true
+}
+
+/**
+ * Run one item through the same pipeline as the single-record endpoint
+ */
+async function runJobItem(
+  job: JobRow,
+  item: JobItemRow
+): Promise<{ result: Record<string, unknown>; creditsUsed: number; modelTier: ModelTier; usages: AIUsage[] }> {
+  const input = {
+    company: item.company,
+    recordId: item.record_id ?? undefined,
+    userId: job.user_id,
+    crmCredentials: job.crm_credentials ? decryptCRMCredentials(job.crm_credentials) : null
+  }
+
+  // Schemas are left out of stored results: they're the same for every item
+  switch (job.type) {
+    case 'clean': {
+      const cleaned = await cleanCompany({ ...input, options: job.options as CleanOptions })
+      return {
+        result: {
+          cleanedData: cleaned.cleanedData,
+          recordUpdated: cleaned.recordUpdated,
+          noteAdded: cleaned.noteAdded,
+          noteError: cleaned.noteError,
+          operationId: cleaned.operationId,
+          writePlan: cleaned.writePlan,
+          skippedLowConfidence: cleaned.skippedLowConfidence,
+          skippedByPolicy: cleaned.skippedByPolicy,
+          cached: cleaned.cached,
+          tokenUsage: cleaned.tokenUsage
+        },
+        creditsUsed: cleaned.creditCost,
+        modelTier: cleaned.modelTier,
+        usages: [{ model: cleaned.model, cached: cleaned.cached, ...cleaned.tokenUsage }]
+      }
+    }
+    case 'purge': {
+      const purged = await purgeCompany({ ...input, options: job.options as PurgeOptions })
+      return {
+        result: {
+          ...purged.analysis,
+          recordDeleted: purged.recordDeleted,
+          operationId: purged.operationId,
+          deletePlan: purged.deletePlan,
+          cached: purged.cached,
+          tokenUsage: purged.tokenUsage
+        },
+        creditsUsed: purged.creditCost,
+        modelTier: purged.modelTier,
+        usages: [{ model: purged.model, cached: purged.cached, ...purged.tokenUsage }]
+      }
+    }
+    case 'merge': {
+      const merged = await mergeCompany({ ...input, options: job.options as MergeOptions })
+      return {
+        result: {
+          duplicatesFound: merged.duplicatesFound,
+          duplicates: merged.duplicates,
+          step1DuplicateSearch: merged.step1DuplicateSearch,
+          step2MergeDecision: merged.step2MergeDecision,
+          step3FieldMerge: merged.step3FieldMerge,
+          recordUpdated: merged.recordUpdated,
+          recordMerged: merged.recordMerged,
+          operationId: merged.operationId,
+          writePlan: merged.writePlan,
+          cached: merged.cached,
+          aiUsage: merged.aiUsage
+        },
+        creditsUsed: merged.creditCost,
+        modelTier: merged.modelTier,
+        usages: merged.usages
+      }
+    }
+  }
+}
+
+async function updateJobItem(itemId: string, update: Record<string, unknown>): Promise<void> {
+  const supabase = createServiceClient()
+  const { error } = await supabase
+    .from('job_items')
+    .update(update)
+    .eq('id', itemId)
+
+  if (error) {
+    console.error('Failed to update job item:', error)
+  }
+}
+
+/**
+ * Mark a running job finished and notify the owner's job.completed webhooks
+ */
+async function finishJob(job: JobRow, status: 'completed' | 'failed', error?: string): Promise<void> {
+  const supabase = createServiceClient()
+  const { data, error: updateError } = await supabase
+    .from('jobs')
+    .update({
+      status,
+      error: error ?? null,
+      completed_at: new Date().toISOString(),
+      crm_credentials: null
+    })
+    .eq('id', job.id)
+    .eq('status', 'running')
+    .select('id')
+
+  if (updateError) {
+    console.error('Failed to finish job:', updateError)
+    return
+  }
+
+  // Another worker (or a cancel) got there first
+  if (!data || data.length === 0) {
+    return
+  }
+
+  const progress = await getJobProgress(job.id)
+  await logAuditEvent({
+    eventType: AuditEventType.JOB_COMPLETED,
+    userId: job.user_id,
+    metadata: {
+      jobId: job.id,
+      type: job.type,
+      status,
+      error: error ?? null,
+      totalItems: job.total_items,
+      progress
+    },
+    success: status === 'completed',
+    errorMessage: error
+  })
+}
+
+/**
+ * Put items abandoned by a timed-out worker back in the queue, or fail them
+ * once they've used up their attempts
+ */
+async function releaseStaleItems(jobId: string): Promise<void> {
+  const supabase = createServiceClient()
+  const staleBefore = new Date(Date.now() - STALE_ITEM_MS).toISOString()
+
+  const { data, error } = await supabase
+    .from('job_items')
+    .select('id, attempts')
+    .eq('job_id', jobId)
+    .eq('status', 'processing')
+    .lt('updated_at', staleBefore)
+
+  if (error) {
+    console.error('Failed to load stale job items:', error)
+    return
+  }
+
+  for (const item of (data || []) as Array<{ id: string; attempts: number }>) {
+    await updateJobItem(item.id, item.attempts >= MAX_ITEM_ATTEMPTS
+      ? { status: 'failed', error: 'Item processing timed out', status_code: 504 }
+      : { status: 'pending' })
+  }
+}
+
+/**
+ * Claim up to `limit` pending items for this worker, in submission order
+ * An item another worker claims first is skipped.
+ */
+async function claimItems(jobId: string, limit: number): Promise<JobItemRow[]> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('job_items')
+    .select('id, attempts')
+    .eq('job_id', jobId)
+    .eq('status', 'pending')
+    .order('item_index', { ascending: true })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to load pending job items: ${error.message}`)
+  }
+
+  const claimed: JobItemRow[] = []
+  for (const item of (data || []) as Array<{ id: string; attempts: number }>) {
+    const { data: row, error: claimError } = await supabase
+      .from('job_items')
+      .update({ status: 'processing', attempts: item.attempts + 1 })
+      .eq('id', item.id)
+      .eq('status', 'pending')
+      .select('*')
+      .maybeSingle()
+
+    if (claimError) {
+      throw new Error(`Failed to claim job item: ${claimError.message}`)
+    }
+
+    if (row) {
+      claimed.push(row as JobItemRow)
+    }
+  }
+
+  return claimed
+}
+
+/**
+ * Company data for a scanned record: its non-empty properties, minus system fields
+ */
+function toScanCompany(properties: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(properties).filter(([key, value]) =>
+      !SCAN_SYSTEM_PROPERTIES.has(key.toLowerCase()) && value !== null && value !== undefined && value !== ''
+    )
+  )
+}
+
+/**
+ * When a scanned record was last modified (epoch ms), or null if the CRM doesn't say
+ */
+function scanModifiedAt(properties: Record<string, unknown>): number | null {
+  const modified = properties.hs_lastmodifieddate ?? properties.lastmodifieddate
+  const timestamp = modified ? Date.parse(String(modified)) : NaN
+  return Number.isNaN(timestamp) ? null : timestamp
+}
+
+/**
+ * Queue the next page of a scan job's CRM records and checkpoint the cursor
+ * Items are numbered from the job's current total, so a page re-fetched after a
+ * crash (before its checkpoint was saved) maps onto the rows already queued and
+ * the duplicates are ignored. The checkpoint only moves forward from the state
+ * it was computed from, so two workers can't both advance it.
+ */
+async function queueScanPage(job: JobRow): Promise<void> {
+  const supabase = createServiceClient()
+
+  let page: ListCompaniesResult
+  try {
+    if (!job.crm_credentials) {
+      throw new Error('CRM credentials are no longer available')
+    }
+    const crmClient = createCRMClient(decryptCRMCredentials(job.crm_credentials))
+    page = await crmClient.listCompanies({ after: job.scan_cursor, limit: SCAN_PAGE_SIZE })
+  } catch (listError) {
+    const scanFailures = job.scan_failures + 1
+    const errorMsg = sanitizeErrorMessage(listError, 'job-scan-page')
+    if (scanFailures >= MAX_SCAN_PAGE_ATTEMPTS) {
+      // Items from earlier pages that are still queued fail with the scan
+      await supabase
+        .from('job_items')
+        .update({ status: 'failed', error: 'CRM scan failed', status_code: 502 })
+        .eq('job_id', job.id)
+        .eq('status', 'pending')
+      await finishJob(job, 'failed', `CRM scan failed: ${errorMsg}`)
+      return
+    }
+
+    await supabase
+      .from('jobs')
+      .update({ scan_failures: scanFailures })
+      .eq('id', job.id)
+    throw new Error(`Failed to fetch CRM page: ${errorMsg}`)
+  }
+
+  // The list endpoints can't filter by modification date, so every page is
+  // read and older records are dropped here (records without a date are kept)
+  const modifiedSince = job.scan_modified_since ? Date.parse(job.scan_modified_since) : null
+  const changed = modifiedSince === null
+    ? page.companies
+    : page.companies.filter(company => {
+      const modifiedAt = scanModifiedAt(company.properties)
+      return modifiedAt === null || modifiedAt >= modifiedSince
+    })
+
+  const remaining = job.max_items === null ? Infinity : job.max_items - job.total_items
+  const companies = changed.slice(0, Math.max(remaining, 0))
+
+  if (companies.length > 0) {
+    const { error: itemsError } = await supabase
+      .from('job_items')
+      .upsert(companies.map((company, offset) => ({
+        job_id: job.id,
+        item_index: job.total_items + offset,
+        record_id: company.id,
+        company: toScanCompany(company.properties)
+      })), { onConflict: 'job_id,item_index', ignoreDuplicates: true })
+
+    if (itemsError) {
+      throw new Error(`Failed to queue scanned job items: ${itemsError.message}`)
+    }
+  }
+
+  const totalItems = job.total_items + companies.length
+  const scanDone = page.nextCursor === null || (job.max_items !== null && totalItems >= job.max_items)
+
+  const { error: checkpointError } = await supabase
+    .from('jobs')
+    .update({
+      total_items: totalItems,
+      scan_cursor: page.nextCursor,
+      scan_failures: 0,
+      scan_completed_at: scanDone ? new Date().toISOString() : null
+    })
+    .eq('id', job.id)
+    .eq('total_items', job.total_items)
+    .is('scan_completed_at', null)
+
+  if (checkpointError) {
+    throw new Error(`Failed to checkpoint scan: ${checkpointError.message}`)
+  }
+}
+
+async function loadJobRow(jobId: string): Promise<JobRow | null> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('jobs')
+    .select('*')
+    .eq('id', jobId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load job: ${error.message}`)
+  }
+
+  return data as JobRow | null
+}
+
+/**
+ * Take the job's lease until shortly after the deadline, unless another worker holds it
+ * Returns the lease expiry to release it with, or null when the job is taken.
+ */
+async function acquireJobLease(jobId: string, deadline: number): Promise<string | null> {
+  const supabase = createServiceClient()
+  const now = new Date().toISOString()
+  const lockedUntil = new Date(deadline + JOB_LEASE_GRACE_MS).toISOString()
+
+  const { data, error } = await supabase
+    .from('jobs')
+    .update({ locked_until: lockedUntil })
+    .eq('id', jobId)
+    .or(`locked_until.is.null,locked_until.lt.${now}`)
+    .select('id')
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to lease job: ${error.message}`)
+  }
+
+  return data ? lockedUntil : null
+}
+
+async function releaseJobLease(jobId: string, lockedUntil: string): Promise<void> {
+  const supabase = createServiceClient()
+  const { error } = await supabase
+    .from('jobs')
+    .update({ locked_until: null })
+    .eq('id', jobId)
+    .eq('locked_until', lockedUntil)
+
+  if (error) {
+    // Not fatal: the lease runs out on its own
+    console.error('Failed to release job lease:', error)
+  }
+}
+
+/**
+ * Drain a job's items until it finishes or the deadline (epoch ms) passes
+ * Each item goes through the owner's checkRateLimit and Autumn credit check like
+ * a direct API call would. A rate-limited item is put back and the worker stops,
+ * leaving the rest for the next run; running out of credits fails the job.
+ * Scan jobs fetch the next CRM page whenever the queued items run out.
+ * Only one worker drains a job at a time: the others skip it while its lease is
+ * held, so JOB_CONCURRENCY holds across overlapping cron runs. Returns false
+ * when another worker holds the job.
+ */
+export async function processJob(jobId: string, deadline: number): Promise<boolean> {
+  const job = await loadJobRow(jobId)
+  if (!job || (job.status !== 'queued' && job.status !== 'running')) {
+    return true
+  }
+
+  const lease = await acquireJobLease(jobId, deadline)
+  if (!lease) {
+    return false
+  }
+
+  try {
+    await drainJob(job, deadline)
+  } finally {
+    await releaseJobLease(jobId, lease)
+  }
+  return true
+}
+
+async function drainJob(startingJob: JobRow, deadline: number): Promise<void> {
+  const supabase = createServiceClient()
+  const jobId = startingJob.id
+  let job: JobRow | null = startingJob
+
+  if (job.status === 'queued') {
+    const { error } = await supabase
+      .from('jobs')
+      .update({ status: 'running', started_at: new Date().toISOString() })
+      .eq('id', jobId)
+      .eq('status', 'queued')
+
+    if (error) {
+      throw new Error(`Failed to start job: ${error.message}`)
+    }
+  }
+
+  await releaseStaleItems(jobId)
+
+  while (Date.now() < deadline) {
+    // Stop as soon as the job is cancelled
+    job = await loadJobRow(jobId)
+    if (!job || job.status !== 'running') {
+      return
+    }
+
+    const items = await claimItems(jobId, JOB_CONCURRENCY[job.type])
+
+    if (items.length === 0) {
+      // Scans queue their next page once the current one has been claimed
+      if (job.source === 'scan' && job.scan_completed_at === null) {
+        await queueScanPage(job)
+        continue
+      }
+
+      const progress = await getJobProgress(jobId)
+      if (progress.pending === 0 && progress.processing === 0) {
+        await finishJob(job, 'completed')
+      }
+      return
+    }
+
+    const access = await checkFeatureAccess(job.user_id, 'api_credits')
+    if (!access.allowed) {
+      for (const item of items) {
+        await updateJobItem(item.id, { status: 'failed', error: 'Insufficient credits', status_code: 402 })
+      }
+      await supabase
+        .from('job_items')
+        .update({ status: 'failed', error: 'Insufficient credits', status_code: 402 })
+        .eq('job_id', jobId)
+        .eq('status', 'pending')
+      await finishJob(job, 'failed', 'Insufficient credits')
+      return
+    }
+
+    const currentJob = job
+    let rateLimited = false
+    let chunkCreditsUsed = 0
+
+    await mapWithConcurrency(items, items.length, async item => {
+      const rateLimitResult = await checkRateLimit(currentJob.user_id, `${currentJob.type}-endpoint`)
+      if (!rateLimitResult.allowed) {
+        // Not an attempt: put the item back for the next run
+        rateLimited = true
+        await updateJobItem(item.id, { status: 'pending', attempts: item.attempts - 1 })
+        return
+      }
+
+      try {
+        const { result, creditsUsed, modelTier, usages } = await runJobItem(currentJob, item)
+
+        try {
+          await trackFeatureUsage(currentJob.user_id, 'api_credits', creditsUsed)
+          chunkCreditsUsed += creditsUsed
+        } catch (trackError) {
+          console.error('Failed to track job item usage with Autumn:', trackError)
+        }
+
+        await recordAICost({
+          userId: currentJob.user_id,
+          operation: currentJob.type,
+          modelTier,
+          usages,
+          creditsCharged: creditsUsed,
+          jobId: currentJob.id
+        })
+
+        await updateJobItem(item.id, {
+          status: 'succeeded',
+          result,
+          error: null,
+          status_code: 200,
+          credits_used: creditsUsed
+        })
+      } catch (itemError) {
+        await recordFailedAICost({
+          userId: currentJob.user_id,
+          operation: currentJob.type,
+          modelTier: currentJob.options.modelTier ?? DEFAULT_MODEL_TIER,
+          error: itemError,
+          jobId: currentJob.id
+        })
+
+        await updateJobItem(item.id, itemError instanceof OperationError
+          ? { status: 'failed', error: itemError.message, status_code: itemError.status, result: itemError.body ?? null }
+          : { status: 'failed', error: sanitizeErrorMessage(itemError, 'job-item'), status_code: 500 })
+      }
+    })
+
+    await notifyIfCreditsLow(currentJob.user_id, access.remaining, chunkCreditsUsed)
+
+    if (rateLimited) {
+      return
+    }
+  }
+}
+
+/**
+ * Drain unfinished jobs, oldest first, until the deadline (epoch ms) passes
+ * Used by the cron route to pick up jobs a previous worker didn't finish.
+ */
+export async function processPendingJobs(deadline: number): Promise<string[]> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('jobs')
+    .select('id')
+    .in('status', ['queued', 'running'])
+    .order('created_at', { ascending: true })
+    .limit(20)
+
+  if (error) {
+    throw new Error(`Failed to load unfinished jobs: ${error.message}`)
+  }
+
+  const processed: string[] = []
+  for (const { id } of (data || []) as Array<{ id: string }>) {
+    if (Date.now() >= deadline) {
+      break
+    }
+
+    try {
+      if (await processJob(id, deadline)) {
+        processed.push(id)
+      }
+    } catch (jobError) {
+      console.error(`Failed to process job ${id}:`, jobError)
+    }
+  }
+
+  return processed
+}
@@ -0,0 +1,113 @@
+import { ModelTier } from "../validation"
+import { BaseLLMProvider } from "./base"
+import { LLMProviderName, RawCompletion, StructuredCompletionParams, TierModel, LLM_MAX_OUTPUT_TOKENS, LLM_TIMEOUT_MS } from "./types"
+
+// Extended thinking can't be combined with a forced tool call, so no tier has a reasoning effort
+export const ANTHROPIC_DEFAULT_TIERS: Record<ModelTier, TierModel> = {
+  fast: { model: "claude-haiku-4-5", reasoningEffort: null },
+  balanced: { model: "claude-sonnet-4-5", reasoningEffort: null },
+  accurate: { model: "claude-opus-4-1", reasoningEffort: null }
+}
+
+const ANTHROPIC_API_URL = "https://api.anthropic.com/v1/messages"
+const ANTHROPIC_VERSION = "2023-06-01"
+
+interface AnthropicContentBlock {
+  type: string
+  name?: string
+  input?: unknown
+}
+
+interface AnthropicMessage {
+  model?: string
+  content?: AnthropicContentBlock[]
+  stop_reason?: string
+  usage?: {
+    input_tokens?: number
+    output_tokens?: number
+    cache_read_input_tokens?: number
+    cache_creation_input_tokens?: number
+  }
+}
+
+/**
+ * Anthropic Messages API
+ * Structured output is a forced tool call whose input_schema is the output schema.
+ * Docs: https://docs.anthropic.com/en/docs/build-with-claude/tool-use
+ */
+export class AnthropicProvider extends BaseLLMProvider {
+  readonly name: LLMProviderName = "anthropic"
+
+  constructor(private apiKey: string, readonly tiers: Record<ModelTier, TierModel> = ANTHROPIC_DEFAULT_TIERS) {
+    super()
+  }
+
+  protected async complete(params: StructuredCompletionParams): Promise<RawCompletion> {
+    const { model } = this.tiers[params.tier]
+
+    const response = await fetch(ANTHROPIC_API_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": this.apiKey,
+        "anthropic-version": ANTHROPIC_VERSION
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: LLM_MAX_OUTPUT_TOKENS,
+        messages: [
+          {
+            role: "user",
+            content: params.content
+          }
+        ],
+        tools: [
+          {
+            name: params.name,
+            description: typeof params.schema.description === "string" ? params.schema.description : undefined,
+            input_schema: params.schema
+          }
+        ],
+        tool_choice: { type: "tool", name: params.name }
+      }),
+      signal: AbortSignal.timeout(LLM_TIMEOUT_MS)
+    })
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(`Anthropic API error (${response.status}): ${error}`)
+    }
+
+    const message = await response.json() as AnthropicMessage
+    const toolUse = message.content?.find(block => block.type === "tool_use" && block.name === params.name)
+
+    // Cache reads and writes are billed as input as well (writes at the regular input rate here)
+    const inputTokens = (message.usage?.input_tokens || 0) +
+      (message.usage?.cache_read_input_tokens || 0) +
+      (message.usage?.cache_creation_input_tokens || 0)
+    const outputTokens = message.usage?.output_tokens || 0
+
+    let failure: string | undefined
+    if (message.stop_reason === "refusal") {
+      failure = "the model refused to answer"
+    } else if (message.stop_reason === "max_tokens") {
+      failure = "the output was cut off at the token limit"
+    } else if (!toolUse?.input) {
+      failure = "the model returned no output"
+    }
+
+    return {
+      output: failure ? undefined : toolUse!.input,
+      failure,
+      usage: {
+        inputTokens,
+        cachedInputTokens: message.usage?.cache_read_input_tokens || 0,
+        outputTokens,
+        // Not reported separately; thinking is off for tool-forced calls
+        reasoningTokens: 0,
+        totalTokens: inputTokens + outputTokens
+      },
+      model: message.model || model
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import { ModelTier } from "../validation"
+import { aiCacheKey, getCachedOutput, storeCachedOutput } from "./cache"
+import { AIOutputInvalidError } from "./errors"
+import { sumUsage } from "./pricing"
+import { validateAgainstSchema, JsonSchema } from "./schema"
+import {
+  LLMProvider,
+  LLMProviderName,
+  LLMUsage,
+  RawCompletion,
+  StructuredCompletionParams,
+  StructuredCompletionResult,
+  TierModel,
+  LLM_MAX_ATTEMPTS
+} from "./types"
+
+// Enough of a rejected answer for the model to see what went wrong
+const MAX_REPAIR_ECHO_LENGTH = 2000
+
+function repairContent(content: string, output: unknown, problems: string[]): string {
+  const previous = output === undefined ? null : JSON.stringify(output).slice(0, MAX_REPAIR_ECHO_LENGTH)
+
+  return [
+    content,
+    "",
+    `Your previous answer could not be used: ${problems.join("; ")}.`,
+    ...(previous ? [`Previous answer: ${previous}`] : []),
+    "Answer again with JSON that follows the schema exactly. Keep reasoning fields brief."
+  ].join("\n")
+}
+
+/**
+ * Shared by every provider: each answer is validated against the schema it was
+ * asked for, and refused, truncated or invalid answers are retried with a repair
+ * prompt listing the problems. Gives up with AIOutputInvalidError after
+ * LLM_MAX_ATTEMPTS attempts. Valid answers are cached by content (see cache.ts).
+ */
+export abstract class BaseLLMProvider implements LLMProvider {
+  abstract readonly name: LLMProviderName
+  abstract readonly tiers: Record<ModelTier, TierModel>
+
+  // One call to the provider's API
+  protected abstract complete(params: StructuredCompletionParams): Promise<RawCompletion>
+
+  async completeStructured<T = Record<string, unknown>>(params: StructuredCompletionParams): Promise<StructuredCompletionResult<T>> {
+    const cacheKey = aiCacheKey({
+      provider: this.name,
+      tierModel: this.tiers[params.tier],
+      name: params.name,
+      schema: params.schema,
+      content: params.content
+    })
+
+    const hit = await getCachedOutput(cacheKey)
+    if (hit) {
+      return {
+        data: hit.output as T,
+        usage: sumUsage([]),
+        model: hit.model,
+        cached: true
+      }
+    }
+
+    const usages: LLMUsage[] = []
+    let content = params.content
+    let problems: string[] = []
+    let model = this.tiers[params.tier].model
+
+    for (let attempt = 1; attempt <= LLM_MAX_ATTEMPTS; attempt++) {
+      const completion = await this.complete({ ...params, content })
+      usages.push(completion.usage)
+      model = completion.model
+
+      problems = completion.failure
+        ? [completion.failure]
+        : validateAgainstSchema(completion.output, params.schema as JsonSchema)
+
+      if (problems.length === 0) {
+        await storeCachedOutput(cacheKey, completion.output, completion.model)
+        return {
+          data: completion.output as T,
+          usage: sumUsage(usages),
+          model: completion.model,
+          cached: false
+        }
+      }
+
+      console.warn(`Invalid AI output for ${params.name} (attempt ${attempt} of ${LLM_MAX_ATTEMPTS}):`, problems)
+      content = repairContent(params.content, completion.output, problems)
+    }
+
+    throw new AIOutputInvalidError(params.name, LLM_MAX_ATTEMPTS, problems, {
+      model,
+      cached: false,
+      ...sumUsage(usages)
+    })
+  }
+}
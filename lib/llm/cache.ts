@@ -0,0 +1,143 @@
+/**
+ * Content-addressed cache of validated AI output
+ * Keyed by a hash of the provider, model, schema and canonicalized input, so an
+ * unchanged record evaluated with the same rules (which live in the schema) is
+ * answered without calling the model again.
+ */
+
+import { createHash } from "crypto"
+import { kv } from "@vercel/kv"
+import { TierModel } from "./types"
+
+interface CachedOutput {
+  output: unknown
+  model: string
+  createdAt: number
+}
+
+// Check if KV is available
+const isKVAvailable = Boolean(process.env.KV_REST_API_URL)
+
+// In-memory storage for local development
+const inMemoryStore = new Map<string, CachedOutput>()
+
+// Nightly scans re-evaluate mostly unchanged records, so keep results for a week
+const DEFAULT_AI_CACHE_TTL_SECONDS = 7 * 24 * 60 * 60
+
+/**
+ * Cache lifetime from AI_CACHE_TTL_SECONDS; 0 disables the cache
+ */
+function cacheTTLSeconds(): number {
+  const configured = Number(process.env.AI_CACHE_TTL_SECONDS)
+  return process.env.AI_CACHE_TTL_SECONDS !== undefined && Number.isFinite(configured) && configured >= 0
+    ? Math.floor(configured)
+    : DEFAULT_AI_CACHE_TTL_SECONDS
+}
+
+// JSON with object keys sorted, so key order never changes the hash
+function canonicalJSON(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJSON).join(",")}]`
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJSON(entry)}`).join(",")}}`
+  }
+  return JSON.stringify(value)
+}
+
+// JSON content is canonicalized; anything else is hashed as sent
+function normalizeContent(content: string): string {
+  try {
+    return canonicalJSON(JSON.parse(content))
+  } catch {
+    return content
+  }
+}
+
+export function aiCacheKey(params: {
+  provider: string
+  tierModel: TierModel
+  name: string
+  schema: Record<string, unknown>
+  content: string
+}): string {
+  const hash = createHash("sha256")
+    .update(canonicalJSON({
+      provider: params.provider,
+      model: params.tierModel.model,
+      reasoningEffort: params.tierModel.reasoningEffort,
+      name: params.name,
+      schema: params.schema
+    }))
+    .update("\n")
+    .update(normalizeContent(params.content))
+    .digest("hex")
+
+  return `ai-cache:${hash}`
+}
+
+/**
+ * Look up a cached output
+ * Errors are logged and treated as a miss so the model is called instead.
+ */
+export async function getCachedOutput(key: string): Promise<CachedOutput | null> {
+  const ttlSeconds = cacheTTLSeconds()
+  if (ttlSeconds === 0) {
+    return null
+  }
+
+  try {
+    if (isKVAvailable) {
+      return await kv.get<CachedOutput>(key)
+    }
+
+    // Use in-memory for local dev
+    const record = inMemoryStore.get(key)
+    if (record && Date.now() - record.createdAt < ttlSeconds * 1000) {
+      // Copy so callers can't mutate the stored output
+      return { ...record, output: structuredClone(record.output) }
+    }
+    inMemoryStore.delete(key)
+    return null
+  } catch (error) {
+    console.error("Error reading AI cache:", error)
+    return null
+  }
+}
+
+/**
+ * Store a validated output for later identical requests
+ */
+export async function storeCachedOutput(key: string, output: unknown, model: string): Promise<void> {
+  const ttlSeconds = cacheTTLSeconds()
+  if (ttlSeconds === 0) {
+    return
+  }
+
+  const record: CachedOutput = { output, model, createdAt: Date.now() }
+
+  try {
+    if (isKVAvailable) {
+      await kv.set(key, record, { ex: ttlSeconds })
+    } else {
+      // Use in-memory for local dev
+      inMemoryStore.set(key, { ...record, output: structuredClone(output) })
+
+      // Cleanup old entries if map gets too large
+      if (inMemoryStore.size > 1000) {
+        const now = Date.now()
+        for (const [k, v] of inMemoryStore.entries()) {
+          if (now - v.createdAt >= ttlSeconds * 1000) {
+            inMemoryStore.delete(k)
+          }
+        }
+      }
+    }
+  } catch (error) {
+    console.error("Error storing AI cache entry:", error)
+    // Don't throw - caching is not critical
+  }
+}
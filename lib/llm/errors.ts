@@ -0,0 +1,23 @@
+import { OperationError } from "../operations"
+import { AIUsage } from "./types"
+
+/**
+ * Thrown when the model's output still fails the schema after every repair retry
+ * (refused, truncated, unparseable or schema-violating)
+ * usage sums every failed attempt, so callers can still record what they cost.
+ */
+export class AIOutputInvalidError extends OperationError {
+  readonly code = "ai_output_invalid"
+
+  constructor(schemaName: string, attempts: number, readonly problems: string[], readonly usage: AIUsage) {
+    const message = `The AI returned invalid output for ${schemaName} after ${attempts} attempts`
+    super(message, 502, {
+      error: message,
+      code: "ai_output_invalid",
+      schema: schemaName,
+      problems
+    })
+    this.name = "AIOutputInvalidError"
+    this.aiUsages = [usage]
+  }
+}
@@ -0,0 +1,117 @@
+import { readFileSync } from "fs"
+import { ModelTier } from "../validation"
+import { BaseLLMProvider } from "./base"
+import { typesOf, JsonSchema } from "./schema"
+import { LLMProviderName, RawCompletion, StructuredCompletionParams, TierModel } from "./types"
+
+export const FIXTURE_TIERS: Record<ModelTier, TierModel> = {
+  fast: { model: "fixture-fast", reasoningEffort: null },
+  balanced: { model: "fixture-balanced", reasoningEffort: null },
+  accurate: { model: "fixture-accurate", reasoningEffort: null }
+}
+
+// Canned answers for schemas where a generic one would trigger writes or fail
+// validation (a merge decision must name a record from the input)
+const BUILTIN_FIXTURES: Record<string, (input: Record<string, unknown>) => Record<string, unknown>> = {
+  merge_decision: input => ({
+    recommendedAction: "KEEP",
+    reasoning: "Fixture response.",
+    confidence: "LOW",
+    primaryRecordId: String((input.currentRecord as { id?: unknown } | undefined)?.id ?? "")
+  }),
+  cluster_primary: input => ({
+    primaryRecordId: String((input.clusterRecords as Array<{ id?: unknown }> | undefined)?.[0]?.id ?? ""),
+    reasoning: "Fixture response.",
+    confidence: "LOW"
+  })
+}
+
+function matchesSchema(value: unknown, schema: JsonSchema): boolean {
+  if (schema.enum) return schema.enum.includes(value)
+  return typesOf(schema).some(type =>
+    (type === "string" && typeof value === "string") ||
+    (type === "number" && typeof value === "number") ||
+    (type === "integer" && Number.isInteger(value)) ||
+    (type === "boolean" && typeof value === "boolean")
+  )
+}
+
+/**
+ * Smallest value satisfying the schema. Nullable fields echo the input value of
+ * the same name when it fits (so cleaning is an identity), else null.
+ */
+function fromSchema(schema: JsonSchema, input: Record<string, unknown>, key?: string): unknown {
+  const types = typesOf(schema)
+
+  if (types.includes("null")) {
+    const echoed = key !== undefined ? input[key] : undefined
+    return echoed !== undefined && echoed !== null && matchesSchema(echoed, schema) ? echoed : null
+  }
+
+  if (schema.enum) return schema.enum[0]
+  if (types.includes("object")) {
+    const result: Record<string, unknown> = {}
+    for (const property of schema.required || Object.keys(schema.properties || {})) {
+      result[property] = fromSchema(schema.properties?.[property] || {}, input, property)
+    }
+    return result
+  }
+  if (types.includes("array")) return []
+  if (types.includes("string")) return "Fixture response."
+  if (types.includes("number") || types.includes("integer")) return 0
+  if (types.includes("boolean")) return false
+  return null
+}
+
+// Rough token count (~4 characters per token) so usage and cost stay non-zero
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+/**
+ * Deterministic, offline provider for local development and tests
+ * Answers come from the LLM_FIXTURES_PATH file ({ "<schema name>": <output> })
+ * when it has one for the schema, otherwise they're derived from the schema.
+ */
+export class FixtureProvider extends BaseLLMProvider {
+  readonly name: LLMProviderName = "fixture"
+  readonly tiers = FIXTURE_TIERS
+  private fixtures: Record<string, Record<string, unknown>>
+
+  constructor(fixturesPath?: string) {
+    super()
+    this.fixtures = fixturesPath ? JSON.parse(readFileSync(fixturesPath, "utf8")) : {}
+  }
+
+  protected async complete(params: StructuredCompletionParams): Promise<RawCompletion> {
+    let input: Record<string, unknown> = {}
+    try {
+      const parsed = JSON.parse(params.content)
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+        input = parsed
+      }
+    } catch {
+      // Non-JSON content: nothing to echo
+    }
+
+    const data = this.fixtures[params.name]
+      ?? BUILTIN_FIXTURES[params.name]?.(input)
+      ?? fromSchema(params.schema as JsonSchema, input)
+
+    const inputTokens = estimateTokens(params.content)
+    const outputTokens = estimateTokens(JSON.stringify(data))
+
+    return {
+      // Copy so callers can't mutate the loaded fixtures
+      output: JSON.parse(JSON.stringify(data)),
+      usage: {
+        inputTokens,
+        cachedInputTokens: 0,
+        outputTokens,
+        reasoningTokens: 0,
+        totalTokens: inputTokens + outputTokens
+      },
+      model: this.tiers[params.tier].model
+    }
+  }
+}
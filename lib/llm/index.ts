@@ -0,0 +1,70 @@
+import { MODEL_TIERS, ModelTier } from "../validation"
+import { LLMProvider, LLMProviderName, TierModel } from "./types"
+import { OpenAIProvider, OPENAI_DEFAULT_TIERS } from "./openai"
+import { AnthropicProvider, ANTHROPIC_DEFAULT_TIERS } from "./anthropic"
+import { LocalProvider } from "./local"
+import { FixtureProvider } from "./fixture"
+import { resolveTierModels } from "./tiers"
+
+export { tierCreditCost, TIER_CREDIT_MULTIPLIERS } from "./tiers"
+export { AIOutputInvalidError } from "./errors"
+export { validateAgainstSchema } from "./schema"
+export { aiStepUsage, billableCalls, calculateCostUSD, getModelPricing, sumUsage, toAIUsage, totalCostUSD, MODEL_PRICING } from "./pricing"
+export type { ModelPricing } from "./pricing"
+export type { AIUsage, LLMProvider, LLMProviderName, LLMUsage, RawCompletion, ReasoningEffort, StructuredCompletionParams, StructuredCompletionResult, TierModel } from "./types"
+
+const LLM_PROVIDERS: readonly LLMProviderName[] = ["openai", "anthropic", "local", "fixture"]
+
+let llmProvider: LLMProvider | null = null
+
+/**
+ * Create the LLM provider selected by LLM_PROVIDER (default: openai)
+ * Tier models can be overridden per tier, see resolveTierModels.
+ */
+export function createLLMProvider(env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  const name = (env.LLM_PROVIDER || "openai") as LLMProviderName
+
+  switch (name) {
+    case "openai": {
+      if (!env.OPENAI_API_KEY) {
+        throw new Error("OPENAI_API_KEY is not configured in environment variables")
+      }
+      return new OpenAIProvider(env.OPENAI_API_KEY, resolveTierModels(OPENAI_DEFAULT_TIERS, env))
+    }
+
+    case "anthropic": {
+      if (!env.ANTHROPIC_API_KEY) {
+        throw new Error("ANTHROPIC_API_KEY is not configured in environment variables")
+      }
+      return new AnthropicProvider(env.ANTHROPIC_API_KEY, resolveTierModels(ANTHROPIC_DEFAULT_TIERS, env))
+    }
+
+    case "local": {
+      // No sensible default model: every tier needs LLM_MODEL or its own LLM_<TIER>_MODEL
+      const tiers = resolveTierModels(
+        Object.fromEntries(MODEL_TIERS.map(tier => [tier, { model: "", reasoningEffort: null }])) as Record<ModelTier, TierModel>,
+        env
+      )
+      if (!env.LOCAL_LLM_BASE_URL || MODEL_TIERS.some(tier => !tiers[tier].model)) {
+        throw new Error("LOCAL_LLM_BASE_URL and LLM_MODEL (or LLM_<TIER>_MODEL for every tier) must be configured for the local LLM provider")
+      }
+      return new LocalProvider(env.LOCAL_LLM_BASE_URL, tiers, env.LOCAL_LLM_API_KEY)
+    }
+
+    case "fixture":
+      return new FixtureProvider(env.LLM_FIXTURES_PATH)
+
+    default:
+      throw new Error(`Unsupported LLM provider: ${name}. Supported: ${LLM_PROVIDERS.join(", ")}`)
+  }
+}
+
+/**
+ * Shared provider for the process, created on first use
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!llmProvider) {
+    llmProvider = createLLMProvider()
+  }
+  return llmProvider
+}
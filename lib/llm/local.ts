@@ -0,0 +1,18 @@
+import { ModelTier } from "../validation"
+import { OpenAIProvider } from "./openai"
+import { LLMProviderName, TierModel } from "./types"
+
+/**
+ * Any server speaking the OpenAI chat completions API (vLLM, Ollama,
+ * llama.cpp, LM Studio...) with json_schema response_format support
+ * Tiers carry no reasoning effort unless configured: local servers commonly
+ * reject OpenAI-only fields such as reasoning_effort.
+ */
+export class LocalProvider extends OpenAIProvider {
+  readonly name: LLMProviderName = "local"
+
+  constructor(baseURL: string, tiers: Record<ModelTier, TierModel>, apiKey?: string) {
+    // The SDK insists on a key; most local servers ignore it
+    super(apiKey || "local", tiers, baseURL)
+  }
+}
@@ -0,0 +1,84 @@
+import OpenAI from "openai"
+import { ModelTier } from "../validation"
+import { BaseLLMProvider } from "./base"
+import { LLMProviderName, RawCompletion, StructuredCompletionParams, TierModel, LLM_MAX_OUTPUT_TOKENS, LLM_TIMEOUT_MS } from "./types"
+
+// Reasoning models only need a little thinking for these tasks
+export const OPENAI_DEFAULT_TIERS: Record<ModelTier, TierModel> = {
+  fast: { model: "gpt-5-nano-2025-08-07", reasoningEffort: "low" },
+  balanced: { model: "gpt-5-mini-2025-08-07", reasoningEffort: "low" },
+  accurate: { model: "gpt-5-2025-08-07", reasoningEffort: "medium" }
+}
+
+/**
+ * OpenAI chat completions with strict json_schema output
+ */
+export class OpenAIProvider extends BaseLLMProvider {
+  readonly name: LLMProviderName = "openai"
+  protected client: OpenAI
+
+  constructor(apiKey: string, readonly tiers: Record<ModelTier, TierModel> = OPENAI_DEFAULT_TIERS, baseURL?: string) {
+    super()
+    this.client = new OpenAI({
+      apiKey,
+      baseURL,
+      timeout: LLM_TIMEOUT_MS,
+      maxRetries: 2
+    })
+  }
+
+  protected async complete(params: StructuredCompletionParams): Promise<RawCompletion> {
+    const { model, reasoningEffort } = this.tiers[params.tier]
+
+    const completion = await this.client.chat.completions.create({
+      model,
+      ...(reasoningEffort ? { reasoning_effort: reasoningEffort } : {}),
+      messages: [
+        {
+          role: "user",
+          content: params.content,
+        },
+      ],
+      response_format: {
+        type: "json_schema",
+        json_schema: {
+          name: params.name,
+          schema: params.schema,
+          strict: true
+        }
+      },
+      max_completion_tokens: LLM_MAX_OUTPUT_TOKENS
+    })
+
+    const choice = completion.choices[0]
+    let output: unknown
+    let failure: string | undefined
+
+    if (choice?.message?.refusal) {
+      failure = `the model refused: ${choice.message.refusal}`
+    } else if (choice?.finish_reason === "length") {
+      failure = "the output was cut off at the token limit"
+    } else if (!choice?.message?.content) {
+      failure = "the model returned no output"
+    } else {
+      try {
+        output = JSON.parse(choice.message.content)
+      } catch {
+        failure = "the output is not valid JSON"
+      }
+    }
+
+    return {
+      output,
+      failure,
+      usage: {
+        inputTokens: completion.usage?.prompt_tokens || 0,
+        cachedInputTokens: completion.usage?.prompt_tokens_details?.cached_tokens || 0,
+        outputTokens: completion.usage?.completion_tokens || 0,
+        reasoningTokens: completion.usage?.completion_tokens_details?.reasoning_tokens || 0,
+        totalTokens: completion.usage?.total_tokens || 0
+      },
+      model: completion.model || model
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { AIUsage, LLMUsage, StructuredCompletionResult } from "./types"
+
+// USD per 1M tokens
+export interface ModelPricing {
+  input: number
+  // Input tokens served from the provider's prompt cache
+  cachedInput: number
+  output: number
+  // Reasoning/thinking tokens (counted within output tokens by the providers)
+  reasoning: number
+}
+
+/**
+ * Published list prices, keyed by model ID prefix so dated snapshots
+ * ("gpt-5-nano-2025-08-07", "claude-haiku-4-5-20251001") share an entry
+ * Keep in sync with the tier defaults in openai.ts and anthropic.ts.
+ */
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  // https://openai.com/api/pricing
+  "gpt-5-nano": { input: 0.05, cachedInput: 0.005, output: 0.40, reasoning: 0.40 },
+  "gpt-5-mini": { input: 0.25, cachedInput: 0.025, output: 2.00, reasoning: 2.00 },
+  "gpt-5": { input: 1.25, cachedInput: 0.125, output: 10.00, reasoning: 10.00 },
+  // https://www.anthropic.com/pricing#api (cachedInput is the cache read rate)
+  "claude-haiku-4-5": { input: 1.00, cachedInput: 0.10, output: 5.00, reasoning: 5.00 },
+  "claude-sonnet-4-5": { input: 3.00, cachedInput: 0.30, output: 15.00, reasoning: 15.00 },
+  "claude-opus-4-1": { input: 15.00, cachedInput: 1.50, output: 75.00, reasoning: 75.00 },
+  // The fixture provider never calls out
+  "fixture": { input: 0, cachedInput: 0, output: 0, reasoning: 0 }
+}
+
+const warnedUnpricedModels = new Set<string>()
+
+/**
+ * Pricing for a model, matched on the longest registered prefix
+ * Returns null for models we have no price for (e.g. local models).
+ */
+export function getModelPricing(model: string): ModelPricing | null {
+  const key = Object.keys(MODEL_PRICING)
+    .filter(prefix => model === prefix || model.startsWith(`${prefix}-`))
+    .sort((a, b) => b.length - a.length)[0]
+
+  return key ? MODEL_PRICING[key] : null
+}
+
+/**
+ * Cost in USD of one completion's usage, rounded to 6 decimal places
+ * Cached input is billed at the cached rate and reasoning tokens at the reasoning
+ * rate; the rest of input and output at the regular rates. Unpriced models cost 0.
+ */
+export function calculateCostUSD(model: string, usage: LLMUsage): number {
+  const pricing = getModelPricing(model)
+
+  if (!pricing) {
+    if (!warnedUnpricedModels.has(model)) {
+      warnedUnpricedModels.add(model)
+      console.warn(`No pricing registered for model ${model}; its cost is reported as 0`)
+    }
+    return 0
+  }
+
+  const cachedInputTokens = Math.min(usage.cachedInputTokens, usage.inputTokens)
+  const reasoningTokens = Math.min(usage.reasoningTokens, usage.outputTokens)
+
+  const cost = (
+    (usage.inputTokens - cachedInputTokens) * pricing.input +
+    cachedInputTokens * pricing.cachedInput +
+    (usage.outputTokens - reasoningTokens) * pricing.output +
+    reasoningTokens * pricing.reasoning
+  ) / 1_000_000
+
+  return parseFloat(cost.toFixed(6))
+}
+
+/**
+ * Cost in USD of several completions, rounded to 6 decimal places
+ */
+export function totalCostUSD(usages: AIUsage[]): number {
+  const cost = usages.reduce((sum, usage) => sum + calculateCostUSD(usage.model, usage), 0)
+  return parseFloat(cost.toFixed(6))
+}
+
+/**
+ * Token counts of several completions added up
+ */
+export function sumUsage(usages: LLMUsage[]): LLMUsage {
+  return usages.reduce((total, usage) => ({
+    inputTokens: total.inputTokens + usage.inputTokens,
+    cachedInputTokens: total.cachedInputTokens + usage.cachedInputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    reasoningTokens: total.reasoningTokens + usage.reasoningTokens,
+    totalTokens: total.totalTokens + usage.totalTokens
+  }), { inputTokens: 0, cachedInputTokens: 0, outputTokens: 0, reasoningTokens: 0, totalTokens: 0 })
+}
+
+/**
+ * AI calls that reached the model; cached answers are free
+ */
+export function billableCalls(usages: AIUsage[]): number {
+  return usages.filter(usage => !usage.cached).length
+}
+
+export function toAIUsage(completion: StructuredCompletionResult<unknown>): AIUsage {
+  return { model: completion.model, cached: completion.cached, ...completion.usage }
+}
+
+/**
+ * Usage of one AI step as reported in API responses
+ */
+export function aiStepUsage(usage: AIUsage) {
+  return {
+    ...usage,
+    costUSD: calculateCostUSD(usage.model, usage)
+  }
+}
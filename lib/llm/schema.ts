@@ -0,0 +1,88 @@
+/**
+ * Validation of model output against the JSON schema it was asked to follow
+ * Covers the subset our schemas use (OpenAI strict mode): type, enum,
+ * properties, required, additionalProperties and items.
+ */
+
+export type JsonSchema = {
+  type?: string | string[]
+  enum?: unknown[]
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: boolean | JsonSchema
+  items?: JsonSchema
+}
+
+// Problems beyond this are dropped; they only make repair prompts longer
+const MAX_SCHEMA_PROBLEMS = 20
+
+export function typesOf(schema: JsonSchema): string[] {
+  if (Array.isArray(schema.type)) return schema.type
+  return schema.type ? [schema.type] : []
+}
+
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "null": return value === null
+    case "string": return typeof value === "string"
+    case "number": return typeof value === "number" && Number.isFinite(value)
+    case "integer": return Number.isInteger(value)
+    case "boolean": return typeof value === "boolean"
+    case "array": return Array.isArray(value)
+    case "object": return value !== null && typeof value === "object" && !Array.isArray(value)
+    default: return true
+  }
+}
+
+function collectProblems(value: unknown, schema: JsonSchema, path: string, problems: string[]): void {
+  if (problems.length >= MAX_SCHEMA_PROBLEMS) return
+
+  const types = typesOf(schema)
+  if (types.length > 0 && !types.some(type => hasType(value, type))) {
+    problems.push(`${path}: expected ${types.join(" or ")}, got ${value === null ? "null" : Array.isArray(value) ? "array" : typeof value}`)
+    return
+  }
+
+  // Nullable enums list null among their values, so check the enum even for null
+  if (schema.enum && !schema.enum.includes(value)) {
+    problems.push(`${path}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(", ")}`)
+    return
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.items) {
+      value.forEach((item, index) => collectProblems(item, schema.items!, `${path}[${index}]`, problems))
+    }
+    return
+  }
+
+  if (value !== null && typeof value === "object") {
+    const record = value as Record<string, unknown>
+    const properties = schema.properties || {}
+
+    for (const property of schema.required || []) {
+      if (!(property in record)) {
+        problems.push(`${path}.${property}: required property is missing`)
+      }
+    }
+
+    for (const [property, propertyValue] of Object.entries(record)) {
+      if (properties[property]) {
+        collectProblems(propertyValue, properties[property], `${path}.${property}`, problems)
+      } else if (schema.additionalProperties === false) {
+        problems.push(`${path}.${property}: property is not allowed`)
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+        collectProblems(propertyValue, schema.additionalProperties, `${path}.${property}`, problems)
+      }
+    }
+  }
+}
+
+/**
+ * Ways the value violates the schema, as "$.path: problem" strings (empty when valid)
+ */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema): string[] {
+  const problems: string[] = []
+  collectProblems(value, schema, "$", problems)
+  return problems
+}
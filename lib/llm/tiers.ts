@@ -0,0 +1,44 @@
+import { MODEL_TIERS, ModelTier } from "../validation"
+import { REASONING_EFFORTS, ReasoningEffort, TierModel } from "./types"
+
+// Credits per AI call relative to the fast tier
+export const TIER_CREDIT_MULTIPLIERS: Record<ModelTier, number> = {
+  fast: 1,
+  balanced: 2,
+  accurate: 4
+}
+
+/**
+ * Credits for an operation that makes `aiCalls` AI calls on the given tier
+ */
+export function tierCreditCost(tier: ModelTier, aiCalls: number): number {
+  return aiCalls * TIER_CREDIT_MULTIPLIERS[tier]
+}
+
+/**
+ * Apply environment overrides to a provider's default tier models
+ * LLM_<TIER>_MODEL and LLM_<TIER>_REASONING_EFFORT (e.g. LLM_ACCURATE_MODEL)
+ * override one tier; LLM_MODEL overrides the model of every tier.
+ */
+export function resolveTierModels(
+  defaults: Record<ModelTier, TierModel>,
+  env: NodeJS.ProcessEnv
+): Record<ModelTier, TierModel> {
+  const tiers = {} as Record<ModelTier, TierModel>
+
+  for (const tier of MODEL_TIERS) {
+    const prefix = `LLM_${tier.toUpperCase()}`
+    const effort = env[`${prefix}_REASONING_EFFORT`]
+
+    if (effort && !(REASONING_EFFORTS as readonly string[]).includes(effort)) {
+      throw new Error(`Invalid ${prefix}_REASONING_EFFORT '${effort}'. Supported: ${REASONING_EFFORTS.join(", ")}`)
+    }
+
+    tiers[tier] = {
+      model: env[`${prefix}_MODEL`] || env.LLM_MODEL || defaults[tier].model,
+      reasoningEffort: (effort as ReasoningEffort | undefined) ?? defaults[tier].reasoningEffort
+    }
+  }
+
+  return tiers
+}
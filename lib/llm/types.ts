@@ -0,0 +1,80 @@
+/**
+ * Common types for LLM providers
+ */
+
+import { ModelTier } from "../validation"
+
+export type LLMProviderName = "openai" | "anthropic" | "local" | "fixture"
+
+// Timeout for a single completion call (30 seconds)
+export const LLM_TIMEOUT_MS = 30000
+
+// Upper bound on output tokens (reasoning included) per completion
+export const LLM_MAX_OUTPUT_TOKENS = 16000
+
+// Attempts per structured completion: the first call plus repair retries
+export const LLM_MAX_ATTEMPTS = 3
+
+export const REASONING_EFFORTS = ["minimal", "low", "medium", "high"] as const
+
+export type ReasoningEffort = typeof REASONING_EFFORTS[number]
+
+// What a model tier runs on for a given provider
+export interface TierModel {
+  model: string
+  // null where the provider or model has no reasoning effort setting
+  reasoningEffort: ReasoningEffort | null
+}
+
+export interface LLMUsage {
+  inputTokens: number
+  // Part of inputTokens served from the provider's prompt cache
+  cachedInputTokens: number
+  outputTokens: number
+  reasoningTokens: number
+  totalTokens: number
+}
+
+// Token usage of one completion and the model that ran it
+export interface AIUsage extends LLMUsage {
+  model: string
+  // Answered from the AI cache (no tokens used)
+  cached: boolean
+}
+
+export interface StructuredCompletionParams {
+  // Schema name, e.g. "duplicate_search"; fixtures are keyed by it
+  name: string
+  // JSON schema the output must follow (OpenAI strict-mode compatible)
+  schema: Record<string, unknown>
+  // User message, usually the JSON-serialized input record(s)
+  content: string
+  tier: ModelTier
+}
+
+// A provider's answer before it is checked against the schema
+export interface RawCompletion {
+  // Parsed output, undefined when there is nothing to validate
+  output: unknown
+  // Why there is no output: refusal, truncation or unparseable JSON
+  failure?: string
+  usage: LLMUsage
+  model: string
+}
+
+export interface StructuredCompletionResult<T> {
+  // Output, validated against the schema
+  data: T
+  // Usage of every attempt, repair retries included
+  usage: LLMUsage
+  // Model that produced the output
+  model: string
+  // Served from the AI cache: no model call and zero usage
+  cached: boolean
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName
+  readonly tiers: Record<ModelTier, TierModel>
+  completeStructured<T = Record<string, unknown>>(params: StructuredCompletionParams): Promise<StructuredCompletionResult<T>>
+}
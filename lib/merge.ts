@@ -0,0 +1,1157 @@
+/**
+ * Company merge pipeline shared by the merge endpoint and background jobs:
+ * option validation, the three AI steps and the CRM update + merge, plus
+ * multi-way merges of a whole duplicate cluster
+ */
+
+import { getLLMProvider, billableCalls, tierCreditCost, toAIUsage, aiStepUsage, totalCostUSD, AIUsage } from './llm'
+import {
+  createCRMClient,
+  diffPropertyUpdates,
+  getPriorValues,
+  hasVersionChanged,
+  versionConflictResponseBody,
+  UnsupportedCRMOperationError,
+  CRMClient,
+  CompanyFilterGroup,
+  GetCompanyResult,
+  WritePlan
+} from './crm'
+import { CRMCredentials } from './crm/types'
+import {
+  validateRecordId,
+  validateClusterRecordIds,
+  sanitizeRule,
+  sanitizePropertyRules,
+  validateMode,
+  validateModelTier,
+  sanitizeErrorMessage,
+  OperationMode,
+  ModelTier,
+  DEFAULT_MODEL_TIER
+} from './validation'
+import { createOperationId, saveSnapshot, discardSnapshot, withAIUsages, OperationError } from './operations'
+import { logAuditEvent, AuditEventType } from './audit'
+
+// Clean filter values to remove JSON syntax and malformed patterns
+function cleanFilterValue(value: string | null): string | null {
+  if (!value || typeof value !== 'string') return value
+
+  return value
+    .replace(/[{}\[\],"']+$/g, '') // Remove trailing JSON syntax: { } [ ] , " '
+    .replace(/[:/?#&=].*$/g, '')    // Remove everything after URL-like chars: : / ? # & =
+    .replace(/^https?:\/\//g, '')   // Remove protocol prefix if present
+    .trim()
+}
+
+// Step 1: Duplicate search filter generation schema (base)
+const BASE_DUPLICATE_SEARCH_SCHEMA = {
+  "type": "object",
+  "description": "Generate CRM search filters. Extract clean property values from input - NO JSON syntax chars in values. OR logic between filterGroups, AND within. Max 5 groups. Priority 1=domain; Priority 2=name+city/phone/fuzzy; Priority 3=address+city.",
+  "properties": {
+    "filterGroups": {
+      "type": "array",
+      "description": "Filter groups combined with OR logic. Each group is independent duplicate criterion.",
+      "items": {
+        "type": "object",
+        "description": "Single filter group with AND logic between all filters.",
+        "properties": {
+          "filters": {
+            "type": "array",
+            "description": "Filters within group (AND logic). Skip null/empty properties.",
+            "items": {
+              "type": "object",
+              "description": "Single filter: property + operator + value. VALUE MUST BE CLEAN STRING.",
+              "properties": {
+                "propertyName": {
+                  "type": "string",
+                  "description": "Company property: name/domain/website/phone/city/state/postalCode/country/street. No spaces."
+                },
+                "operator": {
+                  "type": "string",
+                  "description": "EQ=exact match, CONTAINS_TOKEN=fuzzy text, IN=multiple values, HAS_PROPERTY=exists check.",
+                  "enum": ["EQ", "NEQ", "IN", "NOT_IN", "HAS_PROPERTY", "NOT_HAS_PROPERTY", "CONTAINS_TOKEN"]
+                },
+                "value": {
+                  "type": ["string", "null"],
+                  "description": "Extract ONLY the core property value - no extra characters. CORRECT: 'acme.com', 'John Smith', '555-1234'. WRONG: 'acme.com}', 'acme.com:n/a?', 'acme.com:80', 'acme.com/path', 'http://acme.com'. For domains: strip protocol/port/path/query. NO trailing : / ? # & = chars. NO { } [ ] , \" '. Null for HAS_PROPERTY/NOT_HAS_PROPERTY/IN/NOT_IN."
+                },
+                "values": {
+                  "type": ["array", "null"],
+                  "description": "Array of strings for IN/NOT_IN operators only. Null otherwise.",
+                  "items": {
+                    "type": "string"
+                  }
+                }
+              },
+              "required": ["propertyName", "operator", "value", "values"],
+              "additionalProperties": false
+            }
+          }
+        },
+        "required": ["filters"],
+        "additionalProperties": false
+      }
+    },
+    "reasoning": {
+      "type": "string",
+      "description": "1 sentence: explain duplicate search strategy and key properties used."
+    },
+    "confidence": {
+      "type": "string",
+      "description": "HIGH=strong identifiers (domain/phone). MEDIUM=name+location. LOW=weak/generic data.",
+      "enum": ["LOW", "MEDIUM", "HIGH"]
+    }
+  },
+  "required": ["filterGroups", "reasoning", "confidence"],
+  "additionalProperties": false
+}
+
+// Step 2: Merge decision schema (base)
+const BASE_MERGE_DECISION_SCHEMA = {
+  "type": "object",
+  "description": "Decide KEEP vs MERGE for current record. Scoring: completeness 40%, quality 25%, engagement 20%, source 10%, history 5%. TIEBREAKER: oldest created date wins.",
+  "properties": {
+    "recommendedAction": {
+      "type": "string",
+      "description": "KEEP=current record stays primary (primaryRecordId=current). MERGE=current merges into primaryRecordId (another duplicate).",
+      "enum": ["MERGE", "KEEP"]
+    },
+    "reasoning": {
+      "type": "string",
+      "description": "2-3 sentences: (1) Why duplicates/not, (2) Why this primary choice, (3) Key factors. Include relevant dates/scores if using tiebreaker."
+    },
+    "confidence": {
+      "type": "string",
+      "description": "HIGH=clear indicators (domain/phone match) + 80%+ overlap. MEDIUM=50-80% overlap + minor conflicts. LOW=weak indicators/conflicts.",
+      "enum": ["LOW", "MEDIUM", "HIGH"]
+    },
+    "primaryRecordId": {
+      "type": "string",
+      "description": "ID of primary record. Equals current ID if KEEP, duplicate ID if MERGE. TIEBREAKER: when scores within 5pts, select oldest createdate."
+    }
+  },
+  "required": ["recommendedAction", "reasoning", "confidence", "primaryRecordId"],
+  "additionalProperties": false
+}
+
+// Step 3: Field-by-field merge schema (base)
+const BASE_MERGE_FIELD_SCHEMA = {
+  "type": "object",
+  "description": "Field-level merge analysis. Only update primary with better/newer values from current.",
+  "properties": {
+    "primaryRecordPropertiesToUpdate": {
+      "type": "object",
+      "description": "Property map: {propertyName: newValue}. Only include if current > primary. Empty {} if no updates. Example: {\"phone\":\"+1-555-0123\"}.",
+      "additionalProperties": {
+        "type": "string"
+      }
+    },
+    "reasoning": {
+      "type": "string",
+      "description": "1-2 sentences: merge strategy + key decisions."
+    },
+    "confidence": {
+      "type": "string",
+      "enum": ["LOW", "MEDIUM", "HIGH"],
+      "description": "HIGH=clear path, MEDIUM=ambiguity, LOW=uncertain."
+    }
+  },
+  "required": ["reasoning", "confidence"],
+  "additionalProperties": false
+}
+
+// Cluster merge: primary selection schema (base)
+const BASE_CLUSTER_PRIMARY_SCHEMA = {
+  "type": "object",
+  "description": "Pick the primary record that survives a duplicate cluster; every other record merges into it. Scoring: completeness 40%, quality 25%, engagement 20%, source 10%, history 5%. TIEBREAKER: oldest created date wins.",
+  "properties": {
+    "primaryRecordId": {
+      "type": "string",
+      "description": "ID of the primary record. MUST be one of the cluster record IDs. TIEBREAKER: when scores within 5pts, select oldest createdate."
+    },
+    "reasoning": {
+      "type": "string",
+      "description": "2-3 sentences: why this primary over the other members. Include relevant dates/scores if using tiebreaker."
+    },
+    "confidence": {
+      "type": "string",
+      "description": "HIGH=clear winner. MEDIUM=close scores. LOW=members barely distinguishable.",
+      "enum": ["LOW", "MEDIUM", "HIGH"]
+    }
+  },
+  "required": ["primaryRecordId", "reasoning", "confidence"],
+  "additionalProperties": false
+}
+
+// Cluster merge: field-level survivorship schema (base)
+const BASE_SURVIVORSHIP_SCHEMA = {
+  "type": "object",
+  "description": "Field-level survivorship across a duplicate cluster. For each property pick the best/newest value held by ANY member and keep it on the primary record.",
+  "properties": {
+    "survivingValues": {
+      "type": "array",
+      "description": "One entry per property whose surviving value differs from the primary's current value. Empty [] if the primary already holds the best values.",
+      "items": {
+        "type": "object",
+        "properties": {
+          "propertyName": {
+            "type": "string",
+            "description": "Company property name, exactly as it appears on the records."
+          },
+          "value": {
+            "type": "string",
+            "description": "Surviving value for the property."
+          },
+          "sourceRecordId": {
+            "type": "string",
+            "description": "ID of the cluster member the value comes from."
+          }
+        },
+        "required": ["propertyName", "value", "sourceRecordId"],
+        "additionalProperties": false
+      }
+    },
+    "reasoning": {
+      "type": "string",
+      "description": "1-2 sentences: survivorship strategy + key decisions."
+    },
+    "confidence": {
+      "type": "string",
+      "enum": ["LOW", "MEDIUM", "HIGH"],
+      "description": "HIGH=clear path, MEDIUM=ambiguity, LOW=uncertain."
+    }
+  },
+  "required": ["survivingValues", "reasoning", "confidence"],
+  "additionalProperties": false
+}
+
+// Schema builder for Step 1: Duplicate search
+interface DuplicateSearchInput {
+  duplicateRules?: string
+}
+
+function buildDuplicateSearchSchema(input: DuplicateSearchInput) {
+  const schema = JSON.parse(JSON.stringify(BASE_DUPLICATE_SEARCH_SCHEMA))
+
+  // Add duplicateRules to root description
+  if (input.duplicateRules && typeof input.duplicateRules === "string" && input.duplicateRules.trim()) {
+    schema.description = `${schema.description} User rules: ${input.duplicateRules}`
+  }
+
+  return schema
+}
+
+// Schema builder for Step 2: Merge decision
+interface MergeDecisionInput {
+  primaryRules?: string
+}
+
+// candidateRecordIds: the current record and the duplicates found; any other
+// primaryRecordId fails schema validation and is retried as invalid output
+function buildMergeDecisionSchema(input: MergeDecisionInput & { candidateRecordIds: string[] }) {
+  const schema = JSON.parse(JSON.stringify(BASE_MERGE_DECISION_SCHEMA))
+  schema.properties.primaryRecordId.enum = input.candidateRecordIds
+
+  // Add primaryRules to root description
+  if (input.primaryRules && typeof input.primaryRules === "string" && input.primaryRules.trim()) {
+    schema.description = `${schema.description} User rules: ${input.primaryRules}`
+  }
+
+  return schema
+}
+
+// Schema builder for the cluster merge primary selection step
+function buildClusterPrimarySchema(input: MergeDecisionInput) {
+  const schema = JSON.parse(JSON.stringify(BASE_CLUSTER_PRIMARY_SCHEMA))
+
+  // Add primaryRules to root description
+  if (input.primaryRules && typeof input.primaryRules === "string" && input.primaryRules.trim()) {
+    schema.description = `${schema.description} User rules: ${input.primaryRules}`
+  }
+
+  return schema
+}
+
+// Schema builder for Step 3: Field merge
+interface MergeFieldInput {
+  mergeRules?: string
+  mergePropertyRules?: Record<string, string>
+}
+
+function buildMergeFieldSchema(input: MergeFieldInput) {
+  const schema = JSON.parse(JSON.stringify(BASE_MERGE_FIELD_SCHEMA))
+
+  // Add mergeRules to root description
+  if (input.mergeRules && typeof input.mergeRules === "string" && input.mergeRules.trim()) {
+    schema.description = `${schema.description} User rules: ${input.mergeRules}`
+  }
+
+  // Add mergePropertyRules to primaryRecordPropertiesToUpdate description
+  if (input.mergePropertyRules && typeof input.mergePropertyRules === "object") {
+    const propertyRules = Object.entries(input.mergePropertyRules)
+      .filter(([, rule]) => typeof rule === "string" && rule.trim())
+      .map(([property, rule]) => `${property}: ${rule}`)
+      .join(", ")
+
+    if (propertyRules) {
+      schema.properties.primaryRecordPropertiesToUpdate.description = `${schema.properties.primaryRecordPropertiesToUpdate.description} User property rules: ${propertyRules}`
+    }
+  }
+
+  return schema
+}
+
+// Schema builder for the cluster merge survivorship step
+function buildSurvivorshipSchema(input: MergeFieldInput) {
+  const schema = JSON.parse(JSON.stringify(BASE_SURVIVORSHIP_SCHEMA))
+
+  // Add mergeRules to root description
+  if (input.mergeRules && typeof input.mergeRules === "string" && input.mergeRules.trim()) {
+    schema.description = `${schema.description} User rules: ${input.mergeRules}`
+  }
+
+  // Add mergePropertyRules to survivingValues description
+  if (input.mergePropertyRules && typeof input.mergePropertyRules === "object") {
+    const propertyRules = Object.entries(input.mergePropertyRules)
+      .filter(([, rule]) => typeof rule === "string" && rule.trim())
+      .map(([property, rule]) => `${property}: ${rule}`)
+      .join(", ")
+
+    if (propertyRules) {
+      schema.properties.survivingValues.description = `${schema.properties.survivingValues.description} User property rules: ${propertyRules}`
+    }
+  }
+
+  return schema
+}
+
+// Shapes of the AI step outputs (see the schemas above)
+interface DuplicateSearchOutput {
+  filterGroups: CompanyFilterGroup[]
+  reasoning: string
+  confidence: string
+}
+
+interface MergeDecisionOutput {
+  recommendedAction: "MERGE" | "KEEP"
+  reasoning: string
+  confidence: string
+  primaryRecordId: string
+}
+
+interface FieldMergeOutput {
+  primaryRecordPropertiesToUpdate?: Record<string, string>
+  reasoning: string
+  confidence: string
+}
+
+interface ClusterPrimaryOutput {
+  primaryRecordId: string
+  reasoning: string
+  confidence: string
+}
+
+interface SurvivorshipOutput {
+  survivingValues: SurvivingValue[]
+  reasoning: string
+  confidence: string
+}
+
+/**
+ * Options shared by every company in a merge request
+ */
+export interface MergeOptions {
+  duplicateRules?: string
+  primaryRules?: string
+  mergeRules?: string
+  mergePropertyRules?: Record<string, string>
+  mergeRecord: boolean
+  mode: OperationMode
+  // Requested tier; the caller fills in the account default when omitted
+  modelTier?: ModelTier
+}
+
+export interface MergeResult {
+  duplicatesFound: boolean
+  duplicates: GetCompanyResult[]
+  step1DuplicateSearch: {
+    filterGroups: CompanyFilterGroup[]
+    reasoning: string
+    confidence: string
+  }
+  step2MergeDecision: {
+    recommendedAction: "MERGE" | "KEEP"
+    primaryRecordId: string
+    reasoning: string
+    confidence: string
+  }
+  step3FieldMerge: {
+    primaryRecordPropertiesToUpdate: Record<string, string> | undefined
+    reasoning: string
+    confidence: string
+  } | null
+  recordUpdated: boolean
+  recordMerged: boolean
+  operationId: string | null
+  writePlan: (WritePlan & { wouldMerge: { primaryRecordId: string; mergedRecordId: string } }) | null
+  modelTier: ModelTier
+  // Every AI step was answered from the AI cache
+  cached: boolean
+  // 1 credit per AI step that ran, scaled by the model tier (cached steps are free)
+  creditCost: number
+  aiUsage: Record<string, unknown>
+  // Every AI call that ran, for cost records
+  usages: AIUsage[]
+  jsonSchemas: Record<string, unknown>
+}
+
+export interface SurvivingValue {
+  propertyName: string
+  value: string
+  sourceRecordId: string
+}
+
+/**
+ * Outcome for one non-primary member of a cluster merge
+ * planned = not merged because mergeRecord is false or the mode is preview
+ */
+export interface ClusterMemberResult {
+  recordId: string
+  status: "merged" | "failed" | "skipped" | "planned"
+  error?: string
+}
+
+export interface ClusterMergeResult {
+  primaryRecordId: string
+  primarySelection: {
+    selectedBy: "request" | "ai"
+    reasoning: string | null
+    confidence: string | null
+  }
+  survivorship: {
+    survivingValues: SurvivingValue[]
+    reasoning: string
+    confidence: string
+  }
+  recordUpdated: boolean
+  members: ClusterMemberResult[]
+  summary: {
+    total: number
+    merged: number
+    failed: number
+    skipped: number
+  }
+  operationId: string | null
+  writePlan: WritePlan & { wouldMerge: { primaryRecordId: string; mergedRecordIds: string[] } }
+  modelTier: ModelTier
+  // Every AI step was answered from the AI cache
+  cached: boolean
+  // 1 credit per AI step that ran, scaled by the model tier (cached steps are free)
+  creditCost: number
+  aiUsage: Record<string, unknown>
+  // Every AI call that ran, for cost records
+  usages: AIUsage[]
+  jsonSchemas: Record<string, unknown>
+}
+
+/**
+ * Validate and sanitize the shared merge options of a request body
+ */
+export function parseMergeOptions(body: Record<string, unknown>): {
+  options?: MergeOptions
+  error?: string
+} {
+  // Validate operation mode
+  const modeValidation = validateMode(body.mode)
+  if (!modeValidation.valid) {
+    return { error: modeValidation.error }
+  }
+
+  const modelTierValidation = validateModelTier(body.model)
+  if (!modelTierValidation.valid) {
+    return { error: modelTierValidation.error }
+  }
+
+  return {
+    options: {
+      duplicateRules: sanitizeRule(body.duplicateRules as string | undefined),
+      primaryRules: sanitizeRule(body.primaryRules as string | undefined),
+      mergeRules: sanitizeRule(body.mergeRules as string | undefined),
+      mergePropertyRules: sanitizePropertyRules(body.mergePropertyRules as Record<string, string> | undefined),
+      mergeRecord: (body.mergeRecord as boolean | undefined) ?? false,
+      mode: (body.mode as OperationMode | undefined) ?? "live",
+      modelTier: (body.model as ModelTier | null | undefined) ?? undefined
+    }
+  }
+}
+
+/**
+ * Refuse a live merge the CRM can't perform with a 501, before any AI call or
+ * CRM read or write, so an unsupported merge never leaves the primary half-updated
+ */
+function assertMergeSupported(crmClient: CRMClient, crmCredentials: CRMCredentials, liveMerge: boolean): void {
+  if (liveMerge && !crmClient.supportsMerge) {
+    const { message } = new UnsupportedCRMOperationError(crmCredentials.provider, "Record merge")
+    throw new OperationError(message, 501)
+  }
+}
+
+interface MergeCompanyParams {
+  company: Record<string, unknown>
+  recordId?: string
+  options: MergeOptions
+  userId: string
+  crmCredentials: CRMCredentials | null
+}
+
+/**
+ * Find a company's duplicates, pick the primary record and, when requested,
+ * merge the company into it
+ * Throws OperationError for failures that map to a specific response, carrying
+ * the AI calls already made in aiUsages.
+ */
+export async function mergeCompany(params: MergeCompanyParams): Promise<MergeResult> {
+  const usages: AIUsage[] = []
+  try {
+    return await runMergeCompany(params, usages)
+  } catch (error) {
+    throw withAIUsages(error, usages)
+  }
+}
+
+async function runMergeCompany(params: MergeCompanyParams, usages: AIUsage[]): Promise<MergeResult> {
+  const { company, options, userId, crmCredentials } = params
+  const { duplicateRules, primaryRules, mergeRules, mergePropertyRules, mergeRecord, mode } = options
+  const modelTier = options.modelTier ?? DEFAULT_MODEL_TIER
+
+  // Validate recordId
+  const recordIdValidation = validateRecordId(params.recordId)
+  if (!recordIdValidation.valid || !params.recordId) {
+    throw new OperationError(`Invalid recordId: ${recordIdValidation.error}`, 400)
+  }
+  const recordId = params.recordId
+
+  if (!crmCredentials) {
+    throw new OperationError(
+      "CRM API key required. Please provide an x-{provider}-api-key header (e.g. x-hubspot-api-key).",
+      400
+    )
+  }
+
+  let crmClient: CRMClient
+  try {
+    crmClient = createCRMClient(crmCredentials)
+  } catch (crmError) {
+    throw new OperationError(sanitizeErrorMessage(crmError, 'merge-crm-client'), 400)
+  }
+
+  assertMergeSupported(crmClient, crmCredentials, mergeRecord && mode === "live")
+
+  // STEP 1: Generate duplicate search filters
+  const llm = getLLMProvider()
+
+  // Build schema with duplicate rules if provided
+  const step1Schema = buildDuplicateSearchSchema({ duplicateRules })
+
+  const step1Completion = await llm.completeStructured<DuplicateSearchOutput>({
+    name: "duplicate_search",
+    schema: step1Schema,
+    content: JSON.stringify(company),
+    tier: modelTier
+  })
+
+  const duplicateSearch = step1Completion.data
+
+  // Clean filter values to remove any JSON syntax characters
+  if (duplicateSearch.filterGroups) {
+    for (const group of duplicateSearch.filterGroups) {
+      if (group.filters) {
+        for (const filter of group.filters) {
+          if (filter.value) {
+            filter.value = cleanFilterValue(filter.value)
+          }
+        }
+      }
+    }
+  }
+
+  const step1Usage = toAIUsage(step1Completion)
+  usages.push(step1Usage)
+  const step1DuplicateSearch = {
+    filterGroups: duplicateSearch.filterGroups,
+    reasoning: duplicateSearch.reasoning,
+    confidence: duplicateSearch.confidence
+  }
+
+  // STEP 2: Search for duplicates in CRM
+  // The CRM client translates the provider-neutral filters into its own query language
+  let duplicates
+  try {
+    duplicates = await crmClient.searchCompanies(duplicateSearch.filterGroups as CompanyFilterGroup[])
+  } catch (searchError) {
+    throw new OperationError(sanitizeErrorMessage(searchError, 'merge-crm-search'), 500)
+  }
+
+  // Filter out the current record from duplicates
+  const otherDuplicates = duplicates.filter((dup) => dup.id !== recordId)
+
+  // If no duplicates found (or only found self), return early (1 credit for the search)
+  if (otherDuplicates.length === 0) {
+    return {
+      duplicatesFound: false,
+      duplicates: [],
+      step1DuplicateSearch,
+      step2MergeDecision: {
+        recommendedAction: "KEEP",
+        reasoning: "No duplicate records found in CRM search",
+        confidence: "HIGH",
+        primaryRecordId: recordId
+      },
+      step3FieldMerge: null,
+      recordUpdated: false,
+      recordMerged: false,
+      operationId: null,
+      writePlan: null,
+      modelTier,
+      cached: step1Usage.cached,
+      creditCost: tierCreditCost(modelTier, billableCalls([step1Usage])),
+      aiUsage: {
+        step1DuplicateSearch: aiStepUsage(step1Usage)
+      },
+      usages: [step1Usage],
+      jsonSchemas: {
+        step1DuplicateSearch: step1Schema
+      }
+    }
+  }
+
+  // STEP 3: Analyze merge decision
+  const step2Schema = buildMergeDecisionSchema({
+    primaryRules,
+    candidateRecordIds: [recordId, ...otherDuplicates.map(dup => dup.id)]
+  })
+
+  const mergeAnalysisInput = {
+    currentRecord: { id: recordId, ...company },
+    duplicateRecords: otherDuplicates
+  }
+
+  const step2Completion = await llm.completeStructured<MergeDecisionOutput>({
+    name: "merge_decision",
+    schema: step2Schema,
+    content: JSON.stringify(mergeAnalysisInput),
+    tier: modelTier
+  })
+
+  const mergeDecision = step2Completion.data
+
+  const step2Usage = toAIUsage(step2Completion)
+  usages.push(step2Usage)
+  const step2MergeDecision = {
+    recommendedAction: mergeDecision.recommendedAction,
+    primaryRecordId: mergeDecision.primaryRecordId,
+    reasoning: mergeDecision.reasoning,
+    confidence: mergeDecision.confidence
+  }
+
+  // If KEEP or primary is current record, return without field merge analysis (Step 1 + Step 2)
+  if (mergeDecision.recommendedAction === "KEEP" || mergeDecision.primaryRecordId === recordId) {
+    return {
+      duplicatesFound: true,
+      duplicates: otherDuplicates,
+      step1DuplicateSearch,
+      step2MergeDecision,
+      step3FieldMerge: null,
+      recordUpdated: false,
+      recordMerged: false,
+      operationId: null,
+      writePlan: null,
+      modelTier,
+      cached: step1Usage.cached && step2Usage.cached,
+      creditCost: tierCreditCost(modelTier, billableCalls([step1Usage, step2Usage])),
+      aiUsage: {
+        step1DuplicateSearch: aiStepUsage(step1Usage),
+        step2MergeDecision: aiStepUsage(step2Usage)
+      },
+      usages: [step1Usage, step2Usage],
+      jsonSchemas: {
+        step1DuplicateSearch: step1Schema,
+        step2MergeDecision: step2Schema
+      }
+    }
+  }
+
+  // STEP 4: Field-by-field merge analysis
+  // Current record should merge into primaryRecordId - analyze which fields to transfer
+
+  // First, fetch the primary record from CRM
+  let primaryRecord: GetCompanyResult
+  try {
+    primaryRecord = await crmClient.getCompany(mergeDecision.primaryRecordId)
+  } catch (fetchError) {
+    throw new OperationError(sanitizeErrorMessage(fetchError, 'merge-crm-fetch'), 500)
+  }
+
+  // Build schema with merge rules if provided
+  const step3Schema = buildMergeFieldSchema({ mergeRules, mergePropertyRules })
+
+  const fieldMergeInput = {
+    currentRecord: { id: recordId, ...company },
+    primaryRecord: primaryRecord
+  }
+
+  const step3Completion = await llm.completeStructured<FieldMergeOutput>({
+    name: "field_merge",
+    schema: step3Schema,
+    content: JSON.stringify(fieldMergeInput),
+    tier: modelTier
+  })
+
+  const fieldMerge = step3Completion.data
+
+  const step3Usage = toAIUsage(step3Completion)
+  usages.push(step3Usage)
+
+  let recordMerged = false
+  let recordUpdated = false
+  let operationId: string | null = null
+
+  // Diff the proposed primary record updates against its current CRM values
+  const writePlan = diffPropertyUpdates(
+    primaryRecord.properties,
+    fieldMerge.primaryRecordPropertiesToUpdate || {}
+  )
+
+  // STEP 5 & 6: Update primary record and merge (only if mergeRecord is true and not previewing)
+  if (mergeRecord && mode === "live") {
+    // Snapshot both records first so the update and merge can be rolled back
+    const mergeOperationId = createOperationId()
+    try {
+      // Don't clobber edits made to the primary record while the AI calls were in flight
+      const currentPrimaryRecord = await crmClient.getCompany(mergeDecision.primaryRecordId)
+      if (hasVersionChanged(primaryRecord, currentPrimaryRecord)) {
+        const conflict = versionConflictResponseBody(primaryRecord, currentPrimaryRecord)
+        throw new OperationError(conflict.error, 409, conflict)
+      }
+
+      const mergedRecord = await crmClient.getCompany(recordId)
+
+      if (Object.keys(writePlan.payload).length > 0) {
+        await saveSnapshot({
+          operationId: mergeOperationId,
+          userId,
+          operation: "merge",
+          crmProvider: crmCredentials.provider,
+          recordId: mergeDecision.primaryRecordId,
+          action: "update",
+          properties: primaryRecord.properties,
+          changedProperties: getPriorValues(writePlan)
+        })
+      }
+
+      await saveSnapshot({
+        operationId: mergeOperationId,
+        userId,
+        operation: "merge",
+        crmProvider: crmCredentials.provider,
+        recordId,
+        action: "merge",
+        properties: mergedRecord.properties
+      })
+    } catch (snapshotError) {
+      if (snapshotError instanceof OperationError) {
+        throw snapshotError
+      }
+      throw new OperationError(sanitizeErrorMessage(snapshotError, 'merge-snapshot'), 500)
+    }
+    operationId = mergeOperationId
+
+    // STEP 5: Update primary record with better properties if any exist
+    if (Object.keys(writePlan.payload).length > 0) {
+      try {
+        await crmClient.updateCompany({
+          recordId: mergeDecision.primaryRecordId,
+          properties: writePlan.payload
+        })
+        recordUpdated = true
+      } catch (updateError) {
+        await discardSnapshot(mergeOperationId, mergeDecision.primaryRecordId)
+        await discardSnapshot(mergeOperationId, recordId)
+        throw new OperationError(sanitizeErrorMessage(updateError, 'merge-crm-update'), 500)
+      }
+
+      await logAuditEvent({
+        eventType: AuditEventType.CRM_RECORD_UPDATED,
+        userId,
+        metadata: {
+          operation: "merge",
+          operationId: mergeOperationId,
+          crmProvider: crmCredentials.provider,
+          recordId: mergeDecision.primaryRecordId,
+          properties: writePlan.payload
+        },
+        success: true
+      })
+    }
+
+    // STEP 6: Merge the current record into the primary record
+    try {
+      await crmClient.mergeCompanies(mergeDecision.primaryRecordId, recordId)
+      recordMerged = true
+    } catch (mergeError) {
+      await discardSnapshot(mergeOperationId, recordId)
+      // The primary record may already have been updated; its snapshot stays rollback-able
+      const failedOperationId = recordUpdated ? mergeOperationId : null
+      if (mergeError instanceof UnsupportedCRMOperationError) {
+        throw new OperationError(mergeError.message, 501, { error: mergeError.message, operationId: failedOperationId })
+      }
+      const errorMsg = sanitizeErrorMessage(mergeError, 'merge-crm-merge')
+      throw new OperationError(errorMsg, 500, { error: errorMsg, operationId: failedOperationId })
+    }
+
+    await logAuditEvent({
+      eventType: AuditEventType.CRM_RECORD_MERGED,
+      userId,
+      metadata: {
+        operation: "merge",
+        operationId: mergeOperationId,
+        crmProvider: crmCredentials.provider,
+        primaryRecordId: mergeDecision.primaryRecordId,
+        mergedRecordId: recordId
+      },
+      success: true
+    })
+  }
+
+  return {
+    duplicatesFound: true,
+    duplicates: otherDuplicates,
+    step1DuplicateSearch,
+    step2MergeDecision,
+    step3FieldMerge: {
+      primaryRecordPropertiesToUpdate: fieldMerge.primaryRecordPropertiesToUpdate,
+      reasoning: fieldMerge.reasoning,
+      confidence: fieldMerge.confidence
+    },
+    recordUpdated,
+    recordMerged,
+    operationId,
+    writePlan: {
+      ...writePlan,
+      wouldMerge: { primaryRecordId: mergeDecision.primaryRecordId, mergedRecordId: recordId }
+    },
+    modelTier,
+    cached: step1Usage.cached && step2Usage.cached && step3Usage.cached,
+    // Credits for the AI steps that weren't cached
+    creditCost: tierCreditCost(modelTier, billableCalls([step1Usage, step2Usage, step3Usage])),
+    aiUsage: {
+      step1DuplicateSearch: aiStepUsage(step1Usage),
+      step2MergeDecision: aiStepUsage(step2Usage),
+      step3FieldMerge: aiStepUsage(step3Usage),
+      totalCostUSD: totalCostUSD([step1Usage, step2Usage, step3Usage])
+    },
+    usages: [step1Usage, step2Usage, step3Usage],
+    jsonSchemas: {
+      step1DuplicateSearch: step1Schema,
+      step2MergeDecision: step2Schema,
+      step3FieldMerge: step3Schema
+    }
+  }
+}
+
+interface MergeClusterParams {
+  recordIds: unknown
+  primaryRecordId?: unknown
+  options: MergeOptions
+  userId: string
+  crmCredentials: CRMCredentials | null
+}
+
+/**
+ * Merge a whole duplicate cluster into one golden record: choose the primary
+ * once, compute field-level survivorship across every member, update the
+ * primary, then merge the other members into it one by one
+ * A member that fails to merge doesn't stop the rest; its outcome is reported
+ * per member. Throws OperationError for failures that stop the whole merge,
+ * carrying the AI calls already made in aiUsages.
+ */
+export async function mergeCluster(params: MergeClusterParams): Promise<ClusterMergeResult> {
+  const usages: AIUsage[] = []
+  try {
+    return await runMergeCluster(params, usages)
+  } catch (error) {
+    throw withAIUsages(error, usages)
+  }
+}
+
+async function runMergeCluster(params: MergeClusterParams, usages: AIUsage[]): Promise<ClusterMergeResult> {
+  const { options, userId, crmCredentials } = params
+  const { primaryRules, mergeRules, mergePropertyRules, mergeRecord, mode } = options
+  const modelTier = options.modelTier ?? DEFAULT_MODEL_TIER
+
+  const recordIdsValidation = validateClusterRecordIds(params.recordIds)
+  if (!recordIdsValidation.valid) {
+    throw new OperationError(recordIdsValidation.error!, 400)
+  }
+  const recordIds = params.recordIds as string[]
+
+  if (params.primaryRecordId !== undefined && !recordIds.includes(params.primaryRecordId as string)) {
+    throw new OperationError("primaryRecordId must be one of recordIds", 400)
+  }
+
+  if (!crmCredentials) {
+    throw new OperationError(
+      "CRM API key required. Please provide an x-{provider}-api-key header (e.g. x-hubspot-api-key).",
+      400
+    )
+  }
+
+  let crmClient: CRMClient
+  try {
+    crmClient = createCRMClient(crmCredentials)
+  } catch (crmError) {
+    throw new OperationError(sanitizeErrorMessage(crmError, 'merge-crm-client'), 400)
+  }
+
+  assertMergeSupported(crmClient, crmCredentials, mergeRecord && mode === "live")
+
+  let records: GetCompanyResult[]
+  try {
+    records = await Promise.all(recordIds.map(recordId => crmClient.getCompany(recordId)))
+  } catch (fetchError) {
+    throw new OperationError(sanitizeErrorMessage(fetchError, 'merge-crm-fetch'), 500)
+  }
+
+  const llm = getLLMProvider()
+  const aiUsage: Record<string, unknown> = {}
+  const jsonSchemas: Record<string, unknown> = {}
+
+  // STEP 1: Choose the primary once for the whole cluster (skipped when the caller picked it)
+  let primaryRecordId: string
+  let primarySelection: ClusterMergeResult["primarySelection"]
+
+  if (params.primaryRecordId !== undefined) {
+    primaryRecordId = params.primaryRecordId as string
+    primarySelection = { selectedBy: "request", reasoning: null, confidence: null }
+  } else {
+    const primarySchema = buildClusterPrimarySchema({ primaryRules })
+
+    const primaryCompletion = await llm.completeStructured<ClusterPrimaryOutput>({
+      name: "cluster_primary",
+      schema: primarySchema,
+      content: JSON.stringify({ clusterRecords: records }),
+      tier: modelTier
+    })
+
+    const primaryDecision = primaryCompletion.data
+    const primaryUsage = toAIUsage(primaryCompletion)
+    usages.push(primaryUsage)
+
+    if (!recordIds.includes(primaryDecision.primaryRecordId)) {
+      throw new OperationError("Failed to choose the primary record: the AI picked a record outside the cluster", 500)
+    }
+
+    aiUsage.primarySelection = aiStepUsage(primaryUsage)
+    jsonSchemas.primarySelection = primarySchema
+
+    primaryRecordId = primaryDecision.primaryRecordId
+    primarySelection = {
+      selectedBy: "ai",
+      reasoning: primaryDecision.reasoning,
+      confidence: primaryDecision.confidence
+    }
+  }
+
+  const primaryRecord = records.find(record => record.id === primaryRecordId)!
+  const otherRecords = records.filter(record => record.id !== primaryRecordId)
+
+  // STEP 2: Field-level survivorship across all members
+  const survivorshipSchema = buildSurvivorshipSchema({ mergeRules, mergePropertyRules })
+
+  const survivorshipCompletion = await llm.completeStructured<SurvivorshipOutput>({
+    name: "cluster_survivorship",
+    schema: survivorshipSchema,
+    content: JSON.stringify({ primaryRecord, otherRecords }),
+    tier: modelTier
+  })
+
+  const survivorshipDecision = survivorshipCompletion.data
+
+  const survivorshipUsage = toAIUsage(survivorshipCompletion)
+  aiUsage.survivorship = aiStepUsage(survivorshipUsage)
+  jsonSchemas.survivorship = survivorshipSchema
+  usages.push(survivorshipUsage)
+  aiUsage.totalCostUSD = totalCostUSD(usages)
+
+  // Only keep values sourced from a cluster member; the last entry for a property wins
+  const survivingValues: SurvivingValue[] = (survivorshipDecision.survivingValues || []).filter(
+    (entry: SurvivingValue) => entry.propertyName && recordIds.includes(entry.sourceRecordId)
+  )
+  const propertiesToUpdate: Record<string, string> = {}
+  for (const entry of survivingValues) {
+    propertiesToUpdate[entry.propertyName] = entry.value
+  }
+
+  // Diff the surviving values against the primary record's current CRM values
+  const writePlan = diffPropertyUpdates(primaryRecord.properties, propertiesToUpdate)
+
+  const members: ClusterMemberResult[] = otherRecords.map(record => ({ recordId: record.id, status: "planned" }))
+  let recordUpdated = false
+  let operationId: string | null = null
+
+  // STEP 3 & 4: Update the primary record, then merge every other member (only if mergeRecord is true and not previewing)
+  if (mergeRecord && mode === "live") {
+    // Snapshot every record first so the update and each merge can be rolled back
+    const mergeOperationId = createOperationId()
+    const discardMergeSnapshots = async () => {
+      await discardSnapshot(mergeOperationId, primaryRecordId)
+      for (const record of otherRecords) {
+        await discardSnapshot(mergeOperationId, record.id)
+      }
+    }
+
+    try {
+      // Don't clobber edits made to the primary record while the AI calls were in flight
+      const currentPrimaryRecord = await crmClient.getCompany(primaryRecordId)
+      if (hasVersionChanged(primaryRecord, currentPrimaryRecord)) {
+        const conflict = versionConflictResponseBody(primaryRecord, currentPrimaryRecord)
+        throw new OperationError(conflict.error, 409, conflict)
+      }
+
+      if (Object.keys(writePlan.payload).length > 0) {
+        await saveSnapshot({
+          operationId: mergeOperationId,
+          userId,
+          operation: "merge",
+          crmProvider: crmCredentials.provider,
+          recordId: primaryRecordId,
+          action: "update",
+          properties: primaryRecord.properties,
+          changedProperties: getPriorValues(writePlan)
+        })
+      }
+
+      for (const record of otherRecords) {
+        const mergedRecord = await crmClient.getCompany(record.id)
+        await saveSnapshot({
+          operationId: mergeOperationId,
+          userId,
+          operation: "merge",
+          crmProvider: crmCredentials.provider,
+          recordId: record.id,
+          action: "merge",
+          properties: mergedRecord.properties
+        })
+      }
+    } catch (snapshotError) {
+      // Nothing has been written yet, so drop the snapshots saved so far
+      await discardMergeSnapshots()
+      if (snapshotError instanceof OperationError) {
+        throw snapshotError
+      }
+      throw new OperationError(sanitizeErrorMessage(snapshotError, 'merge-snapshot'), 500)
+    }
+
+    // STEP 3: Update primary record with the surviving values
+    if (Object.keys(writePlan.payload).length > 0) {
+      try {
+        await crmClient.updateCompany({
+          recordId: primaryRecordId,
+          properties: writePlan.payload
+        })
+        recordUpdated = true
+      } catch (updateError) {
+        await discardMergeSnapshots()
+        throw new OperationError(sanitizeErrorMessage(updateError, 'merge-crm-update'), 500)
+      }
+
+      await logAuditEvent({
+        eventType: AuditEventType.CRM_RECORD_UPDATED,
+        userId,
+        metadata: {
+          operation: "merge",
+          operationId: mergeOperationId,
+          crmProvider: crmCredentials.provider,
+          recordId: primaryRecordId,
+          properties: writePlan.payload
+        },
+        success: true
+      })
+    }
+
+    // STEP 4: Merge the other members into the primary one at a time
+    let unsupportedError: string | null = null
+    for (const member of members) {
+      if (unsupportedError) {
+        await discardSnapshot(mergeOperationId, member.recordId)
+        member.status = "skipped"
+        member.error = unsupportedError
+        continue
+      }
+
+      try {
+        await crmClient.mergeCompanies(primaryRecordId, member.recordId)
+        member.status = "merged"
+      } catch (mergeError) {
+        await discardSnapshot(mergeOperationId, member.recordId)
+        member.status = "failed"
+        if (mergeError instanceof UnsupportedCRMOperationError) {
+          // No later member can merge either
+          unsupportedError = mergeError.message
+          member.error = mergeError.message
+        } else {
+          member.error = sanitizeErrorMessage(mergeError, 'merge-crm-merge')
+        }
+        continue
+      }
+
+      await logAuditEvent({
+        eventType: AuditEventType.CRM_RECORD_MERGED,
+        userId,
+        metadata: {
+          operation: "merge",
+          operationId: mergeOperationId,
+          crmProvider: crmCredentials.provider,
+          primaryRecordId,
+          mergedRecordId: member.recordId
+        },
+        success: true
+      })
+    }
+
+    // Roll-back-able only if something was actually written
+    if (recordUpdated || members.some(member => member.status === "merged")) {
+      operationId = mergeOperationId
+    }
+  }
+
+  return {
+    primaryRecordId,
+    primarySelection,
+    survivorship: {
+      survivingValues,
+      reasoning: survivorshipDecision.reasoning,
+      confidence: survivorshipDecision.confidence
+    },
+    recordUpdated,
+    members,
+    summary: {
+      total: members.length,
+      merged: members.filter(member => member.status === "merged").length,
+      failed: members.filter(member => member.status === "failed").length,
+      skipped: members.filter(member => member.status === "skipped").length
+    },
+    operationId,
+    writePlan: {
+      ...writePlan,
+      wouldMerge: { primaryRecordId, mergedRecordIds: otherRecords.map(record => record.id) }
+    },
+    modelTier,
+    cached: billableCalls(usages) === 0,
+    creditCost: tierCreditCost(modelTier, billableCalls(usages)),
+    aiUsage,
+    usages,
+    jsonSchemas
+  }
+}
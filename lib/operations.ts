@@ -0,0 +1,227 @@
+/**
+ * Pre-write snapshots of CRM records, stored in Supabase (operation_snapshots table)
+ * so clean, merge and purge operations can be rolled back
+ */
+
+import { randomUUID } from 'crypto'
+import { createServiceClient } from './supabase/service'
+import { CRMProvider } from './crm/types'
+import type { AIUsage } from './llm'
+
+export type OperationType = 'clean' | 'merge' | 'purge'
+
+export type SnapshotAction = 'update' | 'delete' | 'merge'
+
+export interface OperationSnapshot {
+  id: string
+  operationId: string
+  operation: OperationType
+  crmProvider: CRMProvider
+  recordId: string
+  action: SnapshotAction
+  properties: Record<string, unknown>
+  changedProperties: Record<string, unknown>
+  rolledBackAt: string | null
+  restoredRecordId: string | null
+  createdAt: string
+}
+
+interface SnapshotRow {
+  id: string
+  operation_id: string
+  operation: OperationType
+  crm_provider: CRMProvider
+  record_id: string
+  action: SnapshotAction
+  properties: Record<string, unknown>
+  changed_properties: Record<string, unknown>
+  rolled_back_at: string | null
+  restored_record_id: string | null
+  created_at: string
+}
+
+/**
+ * A clean, merge or purge failure carrying the HTTP status (and optionally the
+ * full response body) the endpoint should answer with
+ */
+export class OperationError extends Error {
+  status: number
+  body?: Record<string, unknown>
+  // AI calls made before the failure, so their cost can still be recorded
+  aiUsages: AIUsage[] = []
+
+  constructor(message: string, status: number, body?: Record<string, unknown>) {
+    super(message)
+    this.name = "OperationError"
+    this.status = status
+    this.body = body
+  }
+}
+
+/**
+ * Add the AI calls an operation made before it failed to its OperationError
+ * Returns the error for rethrowing; other errors are returned unchanged.
+ */
+export function withAIUsages(error: unknown, usages: AIUsage[]): unknown {
+  if (error instanceof OperationError) {
+    error.aiUsages = [...usages, ...error.aiUsages]
+  }
+  return error
+}
+
+/**
+ * Generate an ID shared by every snapshot of one API call
+ */
+export function createOperationId(): string {
+  return randomUUID()
+}
+
+/**
+ * Persist a record's state before it is changed
+ * Throws if the snapshot can't be stored, so callers never write without one
+ */
+export async function saveSnapshot(params: {
+  operationId: string
+  userId: string
+  operation: OperationType
+  crmProvider: CRMProvider
+  recordId: string
+  action: SnapshotAction
+  properties: Record<string, unknown>
+  changedProperties?: Record<string, unknown>
+}): Promise<void> {
+  const supabase = createServiceClient()
+  const { error } = await supabase
+    .from('operation_snapshots')
+    .insert({
+      operation_id: params.operationId,
+      user_id: params.userId,
+      operation: params.operation,
+      crm_provider: params.crmProvider,
+      record_id: params.recordId,
+      action: params.action,
+      properties: params.properties,
+      changed_properties: params.changedProperties || {}
+    })
+
+  if (error) {
+    throw new Error(`Failed to save pre-write snapshot: ${error.message}`)
+  }
+}
+
+/**
+ * Load an operation's snapshots (oldest first), scoped to the owning user
+ */
+export async function getOperationSnapshots(
+  operationId: string,
+  userId: string
+): Promise<OperationSnapshot[]> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('operation_snapshots')
+    .select('*')
+    .eq('operation_id', operationId)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to load operation snapshots: ${error.message}`)
+  }
+
+  return ((data || []) as SnapshotRow[]).map(row => ({
+    id: row.id,
+    operationId: row.operation_id,
+    operation: row.operation,
+    crmProvider: row.crm_provider,
+    recordId: row.record_id,
+    action: row.action,
+    properties: row.properties,
+    changedProperties: row.changed_properties,
+    rolledBackAt: row.rolled_back_at,
+    restoredRecordId: row.restored_record_id,
+    createdAt: row.created_at
+  }))
+}
+
+/**
+ * Claim a snapshot for rollback by marking it rolled back before the CRM is touched
+ * Returns false when it was already rolled back (or another rollback claimed it
+ * first), so concurrent rollbacks never restore the same record twice.
+ */
+export async function claimSnapshotRollback(snapshotId: string): Promise<boolean> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('operation_snapshots')
+    .update({ rolled_back_at: new Date().toISOString() })
+    .eq('id', snapshotId)
+    .is('rolled_back_at', null)
+    .select('id')
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to claim operation snapshot: ${error.message}`)
+  }
+
+  return data !== null
+}
+
+/**
+ * Give up a claim after the CRM refused the rollback, so it can be retried
+ */
+export async function releaseSnapshotRollback(snapshotId: string): Promise<void> {
+  try {
+    const supabase = createServiceClient()
+    const { error } = await supabase
+      .from('operation_snapshots')
+      .update({ rolled_back_at: null })
+      .eq('id', snapshotId)
+
+    if (error) {
+      console.error('Failed to release operation snapshot:', error)
+    }
+  } catch (error) {
+    console.error('Failed to release operation snapshot:', error)
+  }
+}
+
+/**
+ * Record where a claimed snapshot was restored to
+ */
+export async function markSnapshotRolledBack(
+  snapshotId: string,
+  restoredRecordId: string
+): Promise<void> {
+  const supabase = createServiceClient()
+  const { error } = await supabase
+    .from('operation_snapshots')
+    .update({
+      rolled_back_at: new Date().toISOString(),
+      restored_record_id: restoredRecordId
+    })
+    .eq('id', snapshotId)
+
+  if (error) {
+    throw new Error(`Failed to update operation snapshot: ${error.message}`)
+  }
+}
+
+/**
+ * Remove a record's snapshot after its write failed, so a rollback never
+ * tries to undo a change that didn't happen
+ */
+export async function discardSnapshot(operationId: string, recordId: string): Promise<void> {
+  try {
+    const supabase = createServiceClient()
+    const { error } = await supabase
+      .from('operation_snapshots')
+      .delete()
+      .eq('operation_id', operationId)
+      .eq('record_id', recordId)
+
+    if (error) {
+      console.error('Failed to discard operation snapshot:', error)
+    }
+  } catch (error) {
+    console.error('Failed to discard operation snapshot:', error)
+  }
+}
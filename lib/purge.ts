@@ -0,0 +1,291 @@
+/**
+ * Company purge pipeline shared by the purge endpoint and background jobs:
+ * option validation, the AI analysis and the CRM delete
+ */
+
+import { getLLMProvider, tierCreditCost, toAIUsage, AIUsage, LLMUsage } from './llm'
+import { createCRMClient } from './crm'
+import { CRMCredentials } from './crm/types'
+import {
+  validateRecordId,
+  sanitizeRule,
+  sanitizePropertyRules,
+  validateMode,
+  validateModelTier,
+  sanitizeErrorMessage,
+  OperationMode,
+  ModelTier,
+  DEFAULT_MODEL_TIER
+} from './validation'
+import { createOperationId, saveSnapshot, discardSnapshot, withAIUsages, OperationError } from './operations'
+import { logAuditEvent, AuditEventType } from './audit'
+
+// Base JSON schema for purge analysis
+const BASE_PURGE_SCHEMA = {
+  "type": "object",
+  "description": "Evaluate company for CRM purge. BE CONSERVATIVE: only REMOVE obvious test/fake data. KEEP legitimate records even if incomplete.",
+  "properties": {
+    "recommendedAction": {
+      "type": "string",
+      "enum": ["REMOVE", "KEEP"],
+      "description": "REMOVE if: (1) test names (test/demo/example/sample/dummy/asdf) OR test domains (test.com/example.com/localhost), (2) fake (empty name, numbers-only name, 'Fake Company'), (3) no name AND no domain, (4) custom rule match (if provided). KEEP otherwise. When uncertain, KEEP."
+    },
+    "reasoning": {
+      "type": "string",
+      "description": "1 sentence: key factor + confidence justification."
+    },
+    "confidence": {
+      "type": "string",
+      "enum": ["LOW", "MEDIUM", "HIGH"],
+      "description": "HIGH=clear match, MEDIUM=some ambiguity, LOW=uncertain."
+    }
+  },
+  "required": ["recommendedAction", "reasoning", "confidence"],
+  "additionalProperties": false
+}
+
+interface PurgeInput {
+  purgeRules?: string
+  purgePropertyRules?: Record<string, string>
+}
+
+function buildPurgeSchema(input: PurgeInput) {
+  const schema = JSON.parse(JSON.stringify(BASE_PURGE_SCHEMA))
+
+  // Add purgeRules to root description
+  if (input.purgeRules && typeof input.purgeRules === "string" && input.purgeRules.trim()) {
+    schema.description = `${schema.description} User rules: ${input.purgeRules}`
+  }
+
+  // Add purgePropertyRules to recommendedAction description
+  if (input.purgePropertyRules && typeof input.purgePropertyRules === "object") {
+    const propertyRules = Object.entries(input.purgePropertyRules)
+      .filter(([, rule]) => typeof rule === "string" && rule.trim())
+      .map(([property, rule]) => `${property}: ${rule}`)
+      .join(", ")
+
+    if (propertyRules) {
+      schema.properties.recommendedAction.description = `${schema.properties.recommendedAction.description} User property rules: ${propertyRules}`
+    }
+  }
+
+  return schema
+}
+
+/**
+ * Options shared by every company in a purge request
+ */
+export interface PurgeOptions extends PurgeInput {
+  deleteRecord: boolean
+  mode: OperationMode
+  // Requested tier; the caller fills in the account default when omitted
+  modelTier?: ModelTier
+}
+
+export interface PurgeResult {
+  analysis: {
+    recommendedAction: "REMOVE" | "KEEP"
+    reasoning: string
+    confidence: "LOW" | "MEDIUM" | "HIGH"
+  }
+  recordDeleted: boolean
+  operationId: string | null
+  deletePlan: {
+    recordId: string
+    action: "delete" | "skip"
+    reason: "recommended_keep" | null
+    currentProperties: Record<string, unknown>
+  } | null
+  tokenUsage: LLMUsage
+  // Model that ran the analysis
+  model: string
+  modelTier: ModelTier
+  // Answered from the AI cache
+  cached: boolean
+  // 1 credit, scaled by the model tier (free when cached)
+  creditCost: number
+  jsonSchema: Record<string, unknown>
+}
+
+/**
+ * Validate and sanitize the shared purge options of a request body
+ */
+export function parsePurgeOptions(body: Record<string, unknown>): {
+  options?: PurgeOptions
+  error?: string
+} {
+  // Validate operation mode
+  const modeValidation = validateMode(body.mode)
+  if (!modeValidation.valid) {
+    return { error: modeValidation.error }
+  }
+
+  const modelTierValidation = validateModelTier(body.model)
+  if (!modelTierValidation.valid) {
+    return { error: modelTierValidation.error }
+  }
+
+  return {
+    options: {
+      purgeRules: sanitizeRule(body.purgeRules as string | undefined),
+      purgePropertyRules: sanitizePropertyRules(body.purgePropertyRules as Record<string, string> | undefined),
+      deleteRecord: (body.deleteRecord as boolean | undefined) ?? false,
+      mode: (body.mode as OperationMode | undefined) ?? "live",
+      modelTier: (body.model as ModelTier | null | undefined) ?? undefined
+    }
+  }
+}
+
+/**
+ * Whether a purge computes a CRM delete (preview plans it without deleting)
+ */
+export function plansDelete(options: PurgeOptions): boolean {
+  return options.deleteRecord || options.mode === "preview"
+}
+
+interface PurgeCompanyParams {
+  company: Record<string, unknown>
+  recordId?: string
+  options: PurgeOptions
+  userId: string
+  crmCredentials: CRMCredentials | null
+}
+
+/**
+ * Analyze one company and, when requested and recommended, delete it from the CRM
+ * Throws OperationError for failures that map to a specific response, carrying
+ * the AI call in aiUsages when it failed after the model ran.
+ */
+export async function purgeCompany(params: PurgeCompanyParams): Promise<PurgeResult> {
+  const usages: AIUsage[] = []
+  try {
+    return await runPurgeCompany(params, usages)
+  } catch (error) {
+    throw withAIUsages(error, usages)
+  }
+}
+
+async function runPurgeCompany(params: PurgeCompanyParams, usages: AIUsage[]): Promise<PurgeResult> {
+  const { company, recordId, options, userId, crmCredentials } = params
+  const { mode } = options
+  const planDelete = plansDelete(options)
+
+  // Validate CRM integration requirements BEFORE calling AI
+  if (planDelete) {
+    const recordIdValidation = validateRecordId(recordId)
+    if (!recordIdValidation.valid || !recordId) {
+      throw new OperationError(`Invalid recordId: ${recordIdValidation.error}`, 400)
+    }
+
+    if (!crmCredentials) {
+      throw new OperationError(
+        "CRM API key required when deleteRecord is true or mode is preview. Please provide an x-{provider}-api-key header (e.g. x-hubspot-api-key).",
+        400
+      )
+    }
+
+    // Verify the record exists in the CRM before calling AI
+    let exists: boolean
+    try {
+      const crmClient = createCRMClient(crmCredentials)
+      exists = await crmClient.companyExists(recordId)
+    } catch (verifyError) {
+      throw new OperationError(sanitizeErrorMessage(verifyError, 'purge-verify-record'), 500)
+    }
+
+    if (!exists) {
+      throw new OperationError(`Company record with ID '${recordId}' not found in CRM`, 404)
+    }
+  }
+
+  // Build dynamic schema with user rules
+  const dynamicSchema = buildPurgeSchema(options)
+
+  // Call the LLM with structured output
+  const modelTier = options.modelTier ?? DEFAULT_MODEL_TIER
+  const llm = getLLMProvider()
+  const completion = await llm.completeStructured<PurgeResult["analysis"]>({
+    name: "purge_analysis",
+    schema: dynamicSchema,
+    content: JSON.stringify(company, null, 2),
+    tier: modelTier
+  })
+  usages.push(toAIUsage(completion))
+
+  const analysis = completion.data
+
+  // CRM Integration - Delete record if requested and recommended (or plan it in preview mode)
+  let recordDeleted = false
+  let operationId: string | null = null
+  let deletePlan: PurgeResult["deletePlan"] = null
+  if (planDelete && recordId && crmCredentials) {
+    try {
+      const crmClient = createCRMClient(crmCredentials)
+      const shouldDelete = analysis.recommendedAction === "REMOVE"
+
+      if (mode === "preview") {
+        const existingCompany = await crmClient.getCompany(recordId)
+        deletePlan = {
+          recordId,
+          action: shouldDelete ? "delete" : "skip",
+          reason: shouldDelete ? null : "recommended_keep",
+          currentProperties: existingCompany.properties
+        }
+      } else if (shouldDelete) {
+        // Snapshot the record first so the delete can be rolled back
+        const existingCompany = await crmClient.getCompany(recordId)
+        operationId = createOperationId()
+        await saveSnapshot({
+          operationId,
+          userId,
+          operation: "purge",
+          crmProvider: crmCredentials.provider,
+          recordId,
+          action: "delete",
+          properties: existingCompany.properties
+        })
+
+        // Delete CRM record
+        try {
+          await crmClient.deleteCompany({
+            recordId: recordId
+          })
+        } catch (deleteError) {
+          await discardSnapshot(operationId, recordId)
+          operationId = null
+          throw deleteError
+        }
+
+        recordDeleted = true
+
+        await logAuditEvent({
+          eventType: AuditEventType.CRM_RECORD_DELETED,
+          userId,
+          metadata: {
+            operation: "purge",
+            operationId,
+            crmProvider: crmCredentials.provider,
+            recordId,
+            reasoning: analysis.reasoning
+          },
+          success: true
+        })
+      }
+    } catch (crmError) {
+      throw new OperationError(sanitizeErrorMessage(crmError, 'purge-crm-delete'), 500)
+    }
+  }
+
+  return {
+    analysis,
+    recordDeleted,
+    operationId,
+    deletePlan,
+    tokenUsage: completion.usage,
+    model: completion.model,
+    modelTier,
+    cached: completion.cached,
+    creditCost: completion.cached ? 0 : tierCreditCost(modelTier, 1),
+    jsonSchema: dynamicSchema
+  }
+}
@@ -153,6 +153,26 @@ export const RATE_LIMITS = {
   PURGE_ENDPOINT_PER_MINUTE: { requests: 10, window: 60 * 1000 }, // 10 requests per minute
   PURGE_ENDPOINT_PER_HOUR: { requests: 100, window: 60 * 60 * 1000 }, // 100 requests per hour
   PURGE_ENDPOINT_PER_DAY: { requests: 1000, window: 24 * 60 * 60 * 1000 }, // 1000 requests per day
+
+  // Per-user limits for the operation rollback endpoint
+  ROLLBACK_ENDPOINT_PER_MINUTE: { requests: 10, window: 60 * 1000 }, // 10 requests per minute
+  ROLLBACK_ENDPOINT_PER_HOUR: { requests: 100, window: 60 * 60 * 1000 }, // 100 requests per hour
+  ROLLBACK_ENDPOINT_PER_DAY: { requests: 1000, window: 24 * 60 * 60 * 1000 }, // 1000 requests per day
+
+  // Per-user limits for the batch clean endpoint (each request cleans many companies)
+  CLEAN_BATCH_ENDPOINT_PER_MINUTE: { requests: 2, window: 60 * 1000 }, // 2 requests per minute
+  CLEAN_BATCH_ENDPOINT_PER_HOUR: { requests: 20, window: 60 * 60 * 1000 }, // 20 requests per hour
+  CLEAN_BATCH_ENDPOINT_PER_DAY: { requests: 100, window: 24 * 60 * 60 * 1000 }, // 100 requests per day
+
+  // Per-user limits for the job endpoints (submit, status polling, results, cancel)
+  JOBS_ENDPOINT_PER_MINUTE: { requests: 60, window: 60 * 1000 }, // 60 requests per minute
+  JOBS_ENDPOINT_PER_HOUR: { requests: 1000, window: 60 * 60 * 1000 }, // 1000 requests per hour
+  JOBS_ENDPOINT_PER_DAY: { requests: 10000, window: 24 * 60 * 60 * 1000 }, // 10000 requests per day
+
+  // Per-user limits for the cluster endpoint (each request compares a whole dataset)
+  CLUSTER_ENDPOINT_PER_MINUTE: { requests: 2, window: 60 * 1000 }, // 2 requests per minute
+  CLUSTER_ENDPOINT_PER_HOUR: { requests: 20, window: 60 * 60 * 1000 }, // 20 requests per hour
+  CLUSTER_ENDPOINT_PER_DAY: { requests: 100, window: 24 * 60 * 60 * 1000 }, // 100 requests per day
 }
 
 export async function checkRateLimit(
@@ -184,6 +204,26 @@ export async function checkRateLimit(
       perHourConfig = RATE_LIMITS.PURGE_ENDPOINT_PER_HOUR
       perDayConfig = RATE_LIMITS.PURGE_ENDPOINT_PER_DAY
       break
+    case 'rollback-endpoint':
+      perMinuteConfig = RATE_LIMITS.ROLLBACK_ENDPOINT_PER_MINUTE
+      perHourConfig = RATE_LIMITS.ROLLBACK_ENDPOINT_PER_HOUR
+      perDayConfig = RATE_LIMITS.ROLLBACK_ENDPOINT_PER_DAY
+      break
+    case 'clean-batch-endpoint':
+      perMinuteConfig = RATE_LIMITS.CLEAN_BATCH_ENDPOINT_PER_MINUTE
+      perHourConfig = RATE_LIMITS.CLEAN_BATCH_ENDPOINT_PER_HOUR
+      perDayConfig = RATE_LIMITS.CLEAN_BATCH_ENDPOINT_PER_DAY
+      break
+    case 'jobs-endpoint':
+      perMinuteConfig = RATE_LIMITS.JOBS_ENDPOINT_PER_MINUTE
+      perHourConfig = RATE_LIMITS.JOBS_ENDPOINT_PER_HOUR
+      perDayConfig = RATE_LIMITS.JOBS_ENDPOINT_PER_DAY
+      break
+    case 'cluster-endpoint':
+      perMinuteConfig = RATE_LIMITS.CLUSTER_ENDPOINT_PER_MINUTE
+      perHourConfig = RATE_LIMITS.CLUSTER_ENDPOINT_PER_HOUR
+      perDayConfig = RATE_LIMITS.CLUSTER_ENDPOINT_PER_DAY
+      break
     default:
       // Default to clean endpoint limits
       perMinuteConfig = RATE_LIMITS.CLEAN_ENDPOINT_PER_MINUTE
@@ -0,0 +1,722 @@
+/**
+ * Recurring cleanup runs stored in Supabase (schedules and schedule_runs tables)
+ * Each run is a scan job; processSchedules starts due runs and reports the
+ * finished ones by webhook (schedule.completed) and email.
+ */
+
+import { createServiceClient } from './supabase/service'
+import { CRMCredentials } from './crm/types'
+import { decryptCRMCredentials, encryptCRMCredentials } from './crm'
+import { getAccountSettings } from './account-settings'
+import { plansWrite, CleanOptions } from './clean'
+import { createJob, getJobProgress, JobOptions, JobProgress, JobStatus } from './jobs'
+import { sendEmail } from './email'
+import { logAuditEvent, AuditEventType } from './audit'
+import { sanitizeErrorMessage, JobType, ScheduleFrequency, VALIDATION_LIMITS } from './validation'
+
+export type ScheduleRunStatus = 'running' | 'completed' | 'failed' | 'cancelled'
+
+export interface ScheduleTiming {
+  frequency: ScheduleFrequency
+  // UTC hour for daily and weekly schedules
+  hour: number
+  // Weekly schedules only (0 = Sunday)
+  dayOfWeek: number | null
+}
+
+export interface Schedule extends ScheduleTiming {
+  id: string
+  userId: string
+  apiKeyId: string
+  name: string
+  type: JobType
+  options: JobOptions
+  modifiedWithinDays: number | null
+  maxRecords: number | null
+  notifyEmail: string | null
+  enabled: boolean
+  nextRunAt: string
+  lastRunAt: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ScheduleRunSummary {
+  progress: JobProgress
+  // Outcome totals for the run's type, e.g. { recordsUpdated: 12 } for clean
+  outcomes: Record<string, number>
+}
+
+export interface ScheduleRun {
+  id: string
+  scheduleId: string
+  jobId: string | null
+  status: ScheduleRunStatus
+  summary: ScheduleRunSummary | null
+  error: string | null
+  notifiedAt: string | null
+  notificationError: string | null
+  startedAt: string
+  completedAt: string | null
+}
+
+interface ScheduleRow {
+  id: string
+  user_id: string
+  api_key_id: string
+  name: string
+  type: JobType
+  options: JobOptions
+  // Encrypted (see lib/crm/credentials.ts)
+  crm_credentials: string
+  frequency: ScheduleFrequency
+  hour: number
+  day_of_week: number | null
+  modified_within_days: number | null
+  max_records: number | null
+  notify_email: string | null
+  enabled: boolean
+  next_run_at: string
+  last_run_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+interface ScheduleRunRow {
+  id: string
+  schedule_id: string
+  user_id: string
+  job_id: string | null
+  status: ScheduleRunStatus
+  summary: ScheduleRunSummary | null
+  error: string | null
+  notified_at: string | null
+  notification_error: string | null
+  started_at: string
+  completed_at: string | null
+}
+
+// Limit to 20 schedules per user
+export const MAX_SCHEDULES_PER_USER = 20
+
+// Due schedules started per scheduler pass
+const SCHEDULER_BATCH_SIZE = 50
+
+// Result fields counted for each job type's run summary
+const RUN_OUTCOMES: Record<JobType, Record<string, { field: string; value: string }>> = {
+  clean: {
+    recordsUpdated: { field: 'recordUpdated', value: 'true' }
+  },
+  purge: {
+    recommendedRemove: { field: 'recommendedAction', value: 'REMOVE' },
+    recordsDeleted: { field: 'recordDeleted', value: 'true' }
+  },
+  merge: {
+    duplicatesFound: { field: 'duplicatesFound', value: 'true' },
+    recordsMerged: { field: 'recordMerged', value: 'true' }
+  }
+}
+
+function toSchedule(row: ScheduleRow): Schedule {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    apiKeyId: row.api_key_id,
+    name: row.name,
+    type: row.type,
+    options: row.options,
+    frequency: row.frequency,
+    hour: row.hour,
+    dayOfWeek: row.day_of_week,
+    modifiedWithinDays: row.modified_within_days,
+    maxRecords: row.max_records,
+    notifyEmail: row.notify_email,
+    enabled: row.enabled,
+    nextRunAt: row.next_run_at,
+    lastRunAt: row.last_run_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+function toScheduleRun(row: ScheduleRunRow): ScheduleRun {
+  return {
+    id: row.id,
+    scheduleId: row.schedule_id,
+    jobId: row.job_id,
+    status: row.status,
+    summary: row.summary,
+    error: row.error,
+    notifiedAt: row.notified_at,
+    notificationError: row.notification_error,
+    startedAt: row.started_at,
+    completedAt: row.completed_at
+  }
+}
+
+/**
+ * The first run time strictly after `from` (UTC, on the hour)
+ */
+export function getNextRunAt(timing: ScheduleTiming, from: Date): Date {
+  const next = new Date(from)
+  next.setUTCMinutes(0, 0, 0)
+
+  if (timing.frequency === 'hourly') {
+    next.setUTCHours(next.getUTCHours() + 1)
+    return next
+  }
+
+  next.setUTCHours(timing.hour)
+
+  if (timing.frequency === 'weekly') {
+    next.setUTCDate(next.getUTCDate() + ((timing.dayOfWeek ?? 0) - next.getUTCDay() + 7) % 7)
+  }
+
+  if (next <= from) {
+    next.setUTCDate(next.getUTCDate() + (timing.frequency === 'weekly' ? 7 : 1))
+  }
+
+  return next
+}
+
+/**
+ * The public view of a schedule (never its credentials)
+ */
+export function scheduleResponseBody(schedule: Schedule) {
+  return {
+    id: schedule.id,
+    name: schedule.name,
+    type: schedule.type,
+    options: schedule.options,
+    frequency: schedule.frequency,
+    hour: schedule.hour,
+    dayOfWeek: schedule.dayOfWeek,
+    modifiedWithinDays: schedule.modifiedWithinDays,
+    maxRecords: schedule.maxRecords,
+    notifyEmail: schedule.notifyEmail,
+    enabled: schedule.enabled,
+    nextRunAt: schedule.nextRunAt,
+    lastRunAt: schedule.lastRunAt,
+    createdAt: schedule.createdAt,
+    updatedAt: schedule.updatedAt
+  }
+}
+
+/**
+ * Store a schedule; its first run is the next matching time from now
+ */
+export async function createSchedule(params: {
+  userId: string
+  apiKeyId: string
+  name: string
+  type: JobType
+  options: JobOptions
+  crmCredentials: CRMCredentials
+  timing: ScheduleTiming
+  modifiedWithinDays?: number
+  maxRecords?: number
+  notifyEmail?: string
+}): Promise<Schedule> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('schedules')
+    .insert({
+      user_id: params.userId,
+      api_key_id: params.apiKeyId,
+      name: params.name,
+      type: params.type,
+      options: params.options,
+      crm_credentials: encryptCRMCredentials(params.crmCredentials),
+      frequency: params.timing.frequency,
+      hour: params.timing.hour,
+      day_of_week: params.timing.dayOfWeek,
+      modified_within_days: params.modifiedWithinDays ?? null,
+      max_records: params.maxRecords ?? null,
+      notify_email: params.notifyEmail ?? null,
+      next_run_at: getNextRunAt(params.timing, new Date()).toISOString()
+    })
+    .select('*')
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Failed to create schedule: ${error?.message}`)
+  }
+
+  return toSchedule(data as ScheduleRow)
+}
+
+/**
+ * Count a user's schedules
+ */
+export async function countSchedules(userId: string): Promise<number> {
+  const supabase = createServiceClient()
+  const { count, error } = await supabase
+    .from('schedules')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+
+  if (error) {
+    throw new Error(`Failed to count schedules: ${error.message}`)
+  }
+
+  return count || 0
+}
+
+/**
+ * List a user's schedules, newest first
+ */
+export async function listSchedules(userId: string): Promise<Schedule[]> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('schedules')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to load schedules: ${error.message}`)
+  }
+
+  return ((data || []) as ScheduleRow[]).map(toSchedule)
+}
+
+/**
+ * Load a schedule, scoped to the owning user
+ */
+export async function getSchedule(scheduleId: string, userId: string): Promise<Schedule | null> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('schedules')
+    .select('*')
+    .eq('id', scheduleId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load schedule: ${error.message}`)
+  }
+
+  return data ? toSchedule(data as ScheduleRow) : null
+}
+
+/**
+ * Update a schedule's name, notification address or enabled flag
+ * Re-enabling a schedule moves its next run to the next matching time from
+ * now, so runs missed while it was disabled aren't started all at once.
+ */
+export async function updateSchedule(
+  schedule: Schedule,
+  update: { name?: string; notifyEmail?: string | null; enabled?: boolean }
+): Promise<Schedule> {
+  const supabase = createServiceClient()
+  const row: Record<string, unknown> = {}
+
+  if (update.name !== undefined) {
+    row.name = update.name
+  }
+  if (update.notifyEmail !== undefined) {
+    row.notify_email = update.notifyEmail
+  }
+  if (update.enabled !== undefined) {
+    row.enabled = update.enabled
+    if (update.enabled && !schedule.enabled) {
+      row.next_run_at = getNextRunAt(schedule, new Date()).toISOString()
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('schedules')
+    .update(row)
+    .eq('id', schedule.id)
+    .eq('user_id', schedule.userId)
+    .select('*')
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Failed to update schedule: ${error?.message}`)
+  }
+
+  return toSchedule(data as ScheduleRow)
+}
+
+/**
+ * Delete a schedule and its run history (the runs' jobs are kept)
+ * Returns false when the schedule doesn't exist for this user.
+ */
+export async function deleteSchedule(scheduleId: string, userId: string): Promise<boolean> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('schedules')
+    .delete()
+    .eq('id', scheduleId)
+    .eq('user_id', userId)
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to delete schedule: ${error.message}`)
+  }
+
+  return !!data && data.length > 0
+}
+
+/**
+ * Page through a schedule's runs, newest first
+ * `before` is the startedAt of the last run of the previous page.
+ */
+export async function listScheduleRuns(
+  scheduleId: string,
+  params: { before?: string; limit: number }
+): Promise<ScheduleRun[]> {
+  const supabase = createServiceClient()
+  let query = supabase
+    .from('schedule_runs')
+    .select('*')
+    .eq('schedule_id', scheduleId)
+    .order('started_at', { ascending: false })
+    .limit(params.limit)
+
+  if (params.before !== undefined) {
+    query = query.lt('started_at', params.before)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to load schedule runs: ${error.message}`)
+  }
+
+  return ((data || []) as ScheduleRunRow[]).map(toScheduleRun)
+}
+
+/**
+ * Start one run of a schedule as a scan job
+ * A run is recorded (and reported) as failed instead when the previous one is
+ * still going or the job can't be created.
+ */
+async function startRun(schedule: ScheduleRow, now: Date): Promise<void> {
+  const supabase = createServiceClient()
+
+  const { count, error: runningError } = await supabase
+    .from('schedule_runs')
+    .select('id', { count: 'exact', head: true })
+    .eq('schedule_id', schedule.id)
+    .eq('status', 'running')
+
+  if (runningError) {
+    throw new Error(`Failed to check running schedule runs: ${runningError.message}`)
+  }
+
+  let jobId: string | null = null
+  let runError: string | null = null
+
+  if (count && count > 0) {
+    runError = 'Skipped: the previous run is still in progress'
+  } else {
+    try {
+      // Account defaults are applied at run time so later changes take effect
+      const options = { ...schedule.options } as JobOptions
+      const accountSettings = await getAccountSettings(schedule.user_id)
+      options.modelTier = options.modelTier ?? accountSettings.modelTier
+      if (schedule.type === 'clean' && plansWrite(options as CleanOptions)) {
+        const cleanOptions = options as CleanOptions
+        cleanOptions.writePolicies = { ...accountSettings.writePolicies, ...cleanOptions.writePolicies }
+      }
+
+      const job = await createJob({
+        userId: schedule.user_id,
+        apiKeyId: schedule.api_key_id,
+        type: schedule.type,
+        source: 'scan',
+        options,
+        crmCredentials: decryptCRMCredentials(schedule.crm_credentials),
+        items: [],
+        maxItems: schedule.max_records ?? VALIDATION_LIMITS.MAX_SCAN_RECORDS,
+        modifiedSince: schedule.modified_within_days === null
+          ? undefined
+          : new Date(now.getTime() - schedule.modified_within_days * 24 * 60 * 60 * 1000).toISOString()
+      })
+      jobId = job.id
+    } catch (jobError) {
+      runError = sanitizeErrorMessage(jobError, 'schedule-start-run')
+    }
+  }
+
+  const { data: run, error: insertError } = await supabase
+    .from('schedule_runs')
+    .insert({
+      schedule_id: schedule.id,
+      user_id: schedule.user_id,
+      job_id: jobId,
+      status: jobId ? 'running' : 'failed',
+      error: runError,
+      started_at: now.toISOString(),
+      completed_at: jobId ? null : now.toISOString()
+    })
+    .select('*')
+    .single()
+
+  if (insertError || !run) {
+    throw new Error(`Failed to record schedule run: ${insertError?.message}`)
+  }
+
+  // Runs that never got a job are reported right away
+  if (!jobId) {
+    await notifyRun(schedule, run as ScheduleRunRow, 'failed', null, runError)
+  }
+}
+
+/**
+ * Start every enabled schedule whose next run time has passed
+ * Each schedule is claimed by moving its next_run_at forward first, so two
+ * scheduler passes can't start the same run. Returns how many were started.
+ */
+async function startDueSchedules(deadline: number): Promise<number> {
+  const supabase = createServiceClient()
+  const now = new Date()
+
+  const { data, error } = await supabase
+    .from('schedules')
+    .select('*')
+    .eq('enabled', true)
+    .lte('next_run_at', now.toISOString())
+    .order('next_run_at', { ascending: true })
+    .limit(SCHEDULER_BATCH_SIZE)
+
+  if (error) {
+    throw new Error(`Failed to load due schedules: ${error.message}`)
+  }
+
+  let started = 0
+  for (const schedule of (data || []) as ScheduleRow[]) {
+    if (Date.now() >= deadline) {
+      break
+    }
+
+    const timing: ScheduleTiming = {
+      frequency: schedule.frequency,
+      hour: schedule.hour,
+      dayOfWeek: schedule.day_of_week
+    }
+
+    const { data: claimed, error: claimError } = await supabase
+      .from('schedules')
+      .update({
+        next_run_at: getNextRunAt(timing, now).toISOString(),
+        last_run_at: now.toISOString()
+      })
+      .eq('id', schedule.id)
+      .eq('next_run_at', schedule.next_run_at)
+      .select('id')
+
+    if (claimError) {
+      console.error('Failed to claim schedule:', claimError)
+      continue
+    }
+
+    if (!claimed || claimed.length === 0) {
+      continue
+    }
+
+    try {
+      await startRun(schedule, now)
+      started++
+    } catch (runError) {
+      console.error(`Failed to start run of schedule ${schedule.id}:`, runError)
+    }
+  }
+
+  return started
+}
+
+/**
+ * Progress counts and outcome totals for a finished run's job
+ */
+async function summarizeRun(jobId: string, type: JobType): Promise<ScheduleRunSummary> {
+  const supabase = createServiceClient()
+  const progress = await getJobProgress(jobId)
+
+  const outcomes = await Promise.all(Object.entries(RUN_OUTCOMES[type]).map(async ([name, { field, value }]) => {
+    const { count, error } = await supabase
+      .from('job_items')
+      .select('id', { count: 'exact', head: true })
+      .eq('job_id', jobId)
+      .eq('status', 'succeeded')
+      .eq(`result->>${field}`, value)
+
+    if (error) {
+      throw new Error(`Failed to count job results: ${error.message}`)
+    }
+
+    return [name, count || 0] as const
+  }))
+
+  return { progress, outcomes: Object.fromEntries(outcomes) }
+}
+
+function runEmailText(schedule: ScheduleRow, run: ScheduleRunRow, summary: ScheduleRunSummary | null, error: string | null): string {
+  const lines = [
+    `Schedule: ${schedule.name} (${schedule.type})`,
+    `Run: ${run.id}`,
+    `Started: ${run.started_at}`
+  ]
+
+  if (run.job_id) {
+    lines.push(`Job: ${run.job_id} (full results: GET /api/v1/jobs/${run.job_id}/results)`)
+  }
+
+  if (summary) {
+    const { progress, outcomes } = summary
+    lines.push(
+      '',
+      `Records processed: ${progress.succeeded + progress.failed}`,
+      `Succeeded: ${progress.succeeded}`,
+      `Failed: ${progress.failed}`,
+      ...Object.entries(outcomes).map(([name, count]) => `${name}: ${count}`)
+    )
+  }
+
+  if (error) {
+    lines.push('', `Error: ${error}`)
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Report a finished run by webhook (schedule.completed) and, when the schedule
+ * has an address, by email. Email failures are recorded on the run.
+ */
+async function notifyRun(
+  schedule: ScheduleRow,
+  run: ScheduleRunRow,
+  status: ScheduleRunStatus,
+  summary: ScheduleRunSummary | null,
+  error: string | null
+): Promise<void> {
+  const supabase = createServiceClient()
+
+  await logAuditEvent({
+    eventType: AuditEventType.SCHEDULE_RUN_COMPLETED,
+    userId: schedule.user_id,
+    apiKeyId: schedule.api_key_id,
+    metadata: {
+      scheduleId: schedule.id,
+      scheduleName: schedule.name,
+      runId: run.id,
+      jobId: run.job_id,
+      type: schedule.type,
+      status,
+      summary,
+      error
+    },
+    success: status === 'completed',
+    errorMessage: error ?? undefined
+  })
+
+  let notificationError: string | null = null
+  if (schedule.notify_email) {
+    try {
+      await sendEmail({
+        to: schedule.notify_email,
+        subject: `Cleanup run ${status}: ${schedule.name}`,
+        text: runEmailText(schedule, run, summary, error)
+      })
+    } catch (emailError) {
+      notificationError = sanitizeErrorMessage(emailError, 'schedule-email')
+    }
+  }
+
+  const { error: updateError } = await supabase
+    .from('schedule_runs')
+    .update({
+      notified_at: new Date().toISOString(),
+      notification_error: notificationError
+    })
+    .eq('id', run.id)
+
+  if (updateError) {
+    console.error('Failed to record schedule run notification:', updateError)
+  }
+}
+
+/**
+ * Close runs whose job has finished: store the summary and send notifications
+ * Returns how many runs were finalized.
+ */
+async function finalizeFinishedRuns(deadline: number): Promise<number> {
+  const supabase = createServiceClient()
+
+  const { data, error } = await supabase
+    .from('schedule_runs')
+    .select('*, jobs(status, error), schedules(*)')
+    .eq('status', 'running')
+    .order('started_at', { ascending: true })
+    .limit(SCHEDULER_BATCH_SIZE)
+
+  if (error) {
+    throw new Error(`Failed to load running schedule runs: ${error.message}`)
+  }
+
+  const runs = (data || []) as unknown as Array<ScheduleRunRow & {
+    jobs: { status: JobStatus; error: string | null } | null
+    schedules: ScheduleRow
+  }>
+
+  let finalized = 0
+  for (const run of runs) {
+    if (Date.now() >= deadline) {
+      break
+    }
+
+    const jobStatus = run.jobs?.status
+    if (jobStatus === 'queued' || jobStatus === 'running') {
+      continue
+    }
+
+    // A deleted job can't be summarized
+    const status: ScheduleRunStatus = jobStatus ?? 'failed'
+    const runError = run.jobs ? run.jobs.error : 'Job no longer exists'
+
+    try {
+      const summary = run.job_id && run.jobs ? await summarizeRun(run.job_id, run.schedules.type) : null
+
+      const { data: closed, error: closeError } = await supabase
+        .from('schedule_runs')
+        .update({
+          status,
+          summary,
+          error: runError,
+          completed_at: new Date().toISOString()
+        })
+        .eq('id', run.id)
+        .eq('status', 'running')
+        .select('id')
+
+      if (closeError) {
+        throw new Error(`Failed to finalize schedule run: ${closeError.message}`)
+      }
+
+      // Another scheduler pass got there first
+      if (!closed || closed.length === 0) {
+        continue
+      }
+
+      await notifyRun(run.schedules, run, status, summary, runError)
+      finalized++
+    } catch (finalizeError) {
+      console.error(`Failed to finalize schedule run ${run.id}:`, finalizeError)
+    }
+  }
+
+  return finalized
+}
+
+/**
+ * One scheduler pass: report finished runs, then start due ones, until the
+ * deadline (epoch ms). The job worker drains the started jobs.
+ */
+export async function processSchedules(deadline: number): Promise<{ started: number; finalized: number }> {
+  const finalized = await finalizeFinishedRuns(deadline)
+  const started = await startDueSchedules(deadline)
+  return { started, finalized }
+}
@@ -2,14 +2,38 @@
  * Input validation utilities for API endpoints
  */
 
+import { isIP } from 'net'
+
 // Validation limits
 export const VALIDATION_LIMITS = {
   MAX_COMPANY_PROPERTIES: 50,
   MAX_STRING_LENGTH: 10000,
   MAX_RULE_LENGTH: 2000,
   MAX_PROPERTY_RULES: 20,
+  MAX_PROPERTY_MAPPINGS: 50,
+  MAX_CUSTOM_FIELDS: 20,
+  MAX_ENUM_VALUES: 50,
+  MAX_ENUM_VALUE_LENGTH: 200,
+  MAX_BATCH_ITEMS: 250,
+  MAX_BATCH_CONCURRENCY: 10,
+  MAX_JOB_ITEMS: 10000,
+  MAX_SCAN_RECORDS: 100000,
+  MAX_CLUSTER_RECORDS: 5000,
+  MAX_MERGE_CLUSTER_SIZE: 20,
+  MAX_SCHEDULE_NAME_LENGTH: 100,
+  MAX_SCHEDULE_LOOKBACK_DAYS: 365,
 } as const
 
+// Value types supported for caller-declared custom fields
+export const CUSTOM_FIELD_TYPES = ['string', 'number', 'integer', 'boolean'] as const
+
+// Custom field names: must start with a letter, then letters, digits or underscores
+const CUSTOM_FIELD_NAME_REGEX = /^[A-Za-z][A-Za-z0-9_]{0,63}$/
+
+// CRM property names: letters, digits, underscores, dots and dashes
+// (covers HubSpot/Attio snake_case, Salesforce __c fields and Pipedrive hash keys)
+const PROPERTY_NAME_REGEX = /^[A-Za-z0-9_.-]{1,100}$/
+
 // UUID validation regex
 const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
 
@@ -114,6 +138,267 @@ export function sanitizePropertyRules(
   return Object.keys(sanitized).length > 0 ? sanitized : undefined
 }
 
+/**
+ * Validate a field -> CRM property mapping override
+ * Values are CRM property names, or null to never write the field
+ */
+export function validatePropertyMapping(mapping: unknown): {
+  valid: boolean
+  error?: string
+} {
+  if (mapping === undefined || mapping === null) {
+    return { valid: true }
+  }
+
+  if (typeof mapping !== 'object' || Array.isArray(mapping)) {
+    return { valid: false, error: 'propertyMapping must be an object of field names to CRM property names' }
+  }
+
+  const entries = Object.entries(mapping as Record<string, unknown>)
+  if (entries.length > VALIDATION_LIMITS.MAX_PROPERTY_MAPPINGS) {
+    return {
+      valid: false,
+      error: `Too many property mappings. Maximum ${VALIDATION_LIMITS.MAX_PROPERTY_MAPPINGS} allowed, received ${entries.length}`
+    }
+  }
+
+  for (const [field, property] of entries) {
+    if (property !== null && (typeof property !== 'string' || !PROPERTY_NAME_REGEX.test(property))) {
+      return {
+        valid: false,
+        error: `Invalid CRM property name for '${field}' in propertyMapping`
+      }
+    }
+  }
+
+  return { valid: true }
+}
+
+/**
+ * Validate caller-declared custom fields for the clean endpoint
+ * Shape: { [fieldName]: { type, description?, enum? } }
+ */
+export function validateCustomFields(
+  customFields: unknown,
+  reservedNames: readonly string[]
+): {
+  valid: boolean
+  error?: string
+} {
+  if (customFields === undefined || customFields === null) {
+    return { valid: true }
+  }
+
+  if (typeof customFields !== 'object' || Array.isArray(customFields)) {
+    return { valid: false, error: 'customFields must be an object of field names to field definitions' }
+  }
+
+  const entries = Object.entries(customFields as Record<string, unknown>)
+  if (entries.length > VALIDATION_LIMITS.MAX_CUSTOM_FIELDS) {
+    return {
+      valid: false,
+      error: `Too many custom fields. Maximum ${VALIDATION_LIMITS.MAX_CUSTOM_FIELDS} allowed, received ${entries.length}`
+    }
+  }
+
+  for (const [name, definition] of entries) {
+    if (!CUSTOM_FIELD_NAME_REGEX.test(name)) {
+      return { valid: false, error: `Invalid custom field name '${name}'` }
+    }
+
+    if (reservedNames.includes(name)) {
+      return { valid: false, error: `Custom field '${name}' conflicts with a built-in field` }
+    }
+
+    if (!definition || typeof definition !== 'object' || Array.isArray(definition)) {
+      return { valid: false, error: `Custom field '${name}' must be an object` }
+    }
+
+    const { type, description, enum: enumValues } = definition as Record<string, unknown>
+
+    if (typeof type !== 'string' || !(CUSTOM_FIELD_TYPES as readonly string[]).includes(type)) {
+      return {
+        valid: false,
+        error: `Invalid type for custom field '${name}'. Must be one of: ${CUSTOM_FIELD_TYPES.join(', ')}`
+      }
+    }
+
+    if (description !== undefined && typeof description !== 'string') {
+      return { valid: false, error: `Description for custom field '${name}' must be a string` }
+    }
+
+    if (enumValues !== undefined) {
+      if (!Array.isArray(enumValues) || enumValues.length === 0) {
+        return { valid: false, error: `Enum for custom field '${name}' must be a non-empty array` }
+      }
+
+      if (enumValues.length > VALIDATION_LIMITS.MAX_ENUM_VALUES) {
+        return {
+          valid: false,
+          error: `Too many enum values for custom field '${name}'. Maximum ${VALIDATION_LIMITS.MAX_ENUM_VALUES} allowed`
+        }
+      }
+
+      for (const value of enumValues) {
+        const matchesType =
+          (type === 'string' && typeof value === 'string' && value.length <= VALIDATION_LIMITS.MAX_ENUM_VALUE_LENGTH) ||
+          (type === 'number' && typeof value === 'number') ||
+          (type === 'integer' && Number.isInteger(value)) ||
+          (type === 'boolean' && typeof value === 'boolean')
+        if (!matchesType) {
+          return { valid: false, error: `Invalid enum value for custom field '${name}' of type ${type}` }
+        }
+      }
+    }
+  }
+
+  return { valid: true }
+}
+
+// Operation modes: "live" writes to the CRM, "preview" only reports what would change
+export const OPERATION_MODES = ['live', 'preview'] as const
+
+export type OperationMode = typeof OPERATION_MODES[number]
+
+/**
+ * Validate the operation mode (defaults to live when omitted)
+ */
+export function validateMode(mode: unknown): {
+  valid: boolean
+  error?: string
+} {
+  if (mode === undefined || mode === null) {
+    return { valid: true }
+  }
+
+  if (typeof mode !== 'string' || !(OPERATION_MODES as readonly string[]).includes(mode)) {
+    return { valid: false, error: `Invalid mode. Must be one of: ${OPERATION_MODES.join(', ')}` }
+  }
+
+  return { valid: true }
+}
+
+// Model tiers: each maps to a configured model and reasoning effort (see lib/llm/tiers.ts)
+export const MODEL_TIERS = ['fast', 'balanced', 'accurate'] as const
+
+export type ModelTier = typeof MODEL_TIERS[number]
+
+// Used when neither the request nor the account settings pick a tier
+export const DEFAULT_MODEL_TIER: ModelTier = 'fast'
+
+/**
+ * Validate a model tier (omitted means the account default)
+ */
+export function validateModelTier(tier: unknown): {
+  valid: boolean
+  error?: string
+} {
+  if (tier === undefined || tier === null) {
+    return { valid: true }
+  }
+
+  if (typeof tier !== 'string' || !(MODEL_TIERS as readonly string[]).includes(tier)) {
+    return { valid: false, error: `Invalid model tier. Must be one of: ${MODEL_TIERS.join(', ')}` }
+  }
+
+  return { valid: true }
+}
+
+export const CONFIDENCE_LEVELS = ['LOW', 'MEDIUM', 'HIGH'] as const
+
+export type ConfidenceLevel = typeof CONFIDENCE_LEVELS[number]
+
+// A single threshold for every field, or thresholds keyed by field name
+export type MinConfidence = ConfidenceLevel | Record<string, ConfidenceLevel>
+
+function isConfidenceLevel(value: unknown): value is ConfidenceLevel {
+  return typeof value === 'string' && (CONFIDENCE_LEVELS as readonly string[]).includes(value)
+}
+
+/**
+ * Validate minConfidence (a confidence level, or an object of field -> confidence level)
+ */
+export function validateMinConfidence(minConfidence: unknown): {
+  valid: boolean
+  error?: string
+} {
+  if (minConfidence === undefined || minConfidence === null) {
+    return { valid: true }
+  }
+
+  if (typeof minConfidence === 'string') {
+    if (!isConfidenceLevel(minConfidence)) {
+      return { valid: false, error: `Invalid minConfidence. Must be one of: ${CONFIDENCE_LEVELS.join(', ')}` }
+    }
+    return { valid: true }
+  }
+
+  if (typeof minConfidence !== 'object' || Array.isArray(minConfidence)) {
+    return { valid: false, error: 'minConfidence must be a confidence level or an object of field names to confidence levels' }
+  }
+
+  const entries = Object.entries(minConfidence)
+  if (entries.length > VALIDATION_LIMITS.MAX_COMPANY_PROPERTIES) {
+    return {
+      valid: false,
+      error: `Too many minConfidence entries. Maximum ${VALIDATION_LIMITS.MAX_COMPANY_PROPERTIES} allowed, received ${entries.length}`
+    }
+  }
+
+  for (const [field, level] of entries) {
+    if (!isConfidenceLevel(level)) {
+      return {
+        valid: false,
+        error: `Invalid minConfidence for '${field}'. Must be one of: ${CONFIDENCE_LEVELS.join(', ')}`
+      }
+    }
+  }
+
+  return { valid: true }
+}
+
+// How a cleaned value may be written to a CRM property:
+// overwrite (default), fillEmptyOnly (only when the CRM value is empty),
+// neverWrite, or appendToNote (attach the suggestion as a note instead)
+export const WRITE_POLICIES = ['overwrite', 'fillEmptyOnly', 'neverWrite', 'appendToNote'] as const
+
+export type WritePolicy = typeof WRITE_POLICIES[number]
+
+/**
+ * Validate write policies (object of field name -> write policy)
+ */
+export function validateWritePolicies(writePolicies: unknown): {
+  valid: boolean
+  error?: string
+} {
+  if (writePolicies === undefined || writePolicies === null) {
+    return { valid: true }
+  }
+
+  if (typeof writePolicies !== 'object' || Array.isArray(writePolicies)) {
+    return { valid: false, error: 'writePolicies must be an object of field names to write policies' }
+  }
+
+  const entries = Object.entries(writePolicies)
+  if (entries.length > VALIDATION_LIMITS.MAX_COMPANY_PROPERTIES) {
+    return {
+      valid: false,
+      error: `Too many writePolicies. Maximum ${VALIDATION_LIMITS.MAX_COMPANY_PROPERTIES} allowed, received ${entries.length}`
+    }
+  }
+
+  for (const [field, policy] of entries) {
+    if (typeof policy !== 'string' || !(WRITE_POLICIES as readonly string[]).includes(policy)) {
+      return {
+        valid: false,
+        error: `Invalid write policy for '${field}'. Must be one of: ${WRITE_POLICIES.join(', ')}`
+      }
+    }
+  }
+
+  return { valid: true }
+}
+
 /**
  * Validate UUID format
  */
@@ -145,6 +430,362 @@ export function validateRecordId(recordId: unknown): {
   return { valid: true }
 }
 
+/**
+ * Validate the record IDs of a multi-way merge (at least two, no repeats)
+ */
+export function validateClusterRecordIds(recordIds: unknown): {
+  valid: boolean
+  error?: string
+} {
+  if (!Array.isArray(recordIds) || recordIds.length < 2) {
+    return { valid: false, error: 'recordIds must be an array of at least 2 record IDs' }
+  }
+
+  if (recordIds.length > VALIDATION_LIMITS.MAX_MERGE_CLUSTER_SIZE) {
+    return {
+      valid: false,
+      error: `Too many recordIds. Maximum ${VALIDATION_LIMITS.MAX_MERGE_CLUSTER_SIZE} allowed, received ${recordIds.length}`
+    }
+  }
+
+  for (const recordId of recordIds) {
+    const recordIdValidation = validateRecordId(recordId)
+    if (!recordIdValidation.valid) {
+      return { valid: false, error: `Invalid recordIds: ${recordIdValidation.error}` }
+    }
+  }
+
+  if (new Set(recordIds).size !== recordIds.length) {
+    return { valid: false, error: 'recordIds must not contain duplicates' }
+  }
+
+  return { valid: true }
+}
+
+/**
+ * Validate the items array of a batch request or job (each item is checked on its own later)
+ */
+export function validateBatchItems(
+  items: unknown,
+  maxItems: number = VALIDATION_LIMITS.MAX_BATCH_ITEMS
+): {
+  valid: boolean
+  error?: string
+} {
+  if (!Array.isArray(items) || items.length === 0) {
+    return { valid: false, error: 'items must be a non-empty array' }
+  }
+
+  if (items.length > maxItems) {
+    return {
+      valid: false,
+      error: `Too many items. Maximum ${maxItems} allowed, received ${items.length}`
+    }
+  }
+
+  const invalidIndex = items.findIndex(item => !item || typeof item !== 'object' || Array.isArray(item))
+  if (invalidIndex !== -1) {
+    return { valid: false, error: `Item ${invalidIndex} must be an object` }
+  }
+
+  return { valid: true }
+}
+
+// Bulk operations that can run as a background job
+export const JOB_TYPES = ['clean', 'purge', 'merge'] as const
+
+export type JobType = typeof JOB_TYPES[number]
+
+/**
+ * Validate a job type
+ */
+export function validateJobType(type: unknown): {
+  valid: boolean
+  error?: string
+} {
+  if (typeof type !== 'string' || !(JOB_TYPES as readonly string[]).includes(type)) {
+    return { valid: false, error: `Invalid type. Must be one of: ${JOB_TYPES.join(', ')}` }
+  }
+
+  return { valid: true }
+}
+
+// Where a job's companies come from: the submitted items, or a scan of every company in the CRM
+export const JOB_SOURCES = ['items', 'scan'] as const
+
+export type JobSource = typeof JOB_SOURCES[number]
+
+/**
+ * Validate a job source
+ */
+export function validateJobSource(source: unknown): {
+  valid: boolean
+  error?: string
+} {
+  if (typeof source !== 'string' || !(JOB_SOURCES as readonly string[]).includes(source)) {
+    return { valid: false, error: `Invalid source. Must be one of: ${JOB_SOURCES.join(', ')}` }
+  }
+
+  return { valid: true }
+}
+
+/**
+ * Validate the record cap of a portal scan
+ */
+export function validateMaxRecords(
+  maxRecords: unknown,
+  limit: number = VALIDATION_LIMITS.MAX_SCAN_RECORDS
+): {
+  valid: boolean
+  error?: string
+} {
+  if (
+    typeof maxRecords !== 'number' ||
+    !Number.isInteger(maxRecords) ||
+    maxRecords < 1 ||
+    maxRecords > limit
+  ) {
+    return {
+      valid: false,
+      error: `maxRecords must be an integer between 1 and ${limit}`
+    }
+  }
+
+  return { valid: true }
+}
+
+// How often a schedule runs (times are UTC)
+export const SCHEDULE_FREQUENCIES = ['hourly', 'daily', 'weekly'] as const
+
+export type ScheduleFrequency = typeof SCHEDULE_FREQUENCIES[number]
+
+// Loose address check: the email provider does the real validation
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+/**
+ * Validate when a schedule runs
+ * hour (0-23, UTC) applies to daily and weekly schedules, dayOfWeek (0 = Sunday)
+ * to weekly ones.
+ */
+export function validateScheduleTiming(timing: {
+  frequency: unknown
+  hour?: unknown
+  dayOfWeek?: unknown
+}): {
+  valid: boolean
+  error?: string
+} {
+  const { frequency, hour, dayOfWeek } = timing
+
+  if (typeof frequency !== 'string' || !(SCHEDULE_FREQUENCIES as readonly string[]).includes(frequency)) {
+    return { valid: false, error: `Invalid frequency. Must be one of: ${SCHEDULE_FREQUENCIES.join(', ')}` }
+  }
+
+  if (hour !== undefined && (typeof hour !== 'number' || !Number.isInteger(hour) || hour < 0 || hour > 23)) {
+    return { valid: false, error: 'hour must be an integer between 0 and 23 (UTC)' }
+  }
+
+  if (frequency === 'weekly') {
+    if (typeof dayOfWeek !== 'number' || !Number.isInteger(dayOfWeek) || dayOfWeek < 0 || dayOfWeek > 6) {
+      return { valid: false, error: 'Weekly schedules require dayOfWeek, an integer between 0 (Sunday) and 6 (Saturday)' }
+    }
+  } else if (dayOfWeek !== undefined) {
+    return { valid: false, error: 'dayOfWeek only applies to weekly schedules' }
+  }
+
+  return { valid: true }
+}
+
+/**
+ * Validate an email address for notifications
+ */
+export function validateEmail(email: unknown): {
+  valid: boolean
+  error?: string
+} {
+  if (typeof email !== 'string' || email.length > 254 || !EMAIL_REGEX.test(email)) {
+    return { valid: false, error: 'Invalid email address' }
+  }
+
+  return { valid: true }
+}
+
+// Events a webhook endpoint can subscribe to
+export const WEBHOOK_EVENT_TYPES = [
+  'job.completed',
+  'record.updated',
+  'record.merged',
+  'record.deleted',
+  'credits.low',
+  'schedule.completed'
+] as const
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number]
+
+// IPv4 ranges no webhook may target: this network, private, carrier-grade NAT,
+// loopback, link-local (cloud metadata), IETF protocol, documentation,
+// benchmarking, multicast and reserved
+const RESERVED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+]
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((value, octet) => value * 256 + Number(octet), 0)
+}
+
+function isReservedIPv4(address: string): boolean {
+  const value = ipv4ToNumber(address)
+  return RESERVED_IPV4_RANGES.some(([base, prefix]) => {
+    const size = 2 ** (32 - prefix)
+    return Math.floor(value / size) === Math.floor(ipv4ToNumber(base) / size)
+  })
+}
+
+function isReservedIPv6(address: string): boolean {
+  const normalized = address.toLowerCase()
+
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) addresses reach the embedded IPv4 host
+  const embeddedIPv4 = normalized.match(/^(?:::ffff:|64:ff9b::)(\d+\.\d+\.\d+\.\d+)$/)
+  if (embeddedIPv4) {
+    return isReservedIPv4(embeddedIPv4[1])
+  }
+
+  const firstGroup = parseInt(normalized.split(':')[0] || '0', 16)
+  return normalized === '::' ||
+    normalized === '::1' ||
+    normalized.startsWith('::ffff:') ||
+    normalized.startsWith('64:ff9b:') ||
+    normalized.startsWith('2001:db8:') ||
+    (firstGroup & 0xfe00) === 0xfc00 || // unique local fc00::/7
+    (firstGroup & 0xffc0) === 0xfe80 || // link-local fe80::/10
+    (firstGroup & 0xff00) === 0xff00 // multicast ff00::/8
+}
+
+/**
+ * Whether an IP address is private, loopback, link-local or otherwise reserved
+ * Returns false for anything that isn't an IP literal (hostnames).
+ */
+export function isReservedAddress(address: string): boolean {
+  const host = address.replace(/^\[|\]$/g, '')
+  switch (isIP(host)) {
+    case 4: return isReservedIPv4(host)
+    case 6: return isReservedIPv6(host)
+    default: return false
+  }
+}
+
+/**
+ * Whether webhooks may target a loopback host (local development only)
+ */
+export function isLocalWebhookHostAllowed(hostname: string): boolean {
+  if (process.env.NODE_ENV === 'production') {
+    return false
+  }
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase()
+  return host === 'localhost' || host.endsWith('.localhost') || host === '::1' ||
+    (isIP(host) === 4 && host.startsWith('127.'))
+}
+
+/**
+ * Validate a webhook endpoint URL
+ * HTTPS to a public host only; outside production, localhost may also be used over http.
+ * Hostnames are resolved and checked again on every delivery (see lib/webhooks.ts).
+ */
+export function validateWebhookUrl(url: unknown): {
+  valid: boolean
+  error?: string
+} {
+  if (!url || typeof url !== 'string') {
+    return { valid: false, error: 'url is required and must be a string' }
+  }
+
+  if (url.length > 2048) {
+    return { valid: false, error: 'url must be at most 2048 characters' }
+  }
+
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return { valid: false, error: 'url must be a valid URL' }
+  }
+
+  const isLocalhost = isLocalWebhookHostAllowed(parsed.hostname)
+  if (parsed.protocol !== 'https:' && !(parsed.protocol === 'http:' && isLocalhost)) {
+    return { valid: false, error: 'url must use https' }
+  }
+
+  if (!isLocalhost) {
+    const host = parsed.hostname.toLowerCase()
+    if (host === 'localhost' || host.endsWith('.localhost') || isReservedAddress(host)) {
+      return { valid: false, error: 'url must not point to a private or reserved address' }
+    }
+  }
+
+  return { valid: true }
+}
+
+/**
+ * Validate the event types a webhook endpoint subscribes to
+ */
+export function validateWebhookEvents(events: unknown): {
+  valid: boolean
+  error?: string
+} {
+  if (!Array.isArray(events) || events.length === 0) {
+    return { valid: false, error: 'events must be a non-empty array' }
+  }
+
+  const invalid = events.find(event => typeof event !== 'string' || !(WEBHOOK_EVENT_TYPES as readonly string[]).includes(event))
+  if (invalid !== undefined) {
+    return {
+      valid: false,
+      error: `Invalid event '${String(invalid)}'. Must be one of: ${WEBHOOK_EVENT_TYPES.join(', ')}`
+    }
+  }
+
+  return { valid: true }
+}
+
+/**
+ * Validate a batch concurrency override (defaults are applied by the caller)
+ */
+export function validateConcurrency(concurrency: unknown): {
+  valid: boolean
+  error?: string
+} {
+  if (concurrency === undefined || concurrency === null) {
+    return { valid: true }
+  }
+
+  if (
+    typeof concurrency !== 'number' ||
+    !Number.isInteger(concurrency) ||
+    concurrency < 1 ||
+    concurrency > VALIDATION_LIMITS.MAX_BATCH_CONCURRENCY
+  ) {
+    return {
+      valid: false,
+      error: `concurrency must be an integer between 1 and ${VALIDATION_LIMITS.MAX_BATCH_CONCURRENCY}`
+    }
+  }
+
+  return { valid: true }
+}
+
 /**
  * Sanitize error message to prevent information leakage
  */
@@ -0,0 +1,333 @@
+/**
+ * Outbound webhooks: signed deliveries of audit events to the endpoints an
+ * account registered (webhook_endpoints table), logged and retried with
+ * exponential backoff (webhook_deliveries table)
+ * Delivery is at-least-once, so receivers should dedupe on X-Webhook-Id.
+ */
+
+import { createHmac, randomBytes } from 'crypto'
+import { lookup } from 'dns/promises'
+import { isIP } from 'net'
+import { createServiceClient } from './supabase/service'
+import type { AuditEvent } from './audit'
+import { isLocalWebhookHostAllowed, isReservedAddress, WebhookEventType } from './validation'
+
+export type WebhookDeliveryStatus = 'pending' | 'delivering' | 'succeeded' | 'failed'
+
+export interface WebhookPayload {
+  id: string
+  type: WebhookEventType
+  createdAt: string
+  data: Record<string, unknown>
+}
+
+interface WebhookEndpointRow {
+  id: string
+  url: string
+  secret: string
+}
+
+interface WebhookDeliveryRow {
+  id: string
+  endpoint_id: string
+  event_type: WebhookEventType
+  payload: WebhookPayload
+  attempts: number
+}
+
+// Deliveries are given up on after this many attempts (retries span about 8.5 hours)
+const MAX_DELIVERY_ATTEMPTS = 10
+
+// First retry waits this long; each later one waits twice as long as the last
+const BASE_RETRY_DELAY_MS = 60 * 1000
+
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000
+
+// Receivers must answer within this long or the attempt counts as failed
+const DELIVERY_TIMEOUT_MS = 10 * 1000
+
+// Deliveries still marked delivering after this long were abandoned by a timed-out worker
+const STALE_DELIVERY_MS = 10 * 60 * 1000
+
+// Response bodies are kept in the delivery log up to this length
+const MAX_LOGGED_RESPONSE_LENGTH = 1000
+
+/**
+ * Generate a signing secret for a new webhook endpoint
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(32).toString('hex')}`
+}
+
+/**
+ * HMAC-SHA256 of `${timestamp}.${body}` with the endpoint's secret, hex encoded
+ * Receivers recompute it from the X-Webhook-Timestamp header and the raw body.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+/**
+ * Delay before the next attempt, given how many attempts have failed so far
+ */
+export function getRetryDelayMs(failedAttempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (failedAttempts - 1), MAX_RETRY_DELAY_MS)
+}
+
+/**
+ * Resolve the endpoint's host and refuse private or reserved addresses, so a
+ * hostname can't be repointed at internal services after it was registered
+ * Returns why the endpoint can't be called, or null when it can.
+ */
+async function checkDeliveryTarget(url: string): Promise<string | null> {
+  const { hostname } = new URL(url)
+  if (isLocalWebhookHostAllowed(hostname)) {
+    return null
+  }
+
+  const host = hostname.replace(/^\[|\]$/g, '')
+  const addresses = isIP(host) ? [{ address: host }] : await lookup(host, { all: true })
+  if (addresses.some(({ address }) => isReservedAddress(address))) {
+    return 'Endpoint resolves to a private or reserved address'
+  }
+
+  return null
+}
+
+/**
+ * POST a claimed delivery to its endpoint and record the outcome in the delivery log
+ * The claim already counted the attempt; a failed one is put back as pending
+ * with its next retry time.
+ */
+async function attemptDelivery(delivery: WebhookDeliveryRow, endpoint: WebhookEndpointRow): Promise<void> {
+  const supabase = createServiceClient()
+  const body = JSON.stringify(delivery.payload)
+  const timestamp = Math.floor(Date.now() / 1000)
+  const { attempts } = delivery
+
+  let responseStatus: number | null = null
+  let responseBody: string | null = null
+  let errorMessage: string | null = null
+
+  try {
+    const targetError = await checkDeliveryTarget(endpoint.url)
+    if (targetError) {
+      throw new Error(targetError)
+    }
+
+    const response = await fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Id': delivery.id,
+        'X-Webhook-Event': delivery.event_type,
+        'X-Webhook-Timestamp': timestamp.toString(),
+        'X-Webhook-Signature': `v1=${signWebhookPayload(endpoint.secret, timestamp, body)}`
+      },
+      body,
+      // A redirect could lead anywhere, including addresses the check above refuses
+      redirect: 'manual',
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+    })
+
+    responseStatus = response.status
+    responseBody = (await response.text()).slice(0, MAX_LOGGED_RESPONSE_LENGTH)
+    if (!response.ok) {
+      errorMessage = `Endpoint responded with ${response.status}`
+    }
+  } catch (error) {
+    errorMessage = error instanceof Error ? error.message : 'Delivery failed'
+  }
+
+  const succeeded = errorMessage === null
+  const exhausted = !succeeded && attempts >= MAX_DELIVERY_ATTEMPTS
+
+  const { error: updateError } = await supabase
+    .from('webhook_deliveries')
+    .update({
+      status: succeeded ? 'succeeded' : exhausted ? 'failed' : 'pending',
+      response_status: responseStatus,
+      response_body: responseBody,
+      error: errorMessage,
+      delivered_at: succeeded ? new Date().toISOString() : null,
+      next_attempt_at: succeeded || exhausted
+        ? null
+        : new Date(Date.now() + getRetryDelayMs(attempts)).toISOString()
+    })
+    .eq('id', delivery.id)
+    .eq('status', 'delivering')
+
+  if (updateError) {
+    console.error('Failed to update webhook delivery:', updateError)
+  }
+}
+
+/**
+ * Put deliveries abandoned by a timed-out worker back in the queue, or fail them
+ * once they've used up their attempts
+ */
+async function releaseStaleDeliveries(): Promise<void> {
+  const supabase = createServiceClient()
+  const staleBefore = new Date(Date.now() - STALE_DELIVERY_MS).toISOString()
+
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .select('id, attempts')
+    .eq('status', 'delivering')
+    .lt('updated_at', staleBefore)
+
+  if (error) {
+    console.error('Failed to load stale webhook deliveries:', error)
+    return
+  }
+
+  for (const delivery of (data || []) as Array<{ id: string; attempts: number }>) {
+    const exhausted = delivery.attempts >= MAX_DELIVERY_ATTEMPTS
+    const { error: releaseError } = await supabase
+      .from('webhook_deliveries')
+      .update(exhausted
+        ? { status: 'failed', error: 'Delivery timed out', next_attempt_at: null }
+        : { status: 'pending', next_attempt_at: new Date().toISOString() })
+      .eq('id', delivery.id)
+      .eq('status', 'delivering')
+
+    if (releaseError) {
+      console.error('Failed to release stale webhook delivery:', releaseError)
+    }
+  }
+}
+
+/**
+ * Claim a due delivery for this worker, counting the attempt
+ * Returns null when another worker claimed it first.
+ */
+async function claimDelivery<T extends WebhookDeliveryRow>(delivery: T): Promise<T | null> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .update({ status: 'delivering', attempts: delivery.attempts + 1 })
+    .eq('id', delivery.id)
+    .eq('status', 'pending')
+    .select('id, attempts')
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to claim webhook delivery: ${error.message}`)
+  }
+
+  return data ? { ...delivery, attempts: data.attempts as number } : null
+}
+
+/**
+ * Queue an event for every enabled endpoint of the user subscribed to it
+ * Every attempt, the first included, is made by the delivery worker, so a slow
+ * endpoint never holds up the API call that raised the event.
+ * Never throws: a webhook problem must not fail that call either.
+ */
+export async function queueWebhookEvent(type: WebhookEventType, event: AuditEvent): Promise<void> {
+  try {
+    const supabase = createServiceClient()
+    const { data: endpoints, error } = await supabase
+      .from('webhook_endpoints')
+      .select('id, url, secret')
+      .eq('user_id', event.userId)
+      .eq('enabled', true)
+      .contains('events', [type])
+
+    if (error) {
+      console.error('Failed to load webhook endpoints:', error)
+      return
+    }
+
+    if (!endpoints || endpoints.length === 0) {
+      return
+    }
+
+    const payload: WebhookPayload = {
+      id: event.id,
+      type,
+      createdAt: event.timestamp,
+      data: event.metadata || {}
+    }
+
+    const { error: insertError } = await supabase
+      .from('webhook_deliveries')
+      .insert((endpoints as WebhookEndpointRow[]).map(endpoint => ({
+        endpoint_id: endpoint.id,
+        user_id: event.userId,
+        event_id: event.id,
+        event_type: type,
+        payload,
+        // Due right away: the worker's next run makes the first attempt
+        next_attempt_at: new Date().toISOString()
+      })))
+
+    if (insertError) {
+      console.error('Failed to queue webhook deliveries:', insertError)
+    }
+  } catch (error) {
+    console.error('Failed to queue webhook event:', error)
+  }
+}
+
+/**
+ * Attempt deliveries that are due (newly queued or past their backoff), oldest
+ * first, until the deadline (epoch ms)
+ * Returns how many deliveries were attempted.
+ */
+export async function deliverDueWebhooks(deadline: number): Promise<number> {
+  const supabase = createServiceClient()
+  let attempted = 0
+
+  await releaseStaleDeliveries()
+
+  while (Date.now() < deadline) {
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .select('id, endpoint_id, event_type, payload, attempts, webhook_endpoints(id, url, secret, enabled)')
+      .eq('status', 'pending')
+      .lte('next_attempt_at', new Date().toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(50)
+
+    if (error) {
+      throw new Error(`Failed to load due webhook deliveries: ${error.message}`)
+    }
+
+    const due = (data || []) as unknown as Array<WebhookDeliveryRow & {
+      webhook_endpoints: (WebhookEndpointRow & { enabled: boolean }) | null
+    }>
+
+    if (due.length === 0) {
+      break
+    }
+
+    for (const delivery of due) {
+      if (Date.now() >= deadline) {
+        break
+      }
+
+      const endpoint = delivery.webhook_endpoints
+      if (!endpoint || !endpoint.enabled) {
+        // Endpoint was disabled since the event was queued
+        await supabase
+          .from('webhook_deliveries')
+          .update({ status: 'failed', error: 'Endpoint disabled', next_attempt_at: null })
+          .eq('id', delivery.id)
+          .eq('status', 'pending')
+        continue
+      }
+
+      // Overlapping worker runs see the same due rows; only one may deliver each
+      const claimed = await claimDelivery(delivery)
+      if (!claimed) {
+        continue
+      }
+
+      await attemptDelivery(claimed, endpoint)
+      attempted++
+    }
+  }
+
+  return attempted
+}
@@ -17,7 +17,7 @@ async function createTables() {
   try {
     console.log('📦 Creating api_keys table in Supabase...')
 
-    const migrationPath = path.join(process.cwd(), 'supabase/migrations/create_api_keys_table.sql')
+    const migrationPath = path.join(process.cwd(), 'supabase/migrations/0001_create_api_keys_table.sql')
     const sql = fs.readFileSync(migrationPath, 'utf8')
 
     // Use Supabase REST API to execute SQL
@@ -45,7 +45,7 @@ async function createTables() {
     console.log('   https://supabase.com/dashboard/project/nqgaooprvgrmkvfslofh/sql/new')
     console.log('\n📄 Copy this SQL:\n')
 
-    const migrationPath = path.join(process.cwd(), 'supabase/migrations/create_api_keys_table.sql')
+    const migrationPath = path.join(process.cwd(), 'supabase/migrations/0001_create_api_keys_table.sql')
     const sql = fs.readFileSync(migrationPath, 'utf8')
     console.log(sql)
   }
@@ -17,7 +17,7 @@ console.log('🔧 Manual Migration Required')
 console.log('')
 console.log('Please run the SQL migration manually:')
 console.log('1. Go to: https://supabase.com/dashboard/project/YOUR_PROJECT/editor')
-console.log('2. Copy the SQL from: supabase/migrations/create_api_keys_table.sql')
+console.log('2. Copy the SQL from: supabase/migrations/0001_create_api_keys_table.sql')
 console.log('3. Paste and execute in the SQL Editor')
 console.log('')
 console.log('Or, add SUPABASE_SERVICE_ROLE_KEY to .env and we can run it programmatically.')
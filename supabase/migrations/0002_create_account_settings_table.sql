@@ -0,0 +1,35 @@
+-- Create account_settings table (one row per user, account-wide API defaults)
+CREATE TABLE IF NOT EXISTS account_settings (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Default CRM write policy per field, e.g. {"name": "neverWrite", "linkedin": "fillEmptyOnly"}
+  write_policies JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE account_settings ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see their own settings
+CREATE POLICY "Users can view own account_settings"
+  ON account_settings
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Users can only create their own settings
+CREATE POLICY "Users can create own account_settings"
+  ON account_settings
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- Users can only update their own settings
+CREATE POLICY "Users can update own account_settings"
+  ON account_settings
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- Reuse the updated_at trigger function from 0001_create_api_keys_table.sql
+CREATE TRIGGER update_account_settings_updated_at
+  BEFORE UPDATE ON account_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,36 @@
+-- Create operation_snapshots table
+-- Each row is a CRM record's state captured just before the clean, merge or
+-- purge routes changed it; rows sharing an operation_id are rolled back together.
+CREATE TABLE IF NOT EXISTS operation_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  operation_id UUID NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  operation TEXT NOT NULL CHECK (operation IN ('clean', 'merge', 'purge')),
+  crm_provider TEXT NOT NULL,
+  record_id TEXT NOT NULL,
+  -- update: properties were overwritten; delete/merge: the record was removed
+  action TEXT NOT NULL CHECK (action IN ('update', 'delete', 'merge')),
+  -- Full record as returned by getCompany
+  properties JSONB NOT NULL,
+  -- Prior values of the properties being overwritten (update only)
+  changed_properties JSONB NOT NULL DEFAULT '{}'::jsonb,
+  rolled_back_at TIMESTAMPTZ,
+  -- ID of the restored record (differs from record_id when the CRM recreated it)
+  restored_record_id TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create index on operation_id for rollback lookups
+CREATE INDEX IF NOT EXISTS idx_operation_snapshots_operation_id ON operation_snapshots(operation_id);
+
+-- Create index on user_id for faster queries
+CREATE INDEX IF NOT EXISTS idx_operation_snapshots_user_id ON operation_snapshots(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE operation_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see their own snapshots (writes go through the service role)
+CREATE POLICY "Users can view own operation_snapshots"
+  ON operation_snapshots
+  FOR SELECT
+  USING (auth.uid() = user_id);
@@ -0,0 +1,70 @@
+-- Create jobs table
+-- A job is a bulk clean, purge or merge submitted through POST /api/v1/jobs and
+-- drained in the background by the job worker, one job_items row per company.
+CREATE TABLE IF NOT EXISTS jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  api_key_id UUID REFERENCES api_keys(id) ON DELETE SET NULL,
+  type TEXT NOT NULL CHECK (type IN ('clean', 'purge', 'merge')),
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'cancelled', 'failed')),
+  -- Shared options applied to every item (the parsed request body minus items)
+  options JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- CRM credentials from the submitting request's headers, encrypted with
+  -- CRM_CREDENTIALS_KEY (lib/crm/credentials.ts); cleared once the job finishes
+  crm_credentials TEXT,
+  total_items INTEGER NOT NULL,
+  -- Lease held by the worker draining the job; other workers skip it until then
+  locked_until TIMESTAMPTZ,
+  error TEXT,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  cancelled_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create job_items table
+CREATE TABLE IF NOT EXISTS job_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  -- Position in the submitted items array
+  item_index INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'succeeded', 'failed', 'cancelled')),
+  record_id TEXT,
+  company JSONB NOT NULL,
+  result JSONB,
+  error TEXT,
+  -- HTTP status the single-record endpoint would have answered with
+  status_code INTEGER,
+  credits_used INTEGER NOT NULL DEFAULT 0,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (job_id, item_index)
+);
+
+-- Create index on user_id for faster queries
+CREATE INDEX IF NOT EXISTS idx_jobs_user_id ON jobs(user_id);
+
+-- Create index on status so the worker can find unfinished jobs
+CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status);
+
+-- Create index for draining a job's items in order and counting progress
+CREATE INDEX IF NOT EXISTS idx_job_items_job_id_status ON job_items(job_id, status, item_index);
+
+-- Enable Row Level Security
+-- No user-facing policies: jobs hold CRM credentials, so all access goes through
+-- the service role in the /api/v1/jobs routes
+ALTER TABLE jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE job_items ENABLE ROW LEVEL SECURITY;
+
+-- Reuse the updated_at trigger function from 0001_create_api_keys_table.sql
+CREATE TRIGGER update_jobs_updated_at
+  BEFORE UPDATE ON jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_job_items_updated_at
+  BEFORE UPDATE ON job_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,91 @@
+-- Create webhook_endpoints table
+-- URLs an account registered to receive job.completed, record.*, credits.low and schedule.completed events
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  description TEXT,
+  -- Subscribed event types, e.g. {"job.completed", "record.merged"}
+  events TEXT[] NOT NULL,
+  -- HMAC-SHA256 signing secret for this endpoint's deliveries
+  secret TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create webhook_deliveries table (the delivery log)
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- ID of the audit event that was delivered (shared by its deliveries to every endpoint)
+  event_id UUID NOT NULL,
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  -- pending: awaiting its first attempt or a retry; delivering: claimed by a
+  -- worker mid-attempt; failed: retries exhausted
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivering', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ,
+  response_status INTEGER,
+  response_body TEXT,
+  error TEXT,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create index on user_id for faster queries
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_user_id ON webhook_endpoints(user_id);
+
+-- Create index for an endpoint's delivery log, newest first
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint_id ON webhook_deliveries(endpoint_id, created_at DESC);
+
+-- Create index so the retry worker can find due deliveries
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+
+-- Enable Row Level Security
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see their own webhook endpoints
+CREATE POLICY "Users can view own webhook_endpoints"
+  ON webhook_endpoints
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Users can only create their own webhook endpoints
+CREATE POLICY "Users can create own webhook_endpoints"
+  ON webhook_endpoints
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- Users can only update their own webhook endpoints
+CREATE POLICY "Users can update own webhook_endpoints"
+  ON webhook_endpoints
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- Users can only delete their own webhook endpoints
+CREATE POLICY "Users can delete own webhook_endpoints"
+  ON webhook_endpoints
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Users can only see their own deliveries (writes go through the service role)
+CREATE POLICY "Users can view own webhook_deliveries"
+  ON webhook_deliveries
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Reuse the updated_at trigger function from 0001_create_api_keys_table.sql
+CREATE TRIGGER update_webhook_endpoints_updated_at
+  BEFORE UPDATE ON webhook_endpoints
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_webhook_deliveries_updated_at
+  BEFORE UPDATE ON webhook_deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,14 @@
+-- Add full-portal scan support to jobs
+-- A scan job has no submitted items: the worker pages through every company in
+-- the CRM and queues each page as job_items. scan_cursor is the checkpoint, so a
+-- scan resumes from the last queued page after a crash or timeout.
+ALTER TABLE jobs
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'items' CHECK (source IN ('items', 'scan')),
+  -- CRM cursor of the next page to fetch (null before the first page)
+  ADD COLUMN IF NOT EXISTS scan_cursor TEXT,
+  -- Stop queueing once this many records have been queued (null for item jobs)
+  ADD COLUMN IF NOT EXISTS max_items INTEGER,
+  -- Consecutive failed page fetches; the job fails once it reaches the limit
+  ADD COLUMN IF NOT EXISTS scan_failures INTEGER NOT NULL DEFAULT 0,
+  -- Set once the last page has been queued
+  ADD COLUMN IF NOT EXISTS scan_completed_at TIMESTAMPTZ;
@@ -0,0 +1,78 @@
+-- Create schedules table
+-- A schedule runs a clean, purge or merge scan of the CRM on a recurring basis.
+-- Schedules belong to the API key that created them: deleting the key deletes them.
+CREATE TABLE IF NOT EXISTS schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  api_key_id UUID NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('clean', 'purge', 'merge')),
+  -- Shared job options applied to every scanned record
+  options JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- CRM credentials each run scans with, encrypted with CRM_CREDENTIALS_KEY
+  -- (lib/crm/credentials.ts)
+  crm_credentials TEXT NOT NULL,
+  frequency TEXT NOT NULL CHECK (frequency IN ('hourly', 'daily', 'weekly')),
+  -- UTC hour for daily and weekly schedules
+  hour INTEGER NOT NULL DEFAULT 0 CHECK (hour BETWEEN 0 AND 23),
+  -- Weekly schedules only (0 = Sunday)
+  day_of_week INTEGER CHECK (day_of_week BETWEEN 0 AND 6),
+  -- Only scan records modified in the last N days (null scans every record)
+  modified_within_days INTEGER,
+  max_records INTEGER,
+  -- Where run results are emailed (webhooks use the schedule.completed event)
+  notify_email TEXT,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  next_run_at TIMESTAMPTZ NOT NULL,
+  last_run_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create schedule_runs table
+-- One row per run; the work itself is a scan job
+CREATE TABLE IF NOT EXISTS schedule_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  schedule_id UUID NOT NULL REFERENCES schedules(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  job_id UUID REFERENCES jobs(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed', 'cancelled')),
+  -- Progress counts and outcome totals, filled in when the job finishes
+  summary JSONB,
+  error TEXT,
+  notified_at TIMESTAMPTZ,
+  notification_error TEXT,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create index on user_id for faster queries
+CREATE INDEX IF NOT EXISTS idx_schedules_user_id ON schedules(user_id);
+
+-- Create index so the scheduler can find due schedules
+CREATE INDEX IF NOT EXISTS idx_schedules_next_run_at ON schedules(next_run_at) WHERE enabled;
+
+-- Create index for listing a schedule's runs, newest first
+CREATE INDEX IF NOT EXISTS idx_schedule_runs_schedule_id ON schedule_runs(schedule_id, started_at DESC);
+
+-- Create index so the scheduler can find runs to finalize
+CREATE INDEX IF NOT EXISTS idx_schedule_runs_status ON schedule_runs(status);
+
+-- Enable Row Level Security
+-- No user-facing policies: schedules hold CRM credentials, so all access goes
+-- through the service role in the /api/v1/schedules routes
+ALTER TABLE schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE schedule_runs ENABLE ROW LEVEL SECURITY;
+
+-- Reuse the updated_at trigger function from 0001_create_api_keys_table.sql
+CREATE TRIGGER update_schedules_updated_at
+  BEFORE UPDATE ON schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_schedule_runs_updated_at
+  BEFORE UPDATE ON schedule_runs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
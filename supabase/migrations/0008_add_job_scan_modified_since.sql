@@ -0,0 +1,4 @@
+-- Add a modified-since filter to scan jobs
+-- Scan jobs started by a schedule only look at records modified after this time
+ALTER TABLE jobs
+  ADD COLUMN IF NOT EXISTS scan_modified_since TIMESTAMPTZ;
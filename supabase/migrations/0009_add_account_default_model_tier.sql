@@ -0,0 +1,4 @@
+-- Add an account-wide default model tier
+-- Requests without a "model" run on this tier; null means the built-in default (fast)
+ALTER TABLE account_settings
+  ADD COLUMN IF NOT EXISTS default_model_tier TEXT CHECK (default_model_tier IN ('fast', 'balanced', 'accurate'));
@@ -0,0 +1,34 @@
+-- Create ai_cost_records table
+-- One row per API request (or background job item) with the tokens it used, what
+-- they cost at list price and the credits charged, for reconciling AI spend
+-- against credits sold.
+CREATE TABLE IF NOT EXISTS ai_cost_records (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  operation TEXT NOT NULL CHECK (operation IN ('clean', 'clean-batch', 'purge', 'merge', 'merge-cluster', 'cluster')),
+  -- Set when the request was an item of a background job
+  job_id UUID REFERENCES jobs(id) ON DELETE SET NULL,
+  model_tier TEXT NOT NULL CHECK (model_tier IN ('fast', 'balanced', 'accurate')),
+  -- Models that served the AI calls (empty when none ran)
+  models TEXT[] NOT NULL DEFAULT '{}',
+  ai_calls INTEGER NOT NULL DEFAULT 0,
+  input_tokens BIGINT NOT NULL DEFAULT 0,
+  -- Part of input_tokens served from the provider's prompt cache
+  cached_input_tokens BIGINT NOT NULL DEFAULT 0,
+  -- Output tokens, reasoning included
+  output_tokens BIGINT NOT NULL DEFAULT 0,
+  reasoning_tokens BIGINT NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  credits_charged INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create index on created_at for reconciling by period
+CREATE INDEX IF NOT EXISTS idx_ai_cost_records_created_at ON ai_cost_records(created_at);
+
+-- Create index on user_id for per-account reconciliation
+CREATE INDEX IF NOT EXISTS idx_ai_cost_records_user_id ON ai_cost_records(user_id);
+
+-- Enable Row Level Security
+-- No policies: cost records are internal and only read or written with the service role
+ALTER TABLE ai_cost_records ENABLE ROW LEVEL SECURITY;
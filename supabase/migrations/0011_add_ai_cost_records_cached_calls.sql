@@ -0,0 +1,4 @@
+-- Count AI calls answered from the AI result cache
+-- They use no tokens and aren't charged; ai_calls counts only calls that reached the model
+ALTER TABLE ai_cost_records
+  ADD COLUMN IF NOT EXISTS cached_calls INTEGER NOT NULL DEFAULT 0;